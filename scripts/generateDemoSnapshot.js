@@ -0,0 +1,43 @@
+#!/usr/bin/env node
+// Regenerates src/utils/demoSnapshot.json (loaded by demoResults.ts) by running the live training
+// pipeline (the same functions the app's worker jobs use) on DEMO_CONFIG.
+//
+// Usage:
+//   node scripts/generateDemoSnapshot.js          write the snapshot
+//   node scripts/generateDemoSnapshot.js --check  fail if the snapshot is stale
+
+const fs = require('fs');
+const path = require('path');
+const ts = require('typescript');
+
+// Load the app's TypeScript modules directly by transpiling them on require
+require.extensions['.ts'] = (module, filename) => {
+  const source = fs.readFileSync(filename, 'utf8');
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2019,
+      esModuleInterop: true
+    },
+    fileName: filename
+  });
+  module._compile(outputText, filename);
+};
+
+const SNAPSHOT_PATH = path.join(__dirname, '..', 'src', 'utils', 'demoSnapshot.json');
+
+const { computeDemoSnapshot } = require('../src/utils/demo.ts');
+
+const expected = JSON.stringify(computeDemoSnapshot(), null, 2) + '\n';
+
+if (process.argv.includes('--check')) {
+  const actual = fs.readFileSync(SNAPSHOT_PATH, 'utf8');
+  if (actual !== expected) {
+    console.error('Demo snapshot is out of date. Run `npm run demo:snapshot` and commit the result.');
+    process.exit(1);
+  }
+  console.log('Demo snapshot matches the live pipeline.');
+} else {
+  fs.writeFileSync(SNAPSHOT_PATH, expected);
+  console.log(`Wrote ${path.relative(process.cwd(), SNAPSHOT_PATH)}`);
+}
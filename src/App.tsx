@@ -1,33 +1,102 @@
-import React, { useState, useMemo, useCallback } from 'react';
+import React, { useState, useMemo, useCallback, useRef, useEffect } from 'react';
 import { ControlPanel } from './components/ControlPanel';
 import { PlotCanvas } from './components/PlotCanvas';
 import { LossSparkline } from './components/LossSparkline';
 import { BootstrapHistogram } from './components/BootstrapHistogram';
+import { BootstrapWeights } from './components/BootstrapWeights';
 import { StatsPanel } from './components/StatsPanel';
+import { BayesianPanel } from './components/BayesianPanel';
+import { BiasVarianceChart } from './components/BiasVarianceChart';
+import { RegularizationPath } from './components/RegularizationPath';
+import { RocPrCurves } from './components/RocPrCurves';
+import { CalibrationPanel } from './components/CalibrationPanel';
+import { TabBar } from './components/TabBar';
 import { HelpTooltip, AppOverviewHelp } from './components/HelpTooltip';
-import { generateData, GeneratorConfig } from './utils/dataGenerator';
-import { ModelConfig, ModelState } from './utils/logisticRegression';
+import { DataPoint, Dataset, generateData, GeneratorConfig } from './utils/dataGenerator';
+import { ModelConfig, ModelState, countClasses, createClassPredictor, sameModelConfig, splitProbabilities } from './utils/logisticRegression';
+import { datasetToCsv, downloadText } from './utils/csv';
+import { DEFAULT_EDIT_CONFIG, EditConfig, MAX_EDIT_HISTORY } from './utils/pointEditing';
+import { DEFAULT_CORRUPTION_CONFIG, cleanPoints, summarizeCorruption } from './utils/corruption';
+import { DEFAULT_FEATURE_CONFIG } from './utils/features';
+import { DEFAULT_OPTIMIZER_CONFIG, OptimizerCurve, OptimizerType } from './utils/optimizers';
+import { DEFAULT_PENALTY_CONFIG, RegularizationPathPoint, lambdaGrid } from './utils/regularization';
+import { DEFAULT_EARLY_STOPPING_CONFIG, DEFAULT_SCHEDULE_CONFIG } from './utils/schedules';
+import { SplitMetrics, computeMetrics, thresholdCurves } from './utils/metrics';
+import { CalibrationMethod, applyCalibrator, fitCalibrator, reliabilityDiagram } from './utils/calibration';
+import { Posterior } from './utils/bayesian';
+import { BiasVariancePoint, BiasVarianceSweep, sweepValues } from './utils/biasVariance';
+import { DISAGREEMENT_MEASURE_LABELS, DisagreementMeasure, HEATMAP_MODE_LABELS, HeatmapMode } from './utils/ensemble';
+import { CrossValidationFold, DEFAULT_SPLIT_CONFIG, splitRoles } from './utils/splits';
+import { BootstrapRefits, MethodIntervals } from './utils/bootstrap';
+import { UncertaintyConfig } from './utils/uncertainty';
 import { useTrainingWorker } from './hooks/useTrainingWorker';
-import { DEMO_CONFIG, DEMO_MODEL_RESULT, DEMO_UNCERTAINTY_BOUNDS, DEMO_BOOTSTRAP_ACCURACIES, DEMO_CONFIDENCE_INTERVAL } from './utils/presets';
+import { DEMO_CONFIG } from './utils/demo';
+import { DEMO_MODEL_RESULT, DEMO_UNCERTAINTY_BOUNDS, DEMO_BOOTSTRAP_ACCURACIES, DEMO_CONFIDENCE_INTERVAL, DEMO_BOOTSTRAP_INTERVALS } from './utils/demoResults';
 
 // Default configurations
 const DEFAULT_DATA_CONFIG: GeneratorConfig = {
   distribution: 'blobs',
+  numClasses: 2,
   n: 300,
   balance: 0.5,
-  noise: 0.9,
+  params: { noise: 0.9 },
+  corruption: DEFAULT_CORRUPTION_CONFIG,
   seed: 42
 };
 
 const DEFAULT_MODEL_CONFIG: ModelConfig = {
   lambda: 0.01,
+  penalty: DEFAULT_PENALTY_CONFIG,
   learningRate: 0.05,
-  epochs: 100
+  schedule: DEFAULT_SCHEDULE_CONFIG,
+  epochs: 100,
+  earlyStopping: DEFAULT_EARLY_STOPPING_CONFIG,
+  seed: 7,
+  features: DEFAULT_FEATURE_CONFIG,
+  optimizer: DEFAULT_OPTIMIZER_CONFIG,
+  split: DEFAULT_SPLIT_CONFIG,
+  classWeighting: 'none'
 };
 
-const DEFAULT_UNCERTAINTY_CONFIG = {
+// Optimizers run side by side by "Compare Optimizers"
+const COMPARED_OPTIMIZERS: OptimizerType[] = ['sgd', 'momentum', 'nesterov', 'adam', 'newton'];
+
+// Views in the bottom-left analysis panel
+type AnalysisView = 'bootstrap' | 'weights' | 'posterior' | 'regularizationPath' | 'biasVariance' | 'curves' | 'calibration';
+
+const ANALYSIS_TABS: { id: AnalysisView; label: string }[] = [
+  { id: 'bootstrap', label: 'Bootstrap' },
+  { id: 'weights', label: 'Weights' },
+  { id: 'posterior', label: 'Posterior' },
+  { id: 'regularizationPath', label: 'λ Path' },
+  { id: 'biasVariance', label: 'Bias–Variance' },
+  { id: 'curves', label: 'ROC / PR' },
+  { id: 'calibration', label: 'Calibration' }
+];
+
+// Class 1 column of binary class probabilities (n × 2)
+const positiveScores = (probs: Float64Array) => probs.filter((_, i) => i % 2 === 1);
+
+// Data used instead of the generator output: imported from a file and/or edited on the plot
+interface CustomDataset {
+  dataset: Dataset;
+  name: string; // File name, or distribution and seed for edited generated data
+  classNames?: string[]; // Original labels of imported data
+  edited: boolean;
+}
+
+// Quiet time (ms) after the last edit before live retraining starts
+const LIVE_RETRAIN_DELAY = 150;
+
+const DEFAULT_UNCERTAINTY_CONFIG: UncertaintyConfig = {
   repeatRuns: 10,
-  bootstrapSamples: 300
+  bootstrapSamples: 300,
+  bootstrapMode: 'accuracy',
+  confidenceLevel: 0.95,
+  posteriorMethod: 'laplace',
+  posteriorSamples: 200,
+  biasVarianceSweep: 'lambda',
+  biasVarianceDatasets: 30
 };
 
 function App() {
@@ -35,24 +104,72 @@ function App() {
   const [dataConfig, setDataConfig] = useState<GeneratorConfig>(DEFAULT_DATA_CONFIG);
   const [modelConfig, setModelConfig] = useState<ModelConfig>(DEFAULT_MODEL_CONFIG);
   const [uncertaintyConfig, setUncertaintyConfig] = useState(DEFAULT_UNCERTAINTY_CONFIG);
+  const [editConfig, setEditConfig] = useState<EditConfig>(DEFAULT_EDIT_CONFIG);
 
 
   // App states
   const [model, setModel] = useState<ModelState | null>(null);
+  const [cleanModel, setCleanModel] = useState<ModelState | null>(null); // Same config trained on the uncorrupted points
   const [isTraining, setIsTraining] = useState(false);
-  const [uncertaintyBounds, setUncertaintyBounds] = useState<Float32Array[]>([]);
+  const [pausedEpoch, setPausedEpoch] = useState<number | null>(null);
+  const [uncertaintyBounds, setUncertaintyBounds] = useState<ModelState[]>([]);
   const [bootstrapAccuracies, setBootstrapAccuracies] = useState<number[]>([]);
   const [confidenceInterval, setConfidenceInterval] = useState<[number, number] | undefined>();
+  const [bootstrapIntervals, setBootstrapIntervals] = useState<{ intervals: MethodIntervals; level: number } | null>(null);
+  const [bootstrapRefits, setBootstrapRefits] = useState<{ refits: BootstrapRefits; model: ModelState; level: number } | null>(null);
+  const [optimizerCurves, setOptimizerCurves] = useState<OptimizerCurve[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+  const [regularizationPath, setRegularizationPath] = useState<{ path: RegularizationPathPoint[]; featureNames: string[] } | null>(null);
+  const [isComputingPath, setIsComputingPath] = useState(false);
+  const [crossValidation, setCrossValidation] = useState<CrossValidationFold[] | null>(null);
+  const [isCrossValidating, setIsCrossValidating] = useState(false);
+  const [posterior, setPosterior] = useState<{ posterior: Posterior; model: ModelState } | null>(null);
+  const [isSamplingPosterior, setIsSamplingPosterior] = useState(false);
+  const [biasVariance, setBiasVariance] = useState<{ results: BiasVariancePoint[]; sweep: BiasVarianceSweep; numDatasets: number } | null>(null);
+  const [isRunningBiasVariance, setIsRunningBiasVariance] = useState(false);
+  const [showSplit, setShowSplit] = useState(false);
+  const [threshold, setThreshold] = useState(0.5); // Decision threshold on p₁ (binary models)
+  const [calibrationMethod, setCalibrationMethod] = useState<CalibrationMethod>('none');
+  const [analysisView, setAnalysisView] = useState<AnalysisView>('bootstrap');
+  const [heatmapMode, setHeatmapMode] = useState<HeatmapMode>('single'); // Applies once its runs or draws exist
+  const [disagreementMeasure, setDisagreementMeasure] = useState<DisagreementMeasure>('std');
   const [isDemoMode, setIsDemoMode] = useState(false);
+  // Replaces the generated data until cleared; the history holds its previous values for undo
+  const [customDataset, setCustomDataset] = useState<CustomDataset | null>(null);
+  const [editHistory, setEditHistory] = useState<(CustomDataset | null)[]>([]);
+  const trainJobRef = useRef<number | null>(null);
+  const cleanJobRef = useRef<number | null>(null);
+  const isLiveRetrainRef = useRef(false); // The training job is a live retrain after an edit
+  const compareJobRef = useRef<number | null>(null);
+  const pathJobRef = useRef<number | null>(null);
+  const cvJobRef = useRef<number | null>(null);
+  const posteriorJobRef = useRef<number | null>(null);
+  const posteriorModelRef = useRef<ModelState | null>(null); // Model the running posterior job uses
+  const biasVarianceJobRef = useRef<number | null>(null);
+  const biasVarianceSettingsRef = useRef<{ sweep: BiasVarianceSweep; numDatasets: number } | null>(null); // Settings of the running experiment
+  const repeatJobRef = useRef<number | null>(null);
+  const bootstrapJobRef = useRef<number | null>(null);
+  const refitModelRef = useRef<ModelState | null>(null); // Model the running bootstrap refits
+  const bootstrapLevelRef = useRef(DEFAULT_UNCERTAINTY_CONFIG.confidenceLevel); // Confidence level of the running bootstrap
 
-  // Generate dataset
-  const dataset = useMemo(() => generateData(dataConfig), [dataConfig]);
+  // Generate dataset (unless a custom one is in use)
+  const generatedDataset = useMemo(() => generateData(dataConfig), [dataConfig]);
+  const dataset = customDataset ? customDataset.dataset : generatedDataset;
+  const datasetClasses = useMemo(() => countClasses(dataset.points), [dataset.points]);
+  // Train/val/test role of every point: the split the model was trained on, or
+  // the one the current model seed and split settings draw before training
+  const modelSplit = model?.split ?? null;
+  const datasetRoles = useMemo(() => {
+    const { seed, config } = modelSplit ?? { seed: modelConfig.seed, config: modelConfig.split };
+    return splitRoles(dataset.points.map(point => point.label), seed, config);
+  }, [dataset.points, modelSplit, modelConfig.seed, modelConfig.split]);
 
   // Training worker
   const trainingWorker = useTrainingWorker({
-    onTrainingProgress: (epoch, loss, trainAcc, valAcc) => {
-      // Update model state with progress
-      if (model) {
+    onTrainingProgress: (epoch, loss, trainAcc, valAcc, jobId) => {
+      if (jobId !== trainJobRef.current) return;
+      // Update model state with progress (a live retrain keeps the previous model until it completes)
+      if (model && !isLiveRetrainRef.current) {
         setModel(prev => prev ? {
           ...prev,
           trainAccuracy: trainAcc,
@@ -61,36 +178,277 @@ function App() {
         } : null);
       }
     },
-    onTrainingComplete: (result) => {
+    onTrainingPaused: (result, epoch, jobId) => {
+      if (jobId !== trainJobRef.current) return;
+      // Show the checkpointed model so students can inspect it mid-training
+      setModel(result);
+      setPausedEpoch(epoch);
+      setIsTraining(false);
+    },
+    onTrainingComplete: (result, jobId) => {
+      if (jobId === cleanJobRef.current) {
+        cleanJobRef.current = null;
+        setCleanModel(result);
+        return;
+      }
+      if (jobId !== trainJobRef.current) return;
+      trainJobRef.current = null;
+      isLiveRetrainRef.current = false;
       setModel(result);
+      setPausedEpoch(null);
       setIsTraining(false);
     },
-    onRepeatComplete: (results) => {
-      // Extract boundary weights for uncertainty visualization
-      const bounds = results.map(result => result.weights);
-      setUncertaintyBounds(bounds);
+    onRepeatComplete: (results, jobId) => {
+      // Results of runs started before the data changed are stale
+      if (jobId !== repeatJobRef.current) return;
+      repeatJobRef.current = null;
+      // Keep whole models: each run has its own standardization and feature map
+      setUncertaintyBounds(results);
     },
-    onBootstrapComplete: (accuracies, ci) => {
+    onBootstrapComplete: (accuracies, ci, intervals, refits, jobId) => {
+      if (jobId !== bootstrapJobRef.current) return;
+      bootstrapJobRef.current = null;
+      const level = bootstrapLevelRef.current;
       setBootstrapAccuracies(accuracies);
       setConfidenceInterval(ci);
+      setBootstrapIntervals({ intervals, level });
+      setBootstrapRefits(refits && refitModelRef.current ? { refits, model: refitModelRef.current, level } : null);
     },
-    onError: (error) => {
-      console.error('Training worker error:', error);
-      setIsTraining(false);
+    onCompareComplete: (curves, jobId) => {
+      if (jobId !== compareJobRef.current) return;
+      compareJobRef.current = null;
+      setOptimizerCurves(curves);
+      setIsComparing(false);
+    },
+    onPathComplete: (path, featureNames, jobId) => {
+      if (jobId !== pathJobRef.current) return;
+      pathJobRef.current = null;
+      setRegularizationPath({ path, featureNames });
+      setIsComputingPath(false);
+    },
+    onCrossValidationComplete: (folds, jobId) => {
+      if (jobId !== cvJobRef.current) return;
+      cvJobRef.current = null;
+      setCrossValidation(folds);
+      setIsCrossValidating(false);
+    },
+    onPosteriorComplete: (result, jobId) => {
+      if (jobId !== posteriorJobRef.current) return;
+      posteriorJobRef.current = null;
+      setPosterior(posteriorModelRef.current ? { posterior: result, model: posteriorModelRef.current } : null);
+      setIsSamplingPosterior(false);
+    },
+    onBiasVarianceComplete: (results, jobId) => {
+      if (jobId !== biasVarianceJobRef.current) return;
+      biasVarianceJobRef.current = null;
+      setBiasVariance(biasVarianceSettingsRef.current ? { results, ...biasVarianceSettingsRef.current } : null);
+      setIsRunningBiasVariance(false);
+    },
+    onError: (error, jobId, job) => {
+      // Only the failed job is reset; the others keep running
+      console.error(`Training worker error (${job} job):`, error);
+      if (jobId === trainJobRef.current) {
+        trainJobRef.current = null;
+        isLiveRetrainRef.current = false;
+        setPausedEpoch(null);
+        setIsTraining(false);
+      } else if (jobId === cleanJobRef.current) {
+        cleanJobRef.current = null;
+      } else if (jobId === repeatJobRef.current) {
+        repeatJobRef.current = null;
+      } else if (jobId === bootstrapJobRef.current) {
+        bootstrapJobRef.current = null;
+      } else if (jobId === compareJobRef.current) {
+        compareJobRef.current = null;
+        setIsComparing(false);
+      } else if (jobId === pathJobRef.current) {
+        pathJobRef.current = null;
+        setIsComputingPath(false);
+      } else if (jobId === cvJobRef.current) {
+        cvJobRef.current = null;
+        setIsCrossValidating(false);
+      } else if (jobId === posteriorJobRef.current) {
+        posteriorJobRef.current = null;
+        setIsSamplingPosterior(false);
+      } else if (jobId === biasVarianceJobRef.current) {
+        biasVarianceJobRef.current = null;
+        setIsRunningBiasVariance(false);
+      }
     }
   });
 
-  // Event handlers
-  const handleDataConfigChange = useCallback((config: Partial<GeneratorConfig>) => {
-    setDataConfig(prev => ({ ...prev, ...config }));
-    // Reset model when data changes
-    setModel(null);
+  // Drop the current (running or paused) training job, if any
+  const discardTrainingJob = useCallback(() => {
+    if (trainJobRef.current !== null) {
+      trainingWorker.cancelJob(trainJobRef.current);
+      trainJobRef.current = null;
+    }
+    isLiveRetrainRef.current = false;
+    setPausedEpoch(null);
+    setIsTraining(false);
+  }, [trainingWorker]);
+
+  // Drop optimizer comparison, regularization path, cross-validation,
+  // posterior and bias-variance results (and any running jobs)
+  const discardTrainingAnalyses = useCallback(() => {
+    [compareJobRef, pathJobRef, cvJobRef, posteriorJobRef, biasVarianceJobRef].forEach(jobRef => {
+      if (jobRef.current !== null) {
+        trainingWorker.cancelJob(jobRef.current);
+        jobRef.current = null;
+      }
+    });
+    setOptimizerCurves([]);
+    setIsComparing(false);
+    setRegularizationPath(null);
+    setIsComputingPath(false);
+    setCrossValidation(null);
+    setIsCrossValidating(false);
+    setPosterior(null);
+    setIsSamplingPosterior(false);
+    setBiasVariance(null);
+    setIsRunningBiasVariance(false);
+  }, [trainingWorker]);
+
+  // Drop the repeat-run bands and bootstrap intervals (and their running jobs)
+  const discardUncertaintyResults = useCallback(() => {
+    [repeatJobRef, bootstrapJobRef].forEach(jobRef => {
+      if (jobRef.current !== null) {
+        trainingWorker.cancelJob(jobRef.current);
+        jobRef.current = null;
+      }
+    });
     setUncertaintyBounds([]);
     setBootstrapAccuracies([]);
     setConfidenceInterval(undefined);
+    setBootstrapIntervals(null);
+    setBootstrapRefits(null);
+  }, [trainingWorker]);
+
+  const discardCleanReference = useCallback(() => {
+    if (cleanJobRef.current !== null) {
+      trainingWorker.cancelJob(cleanJobRef.current);
+      cleanJobRef.current = null;
+    }
+    setCleanModel(null);
+  }, [trainingWorker]);
+
+  // Train the same config on the uncorrupted points (if any were corrupted), so
+  // the boundary learned from noisy data can be compared with the clean one
+  const trainCleanReference = useCallback((points: DataPoint[], config: ModelConfig) => {
+    discardCleanReference();
+    if (points.some(point => point.corruption)) {
+      cleanJobRef.current = trainingWorker.trainModel(cleanPoints(points), config);
+    }
+  }, [trainingWorker, discardCleanReference]);
+
+  // Drop the model and every result computed from the current data
+  const discardDataResults = useCallback(() => {
+    discardTrainingJob();
+    discardTrainingAnalyses();
+    discardCleanReference();
+    discardUncertaintyResults();
+    setModel(null);
     setIsDemoMode(false);
+  }, [discardTrainingJob, discardTrainingAnalyses, discardCleanReference, discardUncertaintyResults]);
+
+  // Switch to other data (or back to the generator), forgetting the edit history
+  const replaceCustomDataset = useCallback((custom: CustomDataset | null) => {
+    setCustomDataset(custom);
+    setEditHistory([]);
+  }, []);
+
+  // Event handlers
+  const handleDataConfigChange = useCallback((config: Partial<GeneratorConfig>) => {
+    setDataConfig(prev => ({ ...prev, ...config }));
+    replaceCustomDataset(null);
+    // Reset model when data changes
+    discardDataResults();
+  }, [discardDataResults, replaceCustomDataset]);
+
+  const handleImportDataset = useCallback((imported: Dataset, name: string, classNames: string[]) => {
+    replaceCustomDataset({ dataset: imported, name, classNames, edited: false });
+    discardDataResults();
+  }, [discardDataResults, replaceCustomDataset]);
+
+  const handleClearCustomDataset = useCallback(() => {
+    replaceCustomDataset(null);
+    discardDataResults();
+  }, [discardDataResults, replaceCustomDataset]);
+
+  const handleEditConfigChange = useCallback((config: Partial<EditConfig>) => {
+    setEditConfig(prev => ({ ...prev, ...config }));
   }, []);
 
+  // Start of an edit gesture on the plot: remember the data for undo and drop
+  // results computed from it. The model stays so the boundary can be compared.
+  const handleEditStart = useCallback(() => {
+    setEditHistory(prev => [...prev, customDataset].slice(-MAX_EDIT_HISTORY));
+    discardTrainingJob();
+    discardTrainingAnalyses();
+    discardUncertaintyResults();
+    setIsDemoMode(false);
+  }, [customDataset, discardTrainingJob, discardTrainingAnalyses, discardUncertaintyResults]);
+
+  const handleEditPoints = useCallback((points: DataPoint[]) => {
+    // Bounds stay fixed so the view doesn't move under the pointer
+    setCustomDataset(prev => ({
+      dataset: { points, bounds: dataset.bounds },
+      name: prev ? prev.name : `${dataConfig.distribution}-${dataConfig.seed}`,
+      classNames: prev?.classNames,
+      edited: true
+    }));
+  }, [dataset.bounds, dataConfig.distribution, dataConfig.seed]);
+
+  // Results computed from the edited points no longer apply once they are undone
+  const handleUndoEdit = useCallback(() => {
+    if (editHistory.length === 0) return;
+    setCustomDataset(editHistory[editHistory.length - 1]);
+    setEditHistory(prev => prev.slice(0, -1));
+    discardTrainingJob();
+    discardTrainingAnalyses();
+    discardUncertaintyResults();
+  }, [editHistory, discardTrainingJob, discardTrainingAnalyses, discardUncertaintyResults]);
+
+  const handleExportDataset = useCallback(() => {
+    // The split is the one training uses with the current model seed
+    const predict = model ? createClassPredictor(model) : null;
+    const csv = datasetToCsv(dataset, {
+      classNames: customDataset?.classNames,
+      split: datasetRoles,
+      probabilities: predict ? dataset.points.map(point => Float64Array.from(predict(point.x, point.y))) : undefined
+    });
+    const name = customDataset
+      ? customDataset.name.replace(/\.[^.]*$/, '') + (customDataset.edited ? '-edited' : '')
+      : `${dataConfig.distribution}-${dataConfig.seed}`;
+    downloadText(`${name}.csv`, csv);
+  }, [dataset, model, datasetRoles, customDataset, dataConfig.distribution, dataConfig.seed]);
+
+  // Retrain once the points stop changing, keeping the current boundary on screen
+  useEffect(() => {
+    if (!editConfig.liveRetrain || !customDataset?.edited || customDataset.dataset.points.length === 0) return;
+    const timer = setTimeout(() => {
+      discardTrainingJob();
+      isLiveRetrainRef.current = true;
+      setIsTraining(true);
+      trainJobRef.current = trainingWorker.trainModel(customDataset.dataset.points, modelConfig);
+      trainCleanReference(customDataset.dataset.points, modelConfig);
+    }, LIVE_RETRAIN_DELAY);
+    return () => clearTimeout(timer);
+  }, [editConfig.liveRetrain, customDataset, modelConfig, trainingWorker, discardTrainingJob, trainCleanReference]);
+
+  // Ctrl/Cmd+Z undoes the last edit while editing
+  useEffect(() => {
+    if (!editConfig.enabled) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key === 'z' && !(event.target instanceof HTMLInputElement)) {
+        event.preventDefault();
+        handleUndoEdit();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [editConfig.enabled, handleUndoEdit]);
+
   const handleModelConfigChange = useCallback((config: Partial<ModelConfig>) => {
     setModelConfig(prev => ({ ...prev, ...config }));
   }, []);
@@ -102,59 +460,192 @@ function App() {
   const handleResample = useCallback(() => {
     const newSeed = Math.floor(Math.random() * 1000000);
     setDataConfig(prev => ({ ...prev, seed: newSeed }));
+    replaceCustomDataset(null);
+    discardDataResults();
+  }, [discardDataResults, replaceCustomDataset]);
+
+  const handleRerollModelSeed = useCallback(() => {
+    const newSeed = Math.floor(Math.random() * 1000000);
+    setModelConfig(prev => ({ ...prev, seed: newSeed }));
   }, []);
 
   const handleTrain = useCallback(() => {
     if (dataset.points.length === 0) return;
     
+    discardTrainingJob();
     setIsTraining(true);
     setModel(null);
-    trainingWorker.trainModel(dataset.points, modelConfig, dataConfig.seed);
-  }, [dataset.points, modelConfig, dataConfig.seed, trainingWorker]);
+    trainJobRef.current = trainingWorker.trainModel(dataset.points, modelConfig);
+    trainCleanReference(dataset.points, modelConfig);
+  }, [dataset.points, modelConfig, trainingWorker, discardTrainingJob, trainCleanReference]);
 
   const handlePause = useCallback(() => {
-    trainingWorker.cancelCurrentJob();
-    setIsTraining(false);
+    if (trainJobRef.current === null) return;
+    // The worker keeps the checkpoint and replies with a 'paused' snapshot
+    trainingWorker.pauseJob(trainJobRef.current);
   }, [trainingWorker]);
 
+  const handleResume = useCallback(() => {
+    if (trainJobRef.current === null) return;
+    trainingWorker.resumeJob(trainJobRef.current);
+    setPausedEpoch(null);
+    setIsTraining(true);
+  }, [trainingWorker]);
+
+  const handleStep = useCallback(() => {
+    if (trainJobRef.current === null) {
+      if (dataset.points.length === 0) return;
+      // Start a new job paused at epoch 0 so it can be stepped from the beginning
+      setModel(null);
+      trainJobRef.current = trainingWorker.trainModel(dataset.points, modelConfig, true);
+      trainCleanReference(dataset.points, modelConfig);
+    }
+    if (trainJobRef.current !== null) {
+      trainingWorker.stepJob(trainJobRef.current);
+    }
+  }, [dataset.points, modelConfig, trainingWorker, trainCleanReference]);
+
   const handleReset = useCallback(() => {
-    trainingWorker.cancelCurrentJob();
+    trainingWorker.cancelAllJobs();
+    trainJobRef.current = null;
+    compareJobRef.current = null;
+    pathJobRef.current = null;
+    cvJobRef.current = null;
+    posteriorJobRef.current = null;
+    biasVarianceJobRef.current = null;
+    repeatJobRef.current = null;
+    bootstrapJobRef.current = null;
+    cleanJobRef.current = null;
     setModel(null);
+    setCleanModel(null);
+    setOptimizerCurves([]);
+    setIsComparing(false);
+    setRegularizationPath(null);
+    setIsComputingPath(false);
+    setCrossValidation(null);
+    setIsCrossValidating(false);
+    setPosterior(null);
+    setIsSamplingPosterior(false);
+    setBiasVariance(null);
+    setIsRunningBiasVariance(false);
+    setPausedEpoch(null);
     setIsTraining(false);
     setUncertaintyBounds([]);
     setBootstrapAccuracies([]);
     setConfidenceInterval(undefined);
+    setBootstrapIntervals(null);
+    setBootstrapRefits(null);
   }, [trainingWorker]);
 
   const handleRunUncertainty = useCallback(() => {
     if (!model || dataset.points.length === 0) return;
     
+    // Both jobs run concurrently in the worker; results are routed by job ID
+    [repeatJobRef, bootstrapJobRef].forEach(jobRef => {
+      if (jobRef.current !== null) trainingWorker.cancelJob(jobRef.current);
+    });
     // Run repeat training for uncertainty bounds
-    trainingWorker.runRepeatTraining(
+    repeatJobRef.current = trainingWorker.runRepeatTraining(
       dataset.points, 
       modelConfig, 
-      uncertaintyConfig.repeatRuns, 
-      dataConfig.seed
+      uncertaintyConfig.repeatRuns
     );
     
-    // Run bootstrap for confidence intervals
-    trainingWorker.runBootstrap(
+    // Run bootstrap for confidence intervals (of the weights too, when refitting)
+    refitModelRef.current = model;
+    bootstrapLevelRef.current = uncertaintyConfig.confidenceLevel;
+    bootstrapJobRef.current = trainingWorker.runBootstrap(
       dataset.points,
-      model.weights,
-      model.meanX,
-      model.stdX,
+      model,
+      uncertaintyConfig.bootstrapMode,
       uncertaintyConfig.bootstrapSamples,
+      uncertaintyConfig.confidenceLevel,
+      modelConfig.seed
+    );
+  }, [model, dataset.points, modelConfig, uncertaintyConfig, trainingWorker]);
+
+  const handleCompareOptimizers = useCallback(() => {
+    if (dataset.points.length === 0) return;
+    
+    // Every optimizer trains on the same split from the same initial weights
+    if (compareJobRef.current !== null) trainingWorker.cancelJob(compareJobRef.current);
+    setOptimizerCurves([]);
+    setIsComparing(true);
+    compareJobRef.current = trainingWorker.runCompareOptimizers(dataset.points, modelConfig, COMPARED_OPTIMIZERS);
+  }, [dataset.points, modelConfig, trainingWorker]);
+
+  const handleRegularizationPath = useCallback(() => {
+    if (dataset.points.length === 0) return;
+    
+    // Refit across the λ slider range with everything else unchanged
+    if (pathJobRef.current !== null) trainingWorker.cancelJob(pathJobRef.current);
+    setRegularizationPath(null);
+    setIsComputingPath(true);
+    setAnalysisView('regularizationPath');
+    pathJobRef.current = trainingWorker.runRegularizationPath(dataset.points, modelConfig, lambdaGrid());
+  }, [dataset.points, modelConfig, trainingWorker]);
+
+  const handleCrossValidate = useCallback(() => {
+    if (dataset.points.length === 0) return;
+    
+    // k refits on the train+val points; the test split stays untouched
+    if (cvJobRef.current !== null) trainingWorker.cancelJob(cvJobRef.current);
+    setCrossValidation(null);
+    setIsCrossValidating(true);
+    cvJobRef.current = trainingWorker.runCrossValidation(dataset.points, modelConfig);
+  }, [dataset.points, modelConfig, trainingWorker]);
+
+  const handleSamplePosterior = useCallback(() => {
+    if (!model || model.numClasses !== 2) return;
+    
+    // Posterior over the weights of the current model's features, seeded like the bootstrap
+    if (posteriorJobRef.current !== null) trainingWorker.cancelJob(posteriorJobRef.current);
+    setPosterior(null);
+    setIsSamplingPosterior(true);
+    setAnalysisView('posterior');
+    posteriorModelRef.current = model;
+    posteriorJobRef.current = trainingWorker.runPosterior(
+      dataset.points,
+      model,
+      uncertaintyConfig.posteriorMethod,
+      uncertaintyConfig.posteriorSamples,
+      modelConfig.seed
+    );
+  }, [model, dataset.points, modelConfig, uncertaintyConfig, trainingWorker]);
+
+  const handleBiasVariance = useCallback(() => {
+    if (customDataset) return;
+    
+    // Fresh draws from the generator, so imported or edited data can't be used
+    const { biasVarianceSweep: sweep, biasVarianceDatasets: numDatasets } = uncertaintyConfig;
+    if (biasVarianceJobRef.current !== null) trainingWorker.cancelJob(biasVarianceJobRef.current);
+    setBiasVariance(null);
+    setIsRunningBiasVariance(true);
+    setAnalysisView('biasVariance');
+    biasVarianceSettingsRef.current = { sweep, numDatasets };
+    biasVarianceJobRef.current = trainingWorker.runBiasVariance(
+      dataConfig,
+      modelConfig,
+      sweep,
+      sweepValues(sweep),
+      numDatasets,
       dataConfig.seed
     );
-  }, [model, dataset.points, modelConfig, uncertaintyConfig, dataConfig.seed, trainingWorker]);
+  }, [customDataset, dataConfig, modelConfig, uncertaintyConfig, trainingWorker]);
 
   // Demo handlers
   const handleTrainingDemo = useCallback(() => {
+    discardTrainingJob();
+    discardTrainingAnalyses();
+    
     // Update configurations to demo settings
     setDataConfig(DEMO_CONFIG.dataConfig);
+    replaceCustomDataset(null);
     setModelConfig(DEMO_CONFIG.modelConfig);
+    setUncertaintyConfig(DEMO_CONFIG.uncertaintyConfig);
     
     // Set demo results immediately
+    discardCleanReference();
     setModel(DEMO_MODEL_RESULT);
     setIsDemoMode(true);
     setIsTraining(false);
@@ -163,7 +654,9 @@ function App() {
     setUncertaintyBounds([]);
     setBootstrapAccuracies([]);
     setConfidenceInterval(undefined);
-  }, []);
+    setBootstrapIntervals(null);
+    setBootstrapRefits(null);
+  }, [discardTrainingJob, discardTrainingAnalyses, discardCleanReference, replaceCustomDataset]);
 
   const handleUncertaintyDemo = useCallback(() => {
     // First ensure we have demo training results
@@ -175,18 +668,17 @@ function App() {
     setUncertaintyBounds(DEMO_UNCERTAINTY_BOUNDS);
     setBootstrapAccuracies(DEMO_BOOTSTRAP_ACCURACIES);
     setConfidenceInterval(DEMO_CONFIDENCE_INTERVAL);
+    setBootstrapIntervals({ intervals: DEMO_BOOTSTRAP_INTERVALS, level: DEMO_CONFIG.uncertaintyConfig.confidenceLevel });
+    setBootstrapRefits(null);
   }, [isDemoMode, model, handleTrainingDemo]);
 
   const handleApplyPreset = useCallback((dataConfigUpdate: Partial<GeneratorConfig>, modelConfigUpdate: Partial<ModelConfig>) => {
     setDataConfig(prev => ({ ...prev, ...dataConfigUpdate }));
     setModelConfig(prev => ({ ...prev, ...modelConfigUpdate }));
+    replaceCustomDataset(null);
     // Reset model when preset is applied
-    setModel(null);
-    setUncertaintyBounds([]);
-    setBootstrapAccuracies([]);
-    setConfidenceInterval(undefined);
-    setIsDemoMode(false);
-  }, []);
+    discardDataResults();
+  }, [discardDataResults, replaceCustomDataset]);
 
   // Calculate uncertainty statistics
   const uncertaintyStats = useMemo(() => {
@@ -199,9 +691,83 @@ function App() {
     return {
       meanAccuracy: mean,
       stdAccuracy: std,
-      confidenceInterval: confidenceInterval || [0, 0] as [number, number]
+      confidenceInterval: confidenceInterval || [0, 0] as [number, number],
+      level: bootstrapIntervals?.level ?? uncertaintyConfig.confidenceLevel,
+      outOfBag: bootstrapRefits?.refits.outOfBag ?? null
     };
-  }, [bootstrapAccuracies, confidenceInterval]);
+  }, [bootstrapAccuracies, confidenceInterval, bootstrapIntervals, bootstrapRefits, uncertaintyConfig.confidenceLevel]);
+
+  // Degradation caused by label noise and outliers, once a model is trained
+  const corruptionSummary = useMemo(() => {
+    if (!model || !dataset.points.some(point => point.corruption)) return undefined;
+    return summarizeCorruption(dataset.points, model, cleanModel);
+  }, [dataset.points, model, cleanModel]);
+
+  // Probabilities of a binary model on each split, for the ROC/PR curves and
+  // for rescoring the splits at thresholds other than 0.5
+  const splitScores = useMemo(() => (
+    model && model.numClasses === 2 ? splitProbabilities(dataset.points, datasetRoles, model) : null
+  ), [model, dataset.points, datasetRoles]);
+
+  const splitCurves = useMemo(() => {
+    if (!splitScores) return null;
+    const curvesOf = ({ probs, labels }: { probs: Float64Array; labels: Float32Array }) => (
+      labels.length > 0 ? thresholdCurves(positiveScores(probs), labels) : null
+    );
+    return { train: curvesOf(splitScores.train), val: curvesOf(splitScores.val), test: curvesOf(splitScores.test) };
+  }, [splitScores]);
+
+  // Metrics at the current threshold (the model's own at 0.5)
+  const thresholdMetrics = useMemo((): SplitMetrics | null => {
+    if (!model) return null;
+    if (!splitScores || threshold === 0.5) return model.metrics;
+    const { train, val, test } = splitScores;
+    return {
+      train: computeMetrics(train.probs, train.labels, 2, threshold),
+      val: computeMetrics(val.probs, val.labels, 2, threshold),
+      test: test.labels.length > 0 ? computeMetrics(test.probs, test.labels, 2, threshold) : null
+    };
+  }, [model, splitScores, threshold]);
+
+  // Reliability before and after recalibration: the map is fitted on the
+  // model's own validation split (never its training rows, whatever the
+  // current split settings) and judged on the test split when there is one
+  const calibration = useMemo(() => {
+    if (!splitScores || splitScores.val.labels.length === 0) return null;
+    const { val, test } = splitScores;
+    const evaluatedOn = test.labels.length > 0 ? 'test' as const : 'val' as const;
+    const evaluation = splitScores[evaluatedOn];
+    const scores = positiveScores(evaluation.probs);
+    const calibrator = fitCalibrator(calibrationMethod, positiveScores(val.probs), val.labels);
+    return {
+      calibrator,
+      evaluatedOn,
+      before: reliabilityDiagram(scores, evaluation.labels),
+      after: calibrator ? reliabilityDiagram(scores.map(p => applyCalibrator(calibrator, p)), evaluation.labels) : null
+    };
+  }, [splitScores, calibrationMethod]);
+
+  // Bootstrap refits as models, for the boundary band of a binary model
+  const bandModels = useMemo(() => {
+    if (!bootstrapRefits || bootstrapRefits.model.numClasses !== 2) return null;
+    const { refits, model: refitModel } = bootstrapRefits;
+    return refits.weights.map(weights => ({ ...refitModel, weights: Float32Array.from(weights) }));
+  }, [bootstrapRefits]);
+
+  // Posterior draws as models: boundaries and the posterior predictive heatmap
+  const posteriorModels = useMemo(() => {
+    if (!posterior) return null;
+    const { posterior: { samples }, model: posteriorModel } = posterior;
+    return samples.map(weights => ({ ...posteriorModel, weights: Float32Array.from(weights) }));
+  }, [posterior]);
+
+  // Heatmap sources with something to show
+  const heatmapModes = (Object.keys(HEATMAP_MODE_LABELS) as HeatmapMode[]).filter(mode => {
+    if (mode === 'mean' || mode === 'disagreement') return uncertaintyBounds.length > 1;
+    if (mode === 'posterior') return !!posteriorModels;
+    return true;
+  });
+  const activeHeatmapMode = heatmapModes.includes(heatmapMode) ? heatmapMode : 'single';
 
   const canTrain = dataset.points.length > 0 && !isTraining;
 
@@ -232,15 +798,43 @@ function App() {
           onModelConfigChange={handleModelConfigChange}
           onUncertaintyConfigChange={handleUncertaintyConfigChange}
           onResample={handleResample}
+          customDatasetName={customDataset ? customDataset.name + (customDataset.edited ? ' (edited)' : '') : null}
+          onImportDataset={handleImportDataset}
+          onClearCustomDataset={handleClearCustomDataset}
+          onExportDataset={handleExportDataset}
+          editConfig={editConfig}
+          onEditConfigChange={handleEditConfigChange}
+          datasetClasses={datasetClasses}
+          undoCount={editHistory.length}
+          onUndoEdit={handleUndoEdit}
+          onRerollModelSeed={handleRerollModelSeed}
           onTrain={handleTrain}
           onPause={handlePause}
+          onResume={handleResume}
+          onStep={handleStep}
           onReset={handleReset}
           onRunUncertainty={handleRunUncertainty}
+          onCompareOptimizers={handleCompareOptimizers}
+          onRegularizationPath={handleRegularizationPath}
+          onCrossValidate={handleCrossValidate}
+          onSamplePosterior={handleSamplePosterior}
+          onBiasVariance={handleBiasVariance}
+          showSplit={showSplit}
+          onShowSplitChange={setShowSplit}
           onApplyPreset={handleApplyPreset}
           onTrainingDemo={handleTrainingDemo}
           onUncertaintyDemo={handleUncertaintyDemo}
           isTraining={isTraining}
+          isComparing={isComparing}
+          isComputingPath={isComputingPath}
+          isCrossValidating={isCrossValidating}
+          isSamplingPosterior={isSamplingPosterior}
+          canSamplePosterior={!!model && model.numClasses === 2 && !isTraining}
+          isRunningBiasVariance={isRunningBiasVariance}
+          canRunBiasVariance={!customDataset}
+          pausedEpoch={pausedEpoch}
           canTrain={canTrain}
+          settingsChangedSinceTraining={!!model && !sameModelConfig(model.config, modelConfig)}
         />
 
         {/* Right Area */}
@@ -271,7 +865,7 @@ function App() {
                         </div>
                         <div>
                           <strong>White line (Decision Boundary):</strong>
-                          <p className="text-sm">The computer's best guess for separating the colors. It says "Everything on this side is probably blue, everything on that side is probably orange."</p>
+                          <p className="text-sm">The computer's best guess for separating the colors (where the predicted probability is exactly 50%). It is straight for linear features and can curve with polynomial or RBF features. It says "Everything on this side is probably blue, everything on that side is probably orange."</p>
                         </div>
                         <div>
                           <strong>Background colors:</strong>
@@ -291,6 +885,7 @@ function App() {
                         <p><strong>Overfitting:</strong> Line tries too hard to catch every single dot</p>
                         <p><strong>Underfitting:</strong> Line ignores obvious patterns</p>
                         <p><strong>High uncertainty:</strong> Gray lines spread all over the place</p>
+                        <p><strong>Heatmap views:</strong> After an uncertainty run, "Mean prediction" colors the background by the average probabilities of the gray-line models, and "Disagreement" lights up where they disagree - by the std of their probabilities, by the entropy of the mean prediction (high near any boundary, even where they agree), or by the mutual information (that entropy minus the models' average entropy, which is zero where they all agree). After "Sample Posterior", "Posterior predictive" averages the probabilities of the posterior draws, whose boundaries are drawn in violet</p>
                       </div>
                     </div>
                     
@@ -300,7 +895,7 @@ function App() {
                     </div>
                     
                     <div className="bg-neutral-700 p-2 rounded text-xs">
-                      <strong>💡 Try this:</strong> Train a model on moons data with very low regularization (0.0001) - watch how the straight line struggles with the curved pattern! The computer can only draw straight lines but the pattern is curved.
+                      <strong>💡 Try this:</strong> Train a model on moons data with very low regularization (0.0001) - watch how the straight line struggles with the curved pattern! A linear model can only draw straight lines but the pattern is curved. Then switch Features to Polynomial or RBF and train again.
                     </div>
                   </div>
                 }
@@ -308,43 +903,179 @@ function App() {
               />
             </div>
             
+            {/* Heatmap source, once there are repeat runs or posterior draws to summarize */}
+            {heatmapModes.length > 1 && (
+              <div className="absolute top-2 left-10 z-30 flex gap-2">
+                <TabBar
+                  tabs={heatmapModes.map(mode => ({ id: mode, label: HEATMAP_MODE_LABELS[mode] }))}
+                  active={activeHeatmapMode}
+                  onChange={setHeatmapMode}
+                />
+                {activeHeatmapMode === 'disagreement' && (
+                  <TabBar
+                    tabs={(Object.keys(DISAGREEMENT_MEASURE_LABELS) as DisagreementMeasure[]).map(measure => ({ id: measure, label: DISAGREEMENT_MEASURE_LABELS[measure] }))}
+                    active={disagreementMeasure}
+                    onChange={setDisagreementMeasure}
+                  />
+                )}
+              </div>
+            )}
+            
             <PlotCanvas
               dataset={dataset}
               model={model}
               width={750} // Fixed reasonable width
               height={400} // Fixed reasonable height
               uncertaintyBounds={uncertaintyBounds}
+              heatmapMode={activeHeatmapMode}
+              disagreement={disagreementMeasure}
+              posteriorModels={posteriorModels}
+              bandModels={bandModels}
+              bandLevel={bootstrapRefits?.level}
+              referenceModel={cleanModel}
+              splitRoles={showSplit ? datasetRoles : null}
+              threshold={threshold}
+              calibrator={calibration?.calibrator}
+              editConfig={editConfig}
+              onEditStart={handleEditStart}
+              onPointsChange={handleEditPoints}
             />
             
             {/* Loss Sparkline Overlay */}
-            {model && model.losses.length > 0 && (
+            {((model && model.losses.length > 0) || optimizerCurves.length > 0) && (
               <LossSparkline
-                losses={model.losses}
-                width={200}
-                height={80}
+                losses={model ? model.losses : []}
+                valLosses={model?.valLosses}
+                stoppedEpoch={model?.stoppedEpoch}
+                bestEpoch={model?.bestEpoch}
+                comparison={optimizerCurves}
+                width={optimizerCurves.length > 0 ? 260 : 200}
+                height={optimizerCurves.length > 0 ? 130 : 80}
               />
             )}
           </div>
 
           {/* Bottom Strip - Fixed height */}
           <div className="grid grid-cols-2 gap-4 h-60 min-h-60 max-h-60">
-            {/* Bootstrap Histogram */}
+            {/* Analysis views: bootstrap histogram or regularization path */}
             <div className="min-h-0 overflow-auto scrollbar-dark">
-              {bootstrapAccuracies.length > 0 ? (
+              <TabBar tabs={ANALYSIS_TABS} active={analysisView} onChange={setAnalysisView} />
+              
+              {analysisView === 'bootstrap' && (bootstrapAccuracies.length > 0 ? (
                 <BootstrapHistogram
                   accuracies={bootstrapAccuracies}
                   width={380} // Fixed width that fits well
-                  height={220}
+                  height={180}
                   confidenceInterval={confidenceInterval}
+                  intervals={bootstrapIntervals}
                   isDemoMode={isDemoMode}
                 />
               ) : (
-                <div className="p-4 bg-neutral-900 border border-neutral-700 rounded-lg h-full flex items-center justify-center">
+                <div className="p-4 bg-neutral-900 border border-neutral-700 rounded-lg h-48 flex items-center justify-center">
                   <span className="text-neutral-500 text-sm">
                     Run uncertainty analysis to see bootstrap distribution
                   </span>
                 </div>
-              )}
+              ))}
+              
+              {analysisView === 'weights' && (bootstrapRefits ? (
+                <BootstrapWeights
+                  refits={bootstrapRefits.refits}
+                  model={bootstrapRefits.model}
+                  level={bootstrapRefits.level}
+                  width={380}
+                  height={150}
+                />
+              ) : (
+                <div className="p-4 bg-neutral-900 border border-neutral-700 rounded-lg h-48 flex items-center justify-center">
+                  <span className="text-neutral-500 text-sm">
+                    Run uncertainty analysis with Bootstrap Mode "Refit weights" to see weight distributions
+                  </span>
+                </div>
+              ))}
+              
+              {analysisView === 'curves' && (splitCurves && thresholdMetrics ? (
+                <RocPrCurves
+                  curves={splitCurves}
+                  metrics={thresholdMetrics}
+                  threshold={threshold}
+                  onThresholdChange={setThreshold}
+                  width={380}
+                  height={150}
+                />
+              ) : (
+                <div className="p-4 bg-neutral-900 border border-neutral-700 rounded-lg h-48 flex items-center justify-center">
+                  <span className="text-neutral-500 text-sm">
+                    {model ? 'ROC and PR curves are for two-class models' : 'Train a two-class model to see ROC and PR curves'}
+                  </span>
+                </div>
+              ))}
+              
+              {analysisView === 'posterior' && (posterior ? (
+                <BayesianPanel
+                  posterior={posterior.posterior}
+                  model={posterior.model}
+                  level={uncertaintyConfig.confidenceLevel}
+                  refits={bootstrapRefits?.model === posterior.model ? bootstrapRefits.refits : null}
+                />
+              ) : (
+                <div className="p-4 bg-neutral-900 border border-neutral-700 rounded-lg h-48 flex items-center justify-center">
+                  <span className="text-neutral-500 text-sm">
+                    {isSamplingPosterior ? 'Sampling the posterior...' : 'Click "Sample Posterior" with a trained two-class model to see the Bayesian posterior'}
+                  </span>
+                </div>
+              ))}
+              
+              {analysisView === 'calibration' && (calibration ? (
+                <CalibrationPanel
+                  before={calibration.before}
+                  after={calibration.after}
+                  evaluatedOn={calibration.evaluatedOn}
+                  method={calibrationMethod}
+                  onMethodChange={setCalibrationMethod}
+                  width={380}
+                  height={150}
+                />
+              ) : (
+                <div className="p-4 bg-neutral-900 border border-neutral-700 rounded-lg h-48 flex items-center justify-center">
+                  <span className="text-neutral-500 text-sm">
+                    {model ? 'Calibration diagnostics are for two-class models' : 'Train a two-class model to check its calibration'}
+                  </span>
+                </div>
+              ))}
+              
+              {analysisView === 'regularizationPath' && (regularizationPath ? (
+                <RegularizationPath
+                  path={regularizationPath.path}
+                  featureNames={regularizationPath.featureNames}
+                  currentLambda={modelConfig.lambda}
+                  width={380}
+                  height={180}
+                />
+              ) : (
+                <div className="p-4 bg-neutral-900 border border-neutral-700 rounded-lg h-48 flex items-center justify-center">
+                  <span className="text-neutral-500 text-sm">
+                    {isComputingPath ? 'Fitting models across λ...' : 'Click "Regularization Path" to sweep λ'}
+                  </span>
+                </div>
+              ))}
+              
+              {analysisView === 'biasVariance' && (biasVariance ? (
+                <BiasVarianceChart
+                  results={biasVariance.results}
+                  sweep={biasVariance.sweep}
+                  numDatasets={biasVariance.numDatasets}
+                  current={biasVariance.sweep === 'lambda' ? modelConfig.lambda : dataConfig.n}
+                  width={380}
+                  height={180}
+                />
+              ) : (
+                <div className="p-4 bg-neutral-900 border border-neutral-700 rounded-lg h-48 flex items-center justify-center">
+                  <span className="text-neutral-500 text-sm">
+                    {isRunningBiasVariance ? 'Training on fresh datasets...' : 'Click "Bias–Variance Experiment" to train on fresh draws from the generator'}
+                  </span>
+                </div>
+              ))}
             </div>
 
             {/* Stats Panel */}
@@ -353,6 +1084,13 @@ function App() {
                 model={model}
                 datasetSize={dataset.points.length}
                 uncertaintyStats={uncertaintyStats}
+                confidenceLevel={uncertaintyConfig.confidenceLevel}
+                corruptionSummary={corruptionSummary}
+                metrics={thresholdMetrics}
+                threshold={model?.numClasses === 2 ? threshold : 0.5}
+                splitConfig={modelSplit?.config ?? modelConfig.split}
+                crossValidation={crossValidation}
+                isCrossValidating={isCrossValidating}
                 isDemoMode={isDemoMode}
               />
             </div>
@@ -0,0 +1,111 @@
+import React, { useMemo } from 'react';
+import { HelpTooltip } from './HelpTooltip';
+import { POSTERIOR_METHOD_LABELS, Posterior, posteriorSummary } from '../utils/bayesian';
+import { BootstrapRefits } from '../utils/bootstrap';
+import { featureNames } from '../utils/features';
+import { ModelState } from '../utils/logisticRegression';
+
+interface BayesianPanelProps {
+  posterior: Posterior;
+  model: ModelState; // Model whose split, standardization and features the posterior uses
+  level: number; // Credible level of the intervals
+  refits?: BootstrapRefits | null; // Bootstrap refits of the same model, for comparison
+}
+
+// Coefficients listed in the table; larger expansions are summarized
+const MAX_LISTED_COEFFICIENTS = 6;
+
+export const BayesianPanel: React.FC<BayesianPanelProps> = ({
+  posterior,
+  model,
+  level,
+  refits = null
+}) => {
+  const formatNumber = (value: number) => value.toFixed(3);
+  const formatInterval = ([lower, upper]: [number, number]) => `[${lower.toFixed(2)}, ${upper.toFixed(2)}]`;
+  const percent = `${Math.round(level * 100)}%`;
+  const size = posterior.mode.length;
+  const names = useMemo(() => ['bias', ...featureNames(model.featureMap)], [model.featureMap]);
+  const summary = useMemo(() => posteriorSummary(posterior.samples, level), [posterior, level]);
+  const shown = Math.min(MAX_LISTED_COEFFICIENTS, size);
+
+  const posteriorHelp = (
+    <div className="space-y-3">
+      <div>
+        <strong className="text-blue-300">Bayesian logistic regression</strong>
+        <p>Instead of one best set of weights, the posterior is a distribution over all weights, weighing how well they fit the training points against a prior belief. The prior here is a Gaussian N(0, 1/τ) on every feature weight with τ = 2nλ, which is exactly the L2 penalty: its most probable weights (the MAP) are the L2 fit. The bias has a flat prior.</p>
+      </div>
+
+      <div>
+        <strong className="text-orange-300">What you see:</strong>
+        <ul className="list-disc list-inside mt-1 space-y-1">
+          <li><strong>MAP ± SD:</strong> The posterior mode and the Laplace standard deviation - the posterior approximated by a Gaussian whose covariance is the inverse curvature of the log posterior at the mode</li>
+          <li><strong>Mean ± SD and credible interval:</strong> From the posterior draws. With the Metropolis sampler they describe the exact posterior, which can be skewed where the Laplace Gaussian is symmetric</li>
+          <li><strong>Bootstrap CI:</strong> The percentile interval of the refitted weights, when Bootstrap Mode "Refit weights" was run on the same model</li>
+          <li><strong>Violet lines on the plot:</strong> Boundaries of posterior draws; the "Posterior predictive" heatmap averages the draws' probabilities</li>
+        </ul>
+      </div>
+
+      <div>
+        <strong className="text-green-300">Interpretation:</strong>
+        <ul className="list-disc list-inside mt-1 space-y-1">
+          <li><strong>Credible vs. confidence:</strong> A {percent} credible interval holds the weight with {percent} posterior probability, given the prior. A bootstrap interval describes how the estimate would vary across new samples</li>
+          <li><strong>They agree</strong> for plenty of data and a weak prior; a strong prior (large λ) pulls the posterior toward 0 and narrows it</li>
+          <li><strong>Metropolis acceptance</strong> around 0.2-0.4 means the sampler moved well</li>
+        </ul>
+      </div>
+    </div>
+  );
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-2">
+        <h3 className="text-sm font-medium text-neutral-200">Bayesian Posterior</h3>
+        <HelpTooltip
+          title="🎲 Bayesian Posterior"
+          content={posteriorHelp}
+          size="lg"
+        />
+        <span className="text-xs text-neutral-400">
+          {POSTERIOR_METHOD_LABELS[posterior.method]} · {posterior.samples.length} draws
+          {posterior.acceptanceRate !== null ? ` · acceptance ${posterior.acceptanceRate.toFixed(2)}` : ''}
+        </span>
+      </div>
+      <div className="text-xs text-neutral-500 mb-2">
+        Prior N(0, 1/τ) on the feature weights, τ = 2nλ = {posterior.priorPrecision.toFixed(2)}
+        {posterior.priorPrecision > 0 ? ` (prior SD ${(1 / Math.sqrt(posterior.priorPrecision)).toFixed(2)})` : ' (flat)'}
+      </div>
+      <div
+        className="grid gap-x-3 gap-y-1 text-xs text-neutral-400"
+        style={{ gridTemplateColumns: `1fr repeat(${refits ? 4 : 3}, auto)` }}
+      >
+        <span className="text-neutral-500">Coef.</span>
+        <span className="text-neutral-500 text-right font-mono">MAP ± SD</span>
+        <span className="text-neutral-500 text-right font-mono">mean ± SD</span>
+        <span className="text-neutral-500 text-right font-mono">{percent} credible</span>
+        {refits && <span className="text-neutral-500 text-right font-mono">bootstrap {percent}</span>}
+        {summary.slice(0, shown).map((coefficient, j) => {
+          const bootstrap = refits?.intervals[j]?.percentile;
+          return (
+            <React.Fragment key={j}>
+              <span>{j === 0 ? 'Bias (w₀)' : `w${j} (${names[j]})`}:</span>
+              <span className="font-mono text-right">
+                {formatNumber(posterior.mode[j])} ± {formatNumber(Math.sqrt(Math.max(posterior.covariance[j * size + j], 0)))}
+              </span>
+              <span className="font-mono text-right">
+                {formatNumber(coefficient.mean)} ± {formatNumber(coefficient.sd)}
+              </span>
+              <span className="font-mono text-right">{formatInterval([coefficient.lower, coefficient.upper])}</span>
+              {refits && <span className="font-mono text-right">{bootstrap ? formatInterval(bootstrap) : '–'}</span>}
+            </React.Fragment>
+          );
+        })}
+      </div>
+      {size > shown && (
+        <div className="text-xs text-neutral-500 mt-1">
+          … {size - shown} more of {size} coefficients
+        </div>
+      )}
+    </div>
+  );
+};
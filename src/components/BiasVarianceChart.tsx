@@ -0,0 +1,249 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { HelpTooltip } from './HelpTooltip';
+import { TabBar } from './TabBar';
+import {
+  BIAS_VARIANCE_SWEEP_LABELS,
+  BiasVariancePoint,
+  BiasVarianceSweep,
+  DECOMPOSITION_LOSS_LABELS,
+  DecompositionLoss,
+  Decomposition
+} from '../utils/biasVariance';
+
+interface BiasVarianceChartProps {
+  results: BiasVariancePoint[];
+  sweep: BiasVarianceSweep;
+  numDatasets: number; // Training sets behind every value
+  current: number; // The current λ or n
+  width: number;
+  height: number;
+}
+
+const LOSS_TABS = (Object.keys(DECOMPOSITION_LOSS_LABELS) as DecompositionLoss[]).map(loss => ({
+  id: loss,
+  label: DECOMPOSITION_LOSS_LABELS[loss]
+}));
+
+// Terms drawn as lines, with their colors
+const TERMS: { key: keyof Decomposition; label: string; color: string }[] = [
+  { key: 'error', label: 'error', color: '#ffffff' },
+  { key: 'noise', label: 'noise', color: '#9ca3af' }, // gray-400
+  { key: 'bias', label: 'bias', color: '#f97316' }, // orange-500
+  { key: 'variance', label: 'variance', color: '#3b82f6' } // blue-500
+];
+
+export const BiasVarianceChart: React.FC<BiasVarianceChartProps> = ({
+  results,
+  sweep,
+  numDatasets,
+  current,
+  width,
+  height
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [loss, setLoss] = useState<DecompositionLoss>('zeroOne');
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || results.length < 2) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    // Set canvas size for crisp rendering
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${height}px`;
+    ctx.scale(dpr, dpr);
+
+    // Clear canvas
+    ctx.fillStyle = '#171717'; // neutral-900
+    ctx.fillRect(0, 0, width, height);
+
+    // Range of every term; the net 0-1 variance can be negative
+    const terms = results.map(point => point[loss]);
+    let minValue = 0;
+    let maxValue = 0;
+    terms.forEach(decomposition => {
+      TERMS.forEach(({ key }) => {
+        minValue = Math.min(minValue, decomposition[key]);
+        maxValue = Math.max(maxValue, decomposition[key]);
+      });
+    });
+    if (maxValue === minValue) maxValue = minValue + 1;
+
+    // Drawing setup: log scale for both λ and n
+    const padding = { left: 40, right: 20, top: 10, bottom: 40 };
+    const plotWidth = width - padding.left - padding.right;
+    const plotHeight = height - padding.top - padding.bottom;
+    const logMin = Math.log10(results[0].value);
+    const logMax = Math.log10(results[results.length - 1].value);
+
+    const xOf = (value: number) => padding.left + ((Math.log10(value) - logMin) / (logMax - logMin)) * plotWidth;
+    const yOf = (value: number) => padding.top + (1 - (value - minValue) / (maxValue - minValue)) * plotHeight;
+
+    // Zero line
+    ctx.strokeStyle = '#374151'; // gray-700
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(padding.left, yOf(0));
+    ctx.lineTo(padding.left + plotWidth, yOf(0));
+    ctx.stroke();
+
+    // Error of the optimal classifier, for the 0-1 loss
+    if (loss === 'zeroOne') {
+      ctx.strokeStyle = '#9ca3af'; // gray-400
+      ctx.setLineDash([2, 4]);
+      ctx.beginPath();
+      ctx.moveTo(xOf(results[0].value), yOf(results[0].bayesError));
+      ctx.lineTo(xOf(results[results.length - 1].value), yOf(results[results.length - 1].bayesError));
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
+    // One line per term, noise dashed
+    TERMS.forEach(({ key, color }) => {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 2;
+      if (key === 'noise') ctx.setLineDash([5, 3]);
+      ctx.beginPath();
+      terms.forEach((decomposition, i) => {
+        const x = xOf(results[i].value);
+        const y = yOf(decomposition[key]);
+        if (i === 0) {
+          ctx.moveTo(x, y);
+        } else {
+          ctx.lineTo(x, y);
+        }
+      });
+      ctx.stroke();
+      ctx.setLineDash([]);
+    });
+
+    // Current setting, when it lies in the swept range
+    if (current >= results[0].value && current <= results[results.length - 1].value) {
+      ctx.strokeStyle = '#ef4444'; // red-500
+      ctx.lineWidth = 2;
+      ctx.setLineDash([5, 5]);
+      ctx.beginPath();
+      ctx.moveTo(xOf(current), padding.top);
+      ctx.lineTo(xOf(current), padding.top + plotHeight);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
+    // Draw axes
+    ctx.strokeStyle = '#6b7280'; // neutral-500
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(padding.left, padding.top + plotHeight);
+    ctx.lineTo(padding.left + plotWidth, padding.top + plotHeight);
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.moveTo(padding.left, padding.top);
+    ctx.lineTo(padding.left, padding.top + plotHeight);
+    ctx.stroke();
+
+    // Draw labels
+    ctx.fillStyle = '#d1d5db'; // neutral-300
+    ctx.font = '10px monospace';
+    ctx.textAlign = 'center';
+
+    // X-axis labels: powers of ten for λ, every sample size for n
+    if (sweep === 'lambda') {
+      for (let e = Math.ceil(logMin); e <= logMax; e++) {
+        ctx.fillText(`1e${e}`, xOf(Math.pow(10, e)), height - 20);
+      }
+    } else {
+      results.forEach(point => {
+        ctx.fillText(point.value.toString(), xOf(point.value), height - 20);
+      });
+    }
+
+    // Y-axis labels
+    ctx.textAlign = 'right';
+    [minValue, maxValue].forEach(value => {
+      ctx.fillText(value.toFixed(2), padding.left - 5, yOf(value) + 3);
+    });
+    if (minValue < 0) ctx.fillText('0', padding.left - 5, yOf(0) + 3);
+
+    // Axis title
+    ctx.textAlign = 'center';
+    ctx.fillText(`${sweep === 'lambda' ? 'λ' : 'n'} (log scale)`, width / 2, height - 5);
+
+    // Legend
+    ctx.textAlign = 'right';
+    TERMS.forEach(({ label, color }, line) => {
+      ctx.fillStyle = color;
+      ctx.fillText(label, padding.left + plotWidth - 2, padding.top + 10 + line * 11);
+    });
+    if (loss === 'zeroOne') {
+      ctx.fillStyle = '#9ca3af';
+      ctx.fillText('Bayes error (dotted)', padding.left + plotWidth - 2, padding.top + 10 + TERMS.length * 11);
+    }
+
+  }, [results, sweep, loss, current, width, height]);
+
+  // Sweep value with the lowest expected error
+  const best = results.reduce<BiasVariancePoint | null>((lowest, point) =>
+    !lowest || point[loss].error < lowest[loss].error ? point : lowest
+  , null);
+
+  const biasVarianceHelp = (
+    <div className="space-y-3">
+      <div>
+        <strong className="text-blue-300">Bias and variance from fresh data</strong>
+        <p>Repeat runs resample the one dataset you have. Here the generator draws {numDatasets} brand-new training sets for every setting, and each trained model is scored on one large test set from the clean generator, where the true class probabilities are known. The expected error over training sets and labels then splits exactly into three parts.</p>
+      </div>
+
+      <div>
+        <strong className="text-orange-300">What you see:</strong>
+        <ul className="list-disc list-inside mt-1 space-y-1">
+          <li><strong>Noise (gray dashed):</strong> Error no model can avoid - the classes overlap. For the squared loss it is p*(1 - p*); for 0-1 error it is the Bayes error (dotted), scaled down where the models are often wrong</li>
+          <li><strong>Bias (orange):</strong> How far the average model is from the truth - the squared gap of the mean probability, or how often the models' majority vote misses the optimal class</li>
+          <li><strong>Variance (blue):</strong> How much the models differ from each other. For 0-1 error it is net: where the majority vote is wrong, disagreeing models are right more often, so variance there counts negative</li>
+          <li><strong>Error (white):</strong> The sum; the red dashed line is the current setting</li>
+        </ul>
+      </div>
+
+      <div>
+        <strong className="text-green-300">Interpretation:</strong>
+        <ul className="list-disc list-inside mt-1 space-y-1">
+          <li><strong>Larger λ:</strong> Bias grows and variance shrinks - the sweet spot balances the two</li>
+          <li><strong>Larger n:</strong> Variance falls toward zero; bias stays, since it belongs to the model family (e.g. a straight line on curved data)</li>
+          <li><strong>Squared vs. 0-1:</strong> Heavy shrinkage pulls probabilities toward 0.5; the squared bias rises smoothly, while the 0-1 error only jumps once predictions flip class</li>
+        </ul>
+      </div>
+    </div>
+  );
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-2">
+        <h3 className="text-sm font-medium text-neutral-200">Bias–Variance Decomposition</h3>
+        <HelpTooltip
+          title="⚖️ Bias–Variance Decomposition"
+          content={biasVarianceHelp}
+          size="lg"
+        />
+        <span className="text-xs text-neutral-400">
+          {BIAS_VARIANCE_SWEEP_LABELS[sweep]} · {numDatasets} datasets per value
+          {best && (
+            <>
+              {' '}· lowest error at {sweep === 'lambda' ? `λ≈${best.value.toExponential(1)}` : `n = ${best.value}`}:{' '}
+              <span className="font-mono">{best[loss].error.toFixed(3)}</span>
+            </>
+          )}
+        </span>
+      </div>
+      <TabBar tabs={LOSS_TABS} active={loss} onChange={setLoss} />
+      <canvas
+        ref={canvasRef}
+        className="border border-neutral-700 rounded bg-neutral-900"
+        style={{ width, height }}
+      />
+    </div>
+  );
+};
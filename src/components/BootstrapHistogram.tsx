@@ -1,11 +1,13 @@
 import React, { useRef, useEffect } from 'react';
 import { HelpTooltip, AITooltip, BootstrapAIAnalysis } from './HelpTooltip';
+import { INTERVAL_METHOD_LABELS, IntervalMethod, MethodIntervals } from '../utils/bootstrap';
 
 interface BootstrapHistogramProps {
   accuracies: number[];
   width: number;
   height: number;
   confidenceInterval?: [number, number];
+  intervals?: { intervals: MethodIntervals; level: number } | null; // Interval of the accuracy by every method
   isDemoMode?: boolean;
 }
 
@@ -14,8 +16,10 @@ export const BootstrapHistogram: React.FC<BootstrapHistogramProps> = ({
   width,
   height,
   confidenceInterval,
+  intervals,
   isDemoMode = false
 }) => {
+  const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
   useEffect(() => {
@@ -168,7 +172,19 @@ export const BootstrapHistogram: React.FC<BootstrapHistogramProps> = ({
         <ul className="list-disc list-inside mt-1 space-y-1">
           <li><strong>Blue bars:</strong> Frequency of different accuracy values</li>
           <li><strong>Green line:</strong> Mean accuracy across all samples</li>
-          <li><strong>Red dashed lines:</strong> 95% confidence interval bounds</li>
+          <li><strong>Red dashed lines:</strong> Percentile confidence interval bounds at the Confidence Level</li>
+          <li><strong>Table:</strong> The same interval by five methods side by side</li>
+        </ul>
+      </div>
+
+      <div>
+        <strong className="text-blue-300">Interval methods:</strong>
+        <ul className="list-disc list-inside mt-1 space-y-1">
+          <li><strong>Percentile:</strong> The middle share of the bootstrap accuracies</li>
+          <li><strong>Basic:</strong> The percentile interval reflected around the observed accuracy - it corrects for a distribution that is shifted from the estimate</li>
+          <li><strong>Normal:</strong> Bias-corrected estimate ± z·(bootstrap standard deviation)</li>
+          <li><strong>Studentized:</strong> Uses the distribution of (accuracy* - accuracy) / SE*, with the binomial SE √(a(1-a)/n) of each sample. Not available for refits, whose accuracy has no per-sample SE</li>
+          <li><strong>BCa:</strong> Percentile levels shifted for bias (the share of samples below the estimate) and skewness (the acceleration, from leaving out one point, or one group of training rows when refitting)</li>
         </ul>
       </div>
       
@@ -209,6 +225,25 @@ export const BootstrapHistogram: React.FC<BootstrapHistogramProps> = ({
         className="border border-neutral-700 rounded bg-neutral-900"
         style={{ width, height }}
       />
+      {intervals && (
+        <div className="grid gap-x-3 mt-2 text-xs text-neutral-400" style={{ gridTemplateColumns: '1fr repeat(3, auto)' }}>
+          <span className="text-neutral-500">{Math.round(intervals.level * 100)}% CI method</span>
+          <span className="text-neutral-500 text-right font-mono">lower</span>
+          <span className="text-neutral-500 text-right font-mono">upper</span>
+          <span className="text-neutral-500 text-right font-mono">width</span>
+          {(Object.keys(INTERVAL_METHOD_LABELS) as IntervalMethod[]).map(method => {
+            const interval = intervals.intervals[method];
+            return (
+              <React.Fragment key={method}>
+                <span>{INTERVAL_METHOD_LABELS[method]}:</span>
+                <span className="font-mono text-right">{interval ? formatPercent(interval[0]) : '–'}</span>
+                <span className="font-mono text-right">{interval ? formatPercent(interval[1]) : '–'}</span>
+                <span className="font-mono text-right">{interval ? formatPercent(interval[1] - interval[0]) : '–'}</span>
+              </React.Fragment>
+            );
+          })}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,192 @@
+import React, { useRef, useEffect, useMemo } from 'react';
+import { HelpTooltip } from './HelpTooltip';
+import { BootstrapRefits, INTERVAL_METHOD_LABELS, IntervalMethod } from '../utils/bootstrap';
+import { featureNames } from '../utils/features';
+import { ModelState } from '../utils/logisticRegression';
+
+interface BootstrapWeightsProps {
+  refits: BootstrapRefits;
+  model: ModelState; // Model that was refit: its weights are marked on each histogram
+  level: number; // Confidence level of the intervals
+  width: number;
+  height: number;
+}
+
+// Histograms drawn side by side: the bias and the first two feature weights
+const SHOWN_COEFFICIENTS = 3;
+
+export const BootstrapWeights: React.FC<BootstrapWeightsProps> = ({
+  refits,
+  model,
+  level,
+  width,
+  height
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const names = useMemo(() => (
+    ['w0 (bias)', ...featureNames(model.featureMap).map((name, j) => `w${j + 1} (${name})`)]
+  ), [model.featureMap]);
+  const shown = Math.min(SHOWN_COEFFICIENTS, names.length);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || refits.weights.length === 0) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    // Set canvas size for crisp rendering
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${height}px`;
+    ctx.scale(dpr, dpr);
+
+    // Clear canvas
+    ctx.fillStyle = '#171717'; // neutral-900
+    ctx.fillRect(0, 0, width, height);
+
+    const padding = { left: 8, right: 8, top: 16, bottom: 30 };
+    const panelWidth = width / shown;
+    const plotWidth = panelWidth - padding.left - padding.right;
+    const plotHeight = height - padding.top - padding.bottom;
+
+    for (let j = 0; j < shown; j++) {
+      const values = refits.weights.map(weights => weights[j]);
+      const fitted = model.weights[j];
+      const [lower, upper] = refits.intervals[j].percentile ?? [fitted, fitted];
+      const min = Math.min(fitted, ...values);
+      const max = Math.max(fitted, ...values);
+      const range = max - min || 1;
+      const left = j * panelWidth + padding.left;
+      const xOf = (value: number) => left + ((value - min) / range) * plotWidth;
+
+      // Histogram
+      const numBins = Math.min(20, Math.max(5, Math.floor(Math.sqrt(values.length))));
+      const bins = new Array(numBins).fill(0);
+      values.forEach(value => {
+        bins[Math.min(numBins - 1, Math.floor(((value - min) / range) * numBins))]++;
+      });
+      const maxCount = Math.max(...bins);
+      ctx.fillStyle = '#3b82f6'; // blue-500
+      bins.forEach((count, b) => {
+        const barHeight = (count / maxCount) * plotHeight;
+        ctx.fillRect(left + (b * plotWidth) / numBins, padding.top + plotHeight - barHeight, plotWidth / numBins - 1, barHeight);
+      });
+
+      // Percentile interval
+      ctx.strokeStyle = '#ef4444'; // red-500
+      ctx.lineWidth = 2;
+      ctx.setLineDash([5, 5]);
+      [lower, upper].forEach(bound => {
+        ctx.beginPath();
+        ctx.moveTo(xOf(bound), padding.top);
+        ctx.lineTo(xOf(bound), padding.top + plotHeight);
+        ctx.stroke();
+      });
+      ctx.setLineDash([]);
+
+      // The model's own weight
+      ctx.strokeStyle = '#ffffff';
+      ctx.beginPath();
+      ctx.moveTo(xOf(fitted), padding.top);
+      ctx.lineTo(xOf(fitted), padding.top + plotHeight);
+      ctx.stroke();
+
+      // Axis and labels
+      ctx.strokeStyle = '#6b7280'; // neutral-500
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(left, padding.top + plotHeight);
+      ctx.lineTo(left + plotWidth, padding.top + plotHeight);
+      ctx.stroke();
+
+      ctx.fillStyle = '#d1d5db'; // neutral-300
+      ctx.font = '10px monospace';
+      ctx.textAlign = 'center';
+      ctx.fillText(names[j], left + plotWidth / 2, 11);
+      ctx.fillText(`[${lower.toFixed(2)}, ${upper.toFixed(2)}]`, left + plotWidth / 2, height - 16);
+      ctx.textAlign = 'left';
+      ctx.fillText(min.toFixed(2), left, height - 4);
+      ctx.textAlign = 'right';
+      ctx.fillText(max.toFixed(2), left + plotWidth, height - 4);
+    }
+
+  }, [refits, model, names, shown, width, height]);
+
+  const weightsHelp = (
+    <div className="space-y-3">
+      <div>
+        <strong className="text-blue-300">Refitting on resampled data</strong>
+        <p>Each refit trains the model again from scratch on the training points drawn with replacement, using the same standardization and features. The spread of the refitted weights shows how much the weights depend on the particular sample.</p>
+      </div>
+
+      <div>
+        <strong className="text-orange-300">What you see:</strong>
+        <ul className="list-disc list-inside mt-1 space-y-1">
+          <li><strong>Blue bars:</strong> Refitted values of each coefficient (weights of the standardized features)</li>
+          <li><strong>Red dashed lines:</strong> Percentile interval at the Confidence Level - the middle share of the refits</li>
+          <li><strong>Table:</strong> Each coefficient's interval by every method; studentized intervals use each refit's Wald SE, and BCa uses a grouped jackknife (refits with one group of training rows left out)</li>
+          <li><strong>White line:</strong> The trained model's own weight</li>
+          <li><strong>Yellow band on the plot:</strong> Where the refits disagree about the class at the current threshold - the pointwise interval of p₁ there contains the threshold</li>
+          <li><strong>Accuracy histogram:</strong> In refit mode it shows each refit's validation accuracy</li>
+          <li><strong>Early stopping:</strong> Refits stop on the validation loss, then are scored on the same validation points, so their accuracies lean optimistic</li>
+        </ul>
+      </div>
+
+      <div>
+        <strong className="text-green-300">Interpretation:</strong>
+        <ul className="list-disc list-inside mt-1 space-y-1">
+          <li><strong>Compare with the Wald intervals</strong> in the stats panel: they agree when the loss is close to quadratic, and differ for small or nearly separable data</li>
+          <li><strong>A wide band</strong> means the boundary's position is poorly determined there - usually where data are sparse</li>
+        </ul>
+      </div>
+    </div>
+  );
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-2">
+        <h3 className="text-sm font-medium text-neutral-200">Bootstrap Weight Distributions</h3>
+        <HelpTooltip
+          title="🔄 Bootstrap Refits"
+          content={weightsHelp}
+          size="lg"
+        />
+        <span className="text-xs text-neutral-400">
+          {refits.weights.length} refits{names.length > shown ? ` · first ${shown} of ${names.length} coefficients` : ''}
+        </span>
+      </div>
+      {model.config.earlyStopping.enabled && (
+        <p className="text-xs text-neutral-400 mb-2">
+          Early stopping is on: each refit picks its stopping epoch on the validation points it is then scored on, so refit accuracies are optimistic.
+        </p>
+      )}
+      <canvas
+        ref={canvasRef}
+        className="border border-neutral-700 rounded bg-neutral-900"
+        style={{ width, height }}
+      />
+      <div className="grid gap-x-3 mt-2 text-xs text-neutral-400" style={{ gridTemplateColumns: `1fr repeat(${shown}, auto)` }}>
+        <span className="text-neutral-500">{Math.round(level * 100)}% CI method</span>
+        {names.slice(0, shown).map(name => (
+          <span key={name} className="text-neutral-500 text-right font-mono">{name}</span>
+        ))}
+        {(Object.keys(INTERVAL_METHOD_LABELS) as IntervalMethod[]).map(method => (
+          <React.Fragment key={method}>
+            <span>{INTERVAL_METHOD_LABELS[method]}:</span>
+            {refits.intervals.slice(0, shown).map((intervals, j) => {
+              const interval = intervals[method];
+              return (
+                <span key={j} className="font-mono text-right">
+                  {interval ? `[${interval[0].toFixed(2)}, ${interval[1].toFixed(2)}]` : '–'}
+                </span>
+              );
+            })}
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,185 @@
+import React, { useRef, useEffect } from 'react';
+import { HelpTooltip } from './HelpTooltip';
+import { TabBar } from './TabBar';
+import { CALIBRATION_LABELS, CalibrationMethod, ReliabilityDiagram } from '../utils/calibration';
+import { SplitRole } from '../utils/splits';
+
+interface CalibrationPanelProps {
+  before: ReliabilityDiagram; // Model probabilities
+  after: ReliabilityDiagram | null; // Recalibrated probabilities (null without recalibration)
+  evaluatedOn: SplitRole; // Split the diagrams are computed on
+  method: CalibrationMethod;
+  onMethodChange: (method: CalibrationMethod) => void;
+  width: number;
+  height: number;
+}
+
+const METHOD_TABS = (Object.keys(CALIBRATION_LABELS) as CalibrationMethod[]).map(method => ({
+  id: method,
+  label: CALIBRATION_LABELS[method]
+}));
+
+const BEFORE_COLOR = '#9ca3af'; // gray-400
+const AFTER_COLOR = '#3b82f6'; // blue-500
+
+export const CalibrationPanel: React.FC<CalibrationPanelProps> = ({
+  before,
+  after,
+  evaluatedOn,
+  method,
+  onMethodChange,
+  width,
+  height
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    // Set canvas size for crisp rendering
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${height}px`;
+    ctx.scale(dpr, dpr);
+
+    // Clear canvas
+    ctx.fillStyle = '#171717'; // neutral-900
+    ctx.fillRect(0, 0, width, height);
+
+    // Drawing setup: predicted probability across, observed share of class 1 up
+    const padding = { left: 40, right: 20, top: 10, bottom: 30 };
+    const plotWidth = width - padding.left - padding.right;
+    const plotHeight = height - padding.top - padding.bottom;
+    const xOf = (p: number) => padding.left + p * plotWidth;
+    const yOf = (p: number) => padding.top + (1 - p) * plotHeight;
+
+    // Point counts per bin as faint bars along the bottom
+    const maxCount = Math.max(1, ...before.bins.map(bin => bin.count));
+    ctx.fillStyle = 'rgba(107, 114, 128, 0.3)'; // gray-500
+    before.bins.forEach(bin => {
+      const barHeight = (bin.count / maxCount) * plotHeight * 0.25;
+      ctx.fillRect(xOf(bin.lower) + 1, padding.top + plotHeight - barHeight, xOf(bin.upper) - xOf(bin.lower) - 2, barHeight);
+    });
+
+    // Perfect calibration
+    ctx.strokeStyle = '#374151'; // gray-700
+    ctx.lineWidth = 1;
+    ctx.setLineDash([4, 4]);
+    ctx.beginPath();
+    ctx.moveTo(xOf(0), yOf(0));
+    ctx.lineTo(xOf(1), yOf(1));
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    // Reliability curves through the non-empty bins
+    const drawCurve = (diagram: ReliabilityDiagram, color: string) => {
+      const bins = diagram.bins.filter(bin => bin.count > 0);
+      ctx.strokeStyle = color;
+      ctx.fillStyle = color;
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      bins.forEach((bin, i) => {
+        if (i === 0) ctx.moveTo(xOf(bin.meanPredicted), yOf(bin.observed));
+        else ctx.lineTo(xOf(bin.meanPredicted), yOf(bin.observed));
+      });
+      ctx.stroke();
+      bins.forEach(bin => {
+        ctx.beginPath();
+        ctx.arc(xOf(bin.meanPredicted), yOf(bin.observed), 3, 0, 2 * Math.PI);
+        ctx.fill();
+      });
+    };
+    drawCurve(before, BEFORE_COLOR);
+    if (after) drawCurve(after, AFTER_COLOR);
+
+    // Draw axes
+    ctx.strokeStyle = '#6b7280'; // neutral-500
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(padding.left, padding.top + plotHeight);
+    ctx.lineTo(padding.left + plotWidth, padding.top + plotHeight);
+    ctx.moveTo(padding.left, padding.top);
+    ctx.lineTo(padding.left, padding.top + plotHeight);
+    ctx.stroke();
+
+    // Draw labels
+    ctx.fillStyle = '#d1d5db'; // neutral-300
+    ctx.font = '10px monospace';
+    ctx.textAlign = 'center';
+    [0, 0.5, 1].forEach(p => {
+      ctx.fillText(p.toFixed(1), xOf(p), height - 17);
+    });
+    ctx.fillText('predicted probability', width / 2, height - 5);
+    ctx.textAlign = 'right';
+    [0, 0.5, 1].forEach(p => {
+      ctx.fillText(p.toFixed(1), padding.left - 5, yOf(p) + 3);
+    });
+
+    // Legend
+    ctx.textAlign = 'left';
+    ctx.fillStyle = BEFORE_COLOR;
+    ctx.fillText('model', padding.left + 6, padding.top + 10);
+    if (after) {
+      ctx.fillStyle = AFTER_COLOR;
+      ctx.fillText('recalibrated', padding.left + 6, padding.top + 22);
+    }
+
+  }, [before, after, width, height]);
+
+  const calibrationHelp = (
+    <div className="space-y-3">
+      <div>
+        <strong className="text-blue-300">Can the probabilities be trusted?</strong>
+        <p>A model is calibrated when, of all the points it gives 70%, about 70% really are class 1. Accuracy doesn't check this - a model can classify well and still be badly over- or under-confident.</p>
+      </div>
+
+      <div>
+        <strong className="text-orange-300">What you see:</strong>
+        <ul className="list-disc list-inside mt-1 space-y-1">
+          <li><strong>Reliability diagram:</strong> Points are grouped into ten probability bins; each dot is a bin's average predicted probability against the share of class 1 actually in it</li>
+          <li><strong>Dashed diagonal:</strong> Perfect calibration. Below it the model is over-confident in class 1, above it under-confident</li>
+          <li><strong>Gray bars:</strong> How many points fall in each bin</li>
+          <li><strong>ECE:</strong> Expected calibration error - the average gap between the dots and the diagonal, weighted by bin size</li>
+        </ul>
+      </div>
+
+      <div>
+        <strong className="text-green-300">Recalibration:</strong>
+        <ul className="list-disc list-inside mt-1 space-y-1">
+          <li><strong>Platt:</strong> Fits a logistic curve to the model's log-odds - two parameters, smooth, good for small samples</li>
+          <li><strong>Isotonic:</strong> Fits any increasing step function - more flexible, but needs more data and can overfit</li>
+          <li>Both are fitted on the validation split and judged on the test split when there is one (otherwise on validation, which flatters them). The heatmap on the plot shows the recalibrated probabilities; the boundary stays the model's own</li>
+        </ul>
+      </div>
+    </div>
+  );
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-2">
+        <h3 className="text-sm font-medium text-neutral-200">Calibration</h3>
+        <HelpTooltip
+          title="🎯 Probability Calibration"
+          content={calibrationHelp}
+          size="lg"
+        />
+        <span className="text-xs text-neutral-400">
+          ECE ({evaluatedOn}) <span className="font-mono">{before.ece.toFixed(3)}</span>
+          {after && <> → <span className="font-mono text-blue-400">{after.ece.toFixed(3)}</span></>}
+        </span>
+      </div>
+      <TabBar tabs={METHOD_TABS} active={method} onChange={onMethodChange} />
+      <canvas
+        ref={canvasRef}
+        className="border border-neutral-700 rounded bg-neutral-900"
+        style={{ width, height }}
+      />
+    </div>
+  );
+};
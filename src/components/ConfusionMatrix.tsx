@@ -0,0 +1,66 @@
+import React from 'react';
+import { ClassificationMetrics } from '../utils/metrics';
+import { classColor } from './PlotCanvas';
+
+interface ConfusionMatrixProps {
+  metrics: ClassificationMetrics;
+}
+
+const formatPercent = (value: number) => (Number.isNaN(value) ? '–' : `${(value * 100).toFixed(1)}%`);
+
+// Confusion grid (rows = true class, columns = predicted class), shaded by the
+// share of each true class, followed by per-class precision, recall and F1
+export const ConfusionMatrix: React.FC<ConfusionMatrixProps> = ({ metrics }) => {
+  const { confusion, precision, recall, f1 } = metrics;
+  const k = confusion.length;
+
+  return (
+    <div className="space-y-2">
+      <div className="grid gap-px text-xs font-mono" style={{ gridTemplateColumns: `auto repeat(${k}, minmax(0, 1fr))` }}>
+        <div className="text-neutral-500 pr-1">true \ pred</div>
+        {confusion.map((_, c) => (
+          <div key={c} className="text-center" style={{ color: classColor(c) }}>{c}</div>
+        ))}
+        {confusion.map((row, c) => {
+          const total = row.reduce((sum, count) => sum + count, 0);
+          return (
+            <React.Fragment key={c}>
+              <div className="pr-1" style={{ color: classColor(c) }}>{c}</div>
+              {row.map((count, p) => {
+                const share = total > 0 ? count / total : 0;
+                return (
+                  <div
+                    key={p}
+                    className="text-center py-1 text-neutral-100"
+                    style={{ backgroundColor: p === c ? `rgba(34, 197, 94, ${share})` : `rgba(239, 68, 68, ${share})` }}
+                    title={`${count} of ${total} class ${c} points predicted as class ${p}`}
+                  >
+                    {count}
+                  </div>
+                );
+              })}
+            </React.Fragment>
+          );
+        })}
+      </div>
+
+      <div className="space-y-1 text-neutral-400">
+        <div className="flex justify-between text-xs text-neutral-500">
+          <span>Class</span>
+          <span className="font-mono">precision / recall / F1</span>
+        </div>
+        {precision.map((value, c) => (
+          <div key={c} className="flex justify-between">
+            <span className="flex items-center gap-2">
+              <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: classColor(c) }} />
+              Class {c}
+            </span>
+            <span className="font-mono">
+              {formatPercent(value)} / {formatPercent(recall[c])} / {formatPercent(f1[c])}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
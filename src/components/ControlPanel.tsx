@@ -1,29 +1,69 @@
 import React from 'react';
-import { GeneratorConfig } from '../utils/dataGenerator';
+import { Dataset, GeneratorConfig, generatedClasses } from '../utils/dataGenerator';
+import { Distribution, GENERATORS, MAX_CLASSES, resolveGeneratorParams } from '../utils/generators';
 import { ModelConfig } from '../utils/logisticRegression';
+import { FeatureMapConfig, FeatureMapType } from '../utils/features';
+import { OPTIMIZER_LABELS, OptimizerConfig, OptimizerType } from '../utils/optimizers';
+import { LOG_LAMBDA_RANGE, PENALTY_LABELS, PenaltyType } from '../utils/regularization';
+import { CLASS_WEIGHTING_LABELS, ClassWeighting } from '../utils/metrics';
+import { SCHEDULE_LABELS, ScheduleConfig, ScheduleType } from '../utils/schedules';
+import { SplitConfig, formatSplitRatios } from '../utils/splits';
+import { CorruptionConfig, LABEL_NOISE_LABELS, LabelNoiseMode } from '../utils/corruption';
+import { EDIT_TOOL_LABELS, EditConfig, EditTool } from '../utils/pointEditing';
 import { PRESETS } from '../utils/presets';
-import { HelpTooltip, DataGenerationHelp, ModelTrainingHelp, UncertaintyHelp, PresetsHelp } from './HelpTooltip';
+import { BOOTSTRAP_MODE_LABELS, BootstrapMode } from '../utils/bootstrap';
+import { UncertaintyConfig } from '../utils/uncertainty';
+import { POSTERIOR_METHOD_LABELS, PosteriorMethod } from '../utils/bayesian';
+import { BIAS_VARIANCE_SWEEP_LABELS, BiasVarianceSweep } from '../utils/biasVariance';
+import { classColor } from './PlotCanvas';
+import { HelpTooltip, DataGenerationHelp, DatasetFileHelp, EditPointsHelp, LabelNoiseHelp, ModelTrainingHelp, DataSplitsHelp, UncertaintyHelp, PresetsHelp } from './HelpTooltip';
+import { DatasetFile } from './DatasetFile';
 
 interface ControlPanelProps {
   dataConfig: GeneratorConfig;
   modelConfig: ModelConfig;
-  uncertaintyConfig: {
-    repeatRuns: number;
-    bootstrapSamples: number;
-  };
+  uncertaintyConfig: UncertaintyConfig;
   onDataConfigChange: (config: Partial<GeneratorConfig>) => void;
   onModelConfigChange: (config: Partial<ModelConfig>) => void;
-  onUncertaintyConfigChange: (config: Partial<{ repeatRuns: number; bootstrapSamples: number }>) => void;
+  onUncertaintyConfigChange: (config: Partial<UncertaintyConfig>) => void;
   onResample: () => void;
+  customDatasetName: string | null; // Imported or edited data in use instead of the generator, if any
+  onImportDataset: (dataset: Dataset, name: string, classNames: string[]) => void;
+  onClearCustomDataset: () => void;
+  onExportDataset: () => void;
+  editConfig: EditConfig;
+  onEditConfigChange: (config: Partial<EditConfig>) => void;
+  datasetClasses: number; // Classes in the current data
+  undoCount: number; // Edits that can be undone
+  onUndoEdit: () => void;
+  onRerollModelSeed: () => void;
   onTrain: () => void;
   onPause: () => void;
+  onResume: () => void;
+  onStep: () => void;
   onReset: () => void;
   onRunUncertainty: () => void;
+  onCompareOptimizers: () => void;
+  onRegularizationPath: () => void;
+  onCrossValidate: () => void;
+  onSamplePosterior: () => void;
+  onBiasVariance: () => void;
+  showSplit: boolean; // Mark validation and test points on the plot
+  onShowSplitChange: (show: boolean) => void;
   onApplyPreset: (dataConfig: Partial<GeneratorConfig>, modelConfig: Partial<ModelConfig>) => void;
   onTrainingDemo: () => void;
   onUncertaintyDemo: () => void;
   isTraining: boolean;
+  isComparing: boolean;
+  isComputingPath: boolean;
+  isCrossValidating: boolean;
+  isSamplingPosterior: boolean;
+  canSamplePosterior: boolean; // A trained two-class model is available
+  isRunningBiasVariance: boolean;
+  canRunBiasVariance: boolean; // The data come from the generator (not imported or edited)
+  pausedEpoch: number | null; // Epoch the current training job is paused at
   canTrain: boolean;
+  settingsChangedSinceTraining: boolean; // The model settings no longer match the trained model's
 }
 
 interface SliderProps {
@@ -107,6 +147,73 @@ const Select: React.FC<SelectProps> = ({ label, value, options, onChange }) => (
   </div>
 );
 
+interface CheckboxProps {
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  tooltip?: string;
+}
+
+const Checkbox: React.FC<CheckboxProps> = ({ label, checked, onChange, tooltip }) => (
+  <label className="flex items-center gap-2 text-sm font-medium text-neutral-200 cursor-pointer">
+    <input
+      type="checkbox"
+      checked={checked}
+      onChange={(e) => onChange(e.target.checked)}
+      className="accent-blue-500"
+    />
+    {label}
+    {tooltip && (
+      <span className="text-neutral-400 cursor-help" title={tooltip}>
+        ⓘ
+      </span>
+    )}
+  </label>
+);
+
+interface SeedInputProps {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  onReroll?: () => void;
+  tooltip?: string;
+}
+
+const SeedInput: React.FC<SeedInputProps> = ({ label, value, onChange, onReroll, tooltip }) => (
+  <div className="space-y-2">
+    <label className="text-sm font-medium text-neutral-200 flex items-center">
+      {label}
+      {tooltip && (
+        <span className="ml-1 text-neutral-400 cursor-help" title={tooltip}>
+          ⓘ
+        </span>
+      )}
+    </label>
+    <div className="flex space-x-2">
+      <input
+        type="number"
+        min={0}
+        step={1}
+        value={value}
+        onChange={(e) => {
+          const seed = parseInt(e.target.value);
+          if (!isNaN(seed) && seed >= 0) onChange(seed);
+        }}
+        className="w-full p-2 bg-neutral-800 border border-neutral-600 rounded text-neutral-200 text-sm font-mono focus:outline-none focus:border-blue-500"
+      />
+      {onReroll && (
+        <button
+          onClick={onReroll}
+          className="px-3 bg-neutral-700 hover:bg-neutral-600 text-neutral-200 rounded text-sm transition-colors"
+          title="Pick a new random seed"
+        >
+          🎲
+        </button>
+      )}
+    </div>
+  </div>
+);
+
 interface ButtonProps {
   children: React.ReactNode;
   onClick: () => void;
@@ -207,16 +314,68 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
   onModelConfigChange,
   onUncertaintyConfigChange,
   onResample,
+  customDatasetName,
+  onImportDataset,
+  onClearCustomDataset,
+  onExportDataset,
+  editConfig,
+  onEditConfigChange,
+  datasetClasses,
+  undoCount,
+  onUndoEdit,
+  onRerollModelSeed,
   onTrain,
   onPause,
+  onResume,
+  onStep,
   onReset,
   onRunUncertainty,
+  onCompareOptimizers,
+  onRegularizationPath,
+  onCrossValidate,
+  onSamplePosterior,
+  onBiasVariance,
+  showSplit,
+  onShowSplitChange,
   onApplyPreset,
   onTrainingDemo,
   onUncertaintyDemo,
   isTraining,
-  canTrain
+  isComparing,
+  isComputingPath,
+  isCrossValidating,
+  isSamplingPosterior,
+  canSamplePosterior,
+  isRunningBiasVariance,
+  canRunBiasVariance,
+  pausedEpoch,
+  canTrain,
+  settingsChangedSinceTraining
 }) => {
+  const isPaused = pausedEpoch !== null;
+  const generator = GENERATORS[dataConfig.distribution];
+  const generatorParams = resolveGeneratorParams(dataConfig.distribution, dataConfig.params);
+  const { corruption } = dataConfig;
+  const onCorruptionChange = (update: Partial<CorruptionConfig>) => {
+    onDataConfigChange({ corruption: { ...corruption, ...update } });
+  };
+  const { features } = modelConfig;
+  const onFeaturesChange = (update: Partial<FeatureMapConfig>) => {
+    onModelConfigChange({ features: { ...features, ...update } });
+  };
+  const { optimizer } = modelConfig;
+  const onOptimizerChange = (update: Partial<OptimizerConfig>) => {
+    onModelConfigChange({ optimizer: { ...optimizer, ...update } });
+  };
+  const { schedule, earlyStopping } = modelConfig;
+  const onScheduleChange = (update: Partial<ScheduleConfig>) => {
+    onModelConfigChange({ schedule: { ...schedule, ...update } });
+  };
+  const { split } = modelConfig;
+  const onSplitChange = (update: Partial<SplitConfig>) => {
+    onModelConfigChange({ split: { ...split, ...update } });
+  };
+
   return (
     <div className="w-80 h-full bg-neutral-900 border-r border-neutral-700 p-4 overflow-y-auto min-h-0 scrollbar-dark">
       <h1 className="text-lg font-bold text-white mb-6">StatML Lab</h1>
@@ -247,13 +406,25 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
           <Select
             label="Distribution"
             value={dataConfig.distribution}
-            options={[
-              { value: 'blobs', label: 'Blobs (Gaussians)' },
-              { value: 'moons', label: 'Moons (Arcs)' }
-            ]}
-            onChange={(value) => onDataConfigChange({ distribution: value as 'blobs' | 'moons' })}
+            options={(Object.keys(GENERATORS) as Distribution[]).map(distribution => ({
+              value: distribution,
+              label: GENERATORS[distribution].label
+            }))}
+            onChange={(value) => onDataConfigChange({ distribution: value as Distribution })}
           />
           
+          {generator.maxClasses > 2 && (
+            <Slider
+              label="Classes"
+              value={generatedClasses(dataConfig)}
+              min={2}
+              max={generator.maxClasses}
+              step={1}
+              onChange={(value) => onDataConfigChange({ numClasses: Math.round(value) })}
+              tooltip="Number of classes - more than two trains a softmax (multinomial) model"
+            />
+          )}
+          
           <Slider
             label="Sample Size"
             value={dataConfig.n}
@@ -263,26 +434,37 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             onChange={(value) => onDataConfigChange({ n: Math.round(value) })}
           />
           
-          <Slider
-            label="Class Balance"
-            value={dataConfig.balance}
-            min={0.1}
-            max={0.9}
-            step={0.05}
-            onChange={(value) => onDataConfigChange({ balance: value })}
-            tooltip="Proportion of class 1 samples"
-          />
+          {generatedClasses(dataConfig) === 2 && (
+            <Slider
+              label="Class Balance"
+              value={dataConfig.balance}
+              min={0.1}
+              max={0.9}
+              step={0.05}
+              onChange={(value) => onDataConfigChange({ balance: value })}
+              tooltip="Proportion of class 1 samples"
+            />
+          )}
           
-          <Slider
-            label={dataConfig.distribution === 'blobs' ? 'Sigma (σ)' : 'Noise'}
-            value={dataConfig.noise}
-            min={0.1}
-            max={1.5}
-            step={0.05}
-            onChange={(value) => onDataConfigChange({ noise: value })}
-            tooltip={dataConfig.distribution === 'blobs' ? 'Standard deviation of Gaussians' : 'Noise level for moon shapes'}
-          />
+          {generator.params.map(spec => (
+            <Slider
+              key={spec.key}
+              label={spec.label}
+              value={generatorParams[spec.key]}
+              min={spec.min}
+              max={spec.max}
+              step={spec.step}
+              onChange={(value) => onDataConfigChange({ params: { ...dataConfig.params, [spec.key]: value } })}
+              tooltip={spec.tooltip}
+            />
+          ))}
           
+          <SeedInput
+            label="Data Seed"
+            value={dataConfig.seed}
+            onChange={(value) => onDataConfigChange({ seed: value })}
+            tooltip="Seed for the data generator - same seed, same points"
+          />
           
           <Button onClick={onResample} variant="secondary">
             Resample Data
@@ -290,31 +472,363 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
         </CollapsibleSection>
 
         <CollapsibleSection 
-          title="Model Training"
-          helpContent={<ModelTrainingHelp />}
+          title="Label Noise & Outliers"
+          defaultOpen={false}
+          helpContent={<LabelNoiseHelp />}
         >
+          <Select
+            label="Label Noise"
+            value={corruption.labelNoiseMode}
+            options={(Object.keys(LABEL_NOISE_LABELS) as LabelNoiseMode[]).map(mode => ({
+              value: mode,
+              label: LABEL_NOISE_LABELS[mode]
+            }))}
+            onChange={(value) => onCorruptionChange({ labelNoiseMode: value as LabelNoiseMode })}
+          />
+          
+          {corruption.labelNoiseMode === 'symmetric' ? (
+            <Slider
+              label="Flip Rate"
+              value={corruption.labelNoise}
+              min={0}
+              max={0.5}
+              step={0.01}
+              onChange={(value) => onCorruptionChange({ labelNoise: value })}
+              tooltip="Probability that a point's label is replaced by a random other class"
+            />
+          ) : (
+            Array.from({ length: generatedClasses(dataConfig) }, (_, c) => (
+              <Slider
+                key={c}
+                label={`Flip Rate: Class ${c} → ${(c + 1) % generatedClasses(dataConfig)}`}
+                value={corruption.classFlipRates[c] ?? 0}
+                min={0}
+                max={0.5}
+                step={0.01}
+                onChange={(value) => onCorruptionChange({
+                  classFlipRates: Array.from(
+                    { length: Math.max(corruption.classFlipRates.length, c + 1) },
+                    (_, i) => (i === c ? value : corruption.classFlipRates[i] ?? 0)
+                  )
+                })}
+                tooltip={`Probability that a class ${c} point is labelled as the next class`}
+              />
+            ))
+          )}
+          
           <Slider
-            label="Regularization (λ)"
-            value={Math.log10(modelConfig.lambda)}
-            min={-4}
-            max={1}
-            step={0.1}
-            onChange={(value) => onModelConfigChange({ lambda: Math.pow(10, value) })}
-            tooltip="L2 regularization strength"
-            isLog
+            label="Outlier Fraction"
+            value={corruption.outlierFraction}
+            min={0}
+            max={0.2}
+            step={0.01}
+            onChange={(value) => onCorruptionChange({ outlierFraction: value })}
+            tooltip="Probability that a point is moved far away from its class (keeping its label)"
           />
           
+          {corruption.outlierFraction > 0 && (
+            <Slider
+              label="Outlier Distance"
+              value={corruption.outlierDistance}
+              min={2}
+              max={10}
+              step={0.5}
+              onChange={(value) => onCorruptionChange({ outlierDistance: value })}
+              tooltip="Distance from the class centre, in multiples of the class's typical radius"
+            />
+          )}
+        </CollapsibleSection>
+
+        <CollapsibleSection 
+          title="Dataset File"
+          defaultOpen={customDatasetName !== null}
+          helpContent={<DatasetFileHelp />}
+        >
+          <DatasetFile
+            customName={customDatasetName}
+            onImport={onImportDataset}
+            onClearCustom={onClearCustomDataset}
+            onExport={onExportDataset}
+          />
+        </CollapsibleSection>
+
+        <CollapsibleSection 
+          title="Edit Points"
+          defaultOpen={false}
+          helpContent={<EditPointsHelp />}
+        >
+          <Checkbox
+            label="Edit on plot"
+            checked={editConfig.enabled}
+            onChange={(enabled) => onEditConfigChange({ enabled })}
+            tooltip="Edited data becomes a custom dataset, separate from the generator and its seed"
+          />
+          
+          {editConfig.enabled && (
+            <>
+              <Select
+                label="Tool"
+                value={editConfig.tool}
+                options={(Object.keys(EDIT_TOOL_LABELS) as EditTool[]).map(tool => ({
+                  value: tool,
+                  label: EDIT_TOOL_LABELS[tool]
+                }))}
+                onChange={(value) => onEditConfigChange({ tool: value as EditTool })}
+              />
+              
+              {/* One class more than the data has, so a new class can be painted in */}
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-neutral-200">New Point Class</label>
+                <div className="flex gap-2">
+                  {Array.from({ length: Math.min(MAX_CLASSES, datasetClasses + 1) }, (_, c) => (
+                    <button
+                      key={c}
+                      onClick={() => onEditConfigChange({ label: c })}
+                      className={`w-7 h-7 rounded-full text-xs font-mono text-white border-2 ${
+                        editConfig.label === c ? 'border-white' : 'border-transparent opacity-60 hover:opacity-100'
+                      }`}
+                      style={{ backgroundColor: classColor(c) }}
+                      title={c < datasetClasses ? `Class ${c}` : `New class ${c}`}
+                    >
+                      {c}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              
+              {editConfig.tool === 'brush' && (
+                <Slider
+                  label="Brush Radius (px)"
+                  value={editConfig.brushRadius}
+                  min={5}
+                  max={50}
+                  step={1}
+                  onChange={(value) => onEditConfigChange({ brushRadius: Math.round(value) })}
+                />
+              )}
+              
+              <Checkbox
+                label="Retrain live"
+                checked={editConfig.liveRetrain}
+                onChange={(liveRetrain) => onEditConfigChange({ liveRetrain })}
+                tooltip="Retrain after every edit with the current settings, so you can watch a single point drag the boundary"
+              />
+              
+              <p className="text-xs text-neutral-400">
+                {editConfig.tool === 'brush'
+                  ? 'Drag to paint points, shift-drag to erase.'
+                  : 'Click to add, shift-click to remove, drag a point to move it.'}{' '}
+                Ctrl+Z undoes.
+              </p>
+            </>
+          )}
+          
+          <Button onClick={onUndoEdit} disabled={undoCount === 0} variant="secondary" size="sm">
+            Undo{undoCount > 0 ? ` (${undoCount})` : ''}
+          </Button>
+        </CollapsibleSection>
+
+        <CollapsibleSection 
+          title="Model Training"
+          helpContent={<ModelTrainingHelp />}
+        >
           <Select
-            label="Learning Rate (η)"
-            value={modelConfig.learningRate.toString()}
+            label="Features"
+            value={features.type}
             options={[
-              { value: '0.01', label: '0.01' },
-              { value: '0.05', label: '0.05' },
-              { value: '0.1', label: '0.1' }
+              { value: 'linear', label: 'Linear (x₁, x₂)' },
+              { value: 'polynomial', label: 'Polynomial' },
+              { value: 'rff', label: 'RBF (random Fourier)' }
             ]}
-            onChange={(value) => onModelConfigChange({ learningRate: parseFloat(value) })}
+            onChange={(value) => onFeaturesChange({ type: value as FeatureMapType })}
+          />
+          
+          {features.type === 'polynomial' && (
+            <>
+              <Slider
+                label="Degree"
+                value={features.degree}
+                min={2}
+                max={6}
+                step={1}
+                onChange={(value) => onFeaturesChange({ degree: Math.round(value) })}
+                tooltip="Highest total power of the polynomial terms"
+              />
+              <Checkbox
+                label="Interaction terms"
+                checked={features.interactions}
+                onChange={(checked) => onFeaturesChange({ interactions: checked })}
+                tooltip="Include cross terms such as x₁·x₂ and x₁²·x₂"
+              />
+            </>
+          )}
+          
+          {features.type === 'rff' && (
+            <>
+              <Slider
+                label="Random Features"
+                value={features.numFeatures}
+                min={10}
+                max={200}
+                step={10}
+                onChange={(value) => onFeaturesChange({ numFeatures: Math.round(value) })}
+                tooltip="Number of random Fourier features approximating the RBF kernel"
+              />
+              <Slider
+                label="Kernel Width (γ)"
+                value={Math.log10(features.gamma)}
+                min={-1}
+                max={1.5}
+                step={0.1}
+                onChange={(value) => onFeaturesChange({ gamma: Math.pow(10, value) })}
+                tooltip="RBF kernel exp(-γ·|a - b|²) on standardized inputs - larger γ gives wigglier boundaries"
+                isLog
+              />
+            </>
+          )}
+          
+          <Select
+            label="Penalty"
+            value={modelConfig.penalty.type}
+            options={(Object.keys(PENALTY_LABELS) as PenaltyType[]).map(type => ({
+              value: type,
+              label: PENALTY_LABELS[type]
+            }))}
+            onChange={(value) => onModelConfigChange({ penalty: { ...modelConfig.penalty, type: value as PenaltyType } })}
+          />
+          
+          {modelConfig.penalty.type !== 'none' && (
+            <Slider
+              label="Regularization (λ)"
+              value={Math.log10(modelConfig.lambda)}
+              min={LOG_LAMBDA_RANGE[0]}
+              max={LOG_LAMBDA_RANGE[1]}
+              step={0.1}
+              onChange={(value) => onModelConfigChange({ lambda: Math.pow(10, value) })}
+              tooltip="Penalty strength"
+              isLog
+            />
+          )}
+          
+          {modelConfig.penalty.type === 'elasticnet' && (
+            <Slider
+              label="L1 Mixing (α)"
+              value={modelConfig.penalty.alpha}
+              min={0.05}
+              max={0.95}
+              step={0.05}
+              onChange={(value) => onModelConfigChange({ penalty: { ...modelConfig.penalty, alpha: value } })}
+              tooltip="Penalty is λ·[α·|w|₁ + (1 - α)·|w|²]"
+            />
+          )}
+          
+          <Select
+            label="Class Weights"
+            value={modelConfig.classWeighting}
+            options={(Object.keys(CLASS_WEIGHTING_LABELS) as ClassWeighting[]).map(weighting => ({
+              value: weighting,
+              label: CLASS_WEIGHTING_LABELS[weighting]
+            }))}
+            onChange={(value) => onModelConfigChange({ classWeighting: value as ClassWeighting })}
           />
           
+          <Select
+            label="Optimizer"
+            value={optimizer.type}
+            options={(Object.keys(OPTIMIZER_LABELS) as OptimizerType[]).map(type => ({
+              value: type,
+              label: OPTIMIZER_LABELS[type]
+            }))}
+            onChange={(value) => onOptimizerChange({ type: value as OptimizerType })}
+          />
+          
+          {optimizer.type !== 'newton' && (
+            <>
+              <Select
+                label="Learning Rate (η)"
+                value={modelConfig.learningRate.toString()}
+                options={[
+                  { value: '0.01', label: '0.01' },
+                  { value: '0.05', label: '0.05' },
+                  { value: '0.1', label: '0.1' },
+                  { value: '0.5', label: '0.5' }
+                ]}
+                onChange={(value) => onModelConfigChange({ learningRate: parseFloat(value) })}
+              />
+              
+              <Select
+                label="Batch Size"
+                value={optimizer.batchSize.toString()}
+                options={[
+                  { value: '0', label: 'Full batch' },
+                  { value: '8', label: '8' },
+                  { value: '32', label: '32' },
+                  { value: '128', label: '128' }
+                ]}
+                onChange={(value) => onOptimizerChange({ batchSize: parseInt(value) })}
+              />
+            </>
+          )}
+          
+          {(optimizer.type === 'momentum' || optimizer.type === 'nesterov') && (
+            <Slider
+              label="Momentum (μ)"
+              value={optimizer.momentum}
+              min={0.5}
+              max={0.99}
+              step={0.01}
+              onChange={(value) => onOptimizerChange({ momentum: value })}
+              tooltip="Fraction of the previous update carried into the next one"
+            />
+          )}
+          
+          {optimizer.type !== 'newton' && (
+            <>
+              <Select
+                label="LR Schedule"
+                value={schedule.type}
+                options={(Object.keys(SCHEDULE_LABELS) as ScheduleType[]).map(type => ({
+                  value: type,
+                  label: SCHEDULE_LABELS[type]
+                }))}
+                onChange={(value) => onScheduleChange({ type: value as ScheduleType })}
+              />
+              
+              <Slider
+                label="Warmup Epochs"
+                value={schedule.warmupEpochs}
+                min={0}
+                max={20}
+                step={1}
+                onChange={(value) => onScheduleChange({ warmupEpochs: Math.round(value) })}
+                tooltip="Ramp the learning rate linearly up to η before the schedule starts"
+              />
+              
+              {(schedule.type === 'step' || schedule.type === 'exponential') && (
+                <>
+                  <Slider
+                    label="Decay Every (epochs)"
+                    value={schedule.stepSize}
+                    min={5}
+                    max={100}
+                    step={5}
+                    onChange={(value) => onScheduleChange({ stepSize: Math.round(value) })}
+                    tooltip="Epochs over which the learning rate is multiplied by the decay factor"
+                  />
+                  <Slider
+                    label="Decay Factor"
+                    value={schedule.decay}
+                    min={0.1}
+                    max={0.95}
+                    step={0.05}
+                    onChange={(value) => onScheduleChange({ decay: value })}
+                    tooltip="Step: η drops by this factor at each step. Exponential: the same drop spread smoothly"
+                  />
+                </>
+              )}
+            </>
+          )}
+          
           <Select
             label="Epochs"
             value={modelConfig.epochs.toString()}
@@ -326,6 +840,33 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             onChange={(value) => onModelConfigChange({ epochs: parseInt(value) })}
           />
           
+          <Checkbox
+            label="Early stopping"
+            checked={earlyStopping.enabled}
+            onChange={(checked) => onModelConfigChange({ earlyStopping: { ...earlyStopping, enabled: checked } })}
+            tooltip="Stop when the validation loss has not improved for a while and restore the best weights"
+          />
+          
+          {earlyStopping.enabled && (
+            <Slider
+              label="Patience (epochs)"
+              value={earlyStopping.patience}
+              min={5}
+              max={50}
+              step={5}
+              onChange={(value) => onModelConfigChange({ earlyStopping: { ...earlyStopping, patience: Math.round(value) } })}
+              tooltip="Epochs without a new best validation loss before training stops"
+            />
+          )}
+          
+          <SeedInput
+            label="Model Seed"
+            value={modelConfig.seed}
+            onChange={(value) => onModelConfigChange({ seed: value })}
+            onReroll={onRerollModelSeed}
+            tooltip="Seed for train/val shuffling, weight initialization, bootstrap resampling and repeat runs"
+          />
+          
           <div className="space-y-2">
             <div className="flex space-x-2">
               <Button
@@ -346,12 +887,29 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             </div>
             
             <div className="flex space-x-2">
+              {isPaused ? (
+                <Button
+                  onClick={onResume}
+                  variant="secondary"
+                >
+                  Resume
+                </Button>
+              ) : (
+                <Button
+                  onClick={onPause}
+                  disabled={!isTraining}
+                  variant="secondary"
+                >
+                  Pause
+                </Button>
+              )}
+              
               <Button
-                onClick={onPause}
-                disabled={!isTraining}
+                onClick={onStep}
+                disabled={isTraining || (!isPaused && !canTrain)}
                 variant="secondary"
               >
-                Pause
+                Step
               </Button>
               
               <Button
@@ -361,9 +919,96 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                 Reset
               </Button>
             </div>
+            
+            {isPaused && (
+              <div className="text-xs text-neutral-400">
+                Paused at epoch <span className="font-mono">{pausedEpoch}</span> / {modelConfig.epochs}
+              </div>
+            )}
+            
+            <Button
+              onClick={onCompareOptimizers}
+              disabled={!canTrain || isComparing}
+              variant="secondary"
+              className="w-full bg-neutral-700 hover:bg-neutral-600 text-neutral-200"
+            >
+              {isComparing ? 'Comparing...' : 'Compare Optimizers'}
+            </Button>
+            
+            <Button
+              onClick={onRegularizationPath}
+              disabled={!canTrain || isComputingPath}
+              variant="secondary"
+              className="w-full bg-neutral-700 hover:bg-neutral-600 text-neutral-200"
+            >
+              {isComputingPath ? 'Sweeping λ...' : 'Regularization Path'}
+            </Button>
           </div>
         </CollapsibleSection>
 
+        <CollapsibleSection 
+          title="Data Splits"
+          defaultOpen={false}
+          helpContent={<DataSplitsHelp />}
+        >
+          <Slider
+            label="Validation Share"
+            value={split.valRatio}
+            min={0.05}
+            max={0.4}
+            step={0.05}
+            onChange={(value) => onSplitChange({ valRatio: value })}
+            tooltip="Points held out to score the model during training and for early stopping"
+          />
+          
+          <Slider
+            label="Test Share"
+            value={split.testRatio}
+            min={0}
+            max={0.4}
+            step={0.05}
+            onChange={(value) => onSplitChange({ testRatio: value })}
+            tooltip="Points never used for training or model choices - scored once at the end (0 = no test set)"
+          />
+          
+          <div className="text-xs text-neutral-400">
+            Train/Val{split.testRatio > 0 ? '/Test' : ''}: <span className="font-mono">{formatSplitRatios(split)}</span>
+          </div>
+          
+          <Checkbox
+            label="Stratified"
+            checked={split.stratified}
+            onChange={(stratified) => onSplitChange({ stratified })}
+            tooltip="Keep each class's share the same in every split and fold"
+          />
+          
+          <Checkbox
+            label="Mark split on plot"
+            checked={showSplit}
+            onChange={onShowSplitChange}
+            tooltip="Validation points drawn as rings, test points as diamonds"
+          />
+          
+          <Slider
+            label="CV Folds (k)"
+            value={split.folds}
+            min={2}
+            max={10}
+            step={1}
+            onChange={(value) => onSplitChange({ folds: Math.round(value) })}
+            tooltip="Cross-validation refits k models, each scored on the fold it did not see"
+          />
+          
+          <Button
+            onClick={onCrossValidate}
+            disabled={!canTrain || isCrossValidating}
+            variant="secondary"
+            className="w-full bg-neutral-700 hover:bg-neutral-600 text-neutral-200"
+          >
+            {isCrossValidating ? 'Cross-validating...' : 'Cross-Validate'}
+          </Button>
+        </CollapsibleSection>
+
         <CollapsibleSection 
           title="Uncertainty Analysis"
           helpContent={<UncertaintyHelp />}
@@ -388,6 +1033,32 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
             tooltip="Number of bootstrap samples for confidence interval"
           />
           
+          <Slider
+            label="Confidence Level"
+            value={uncertaintyConfig.confidenceLevel}
+            min={0.8}
+            max={0.99}
+            step={0.01}
+            onChange={(value) => onUncertaintyConfigChange({ confidenceLevel: Math.round(value * 100) / 100 })}
+            tooltip="Coverage of the bootstrap and Wald confidence intervals"
+          />
+          
+          <Select
+            label="Bootstrap Mode"
+            value={uncertaintyConfig.bootstrapMode}
+            options={(Object.keys(BOOTSTRAP_MODE_LABELS) as BootstrapMode[]).map(mode => ({
+              value: mode,
+              label: BOOTSTRAP_MODE_LABELS[mode]
+            }))}
+            onChange={(value) => onUncertaintyConfigChange({ bootstrapMode: value as BootstrapMode })}
+          />
+          
+          {settingsChangedSinceTraining && uncertaintyConfig.bootstrapMode === 'refit' && (
+            <p className="text-xs text-neutral-400">
+              Settings changed since training: refits use the ones the model was trained with.
+            </p>
+          )}
+          
           <div className="flex space-x-2">
             <Button
               onClick={onRunUncertainty}
@@ -405,6 +1076,70 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
               📋 Demo
             </Button>
           </div>
+          
+          <Select
+            label="Bayesian Posterior"
+            value={uncertaintyConfig.posteriorMethod}
+            options={(Object.keys(POSTERIOR_METHOD_LABELS) as PosteriorMethod[]).map(method => ({
+              value: method,
+              label: POSTERIOR_METHOD_LABELS[method]
+            }))}
+            onChange={(value) => onUncertaintyConfigChange({ posteriorMethod: value as PosteriorMethod })}
+          />
+          
+          {settingsChangedSinceTraining && (
+            <p className="text-xs text-neutral-400">
+              Settings changed since training: the posterior uses the λ the model was trained with.
+            </p>
+          )}
+          
+          <Slider
+            label="Posterior Samples"
+            value={uncertaintyConfig.posteriorSamples}
+            min={50}
+            max={500}
+            step={50}
+            onChange={(value) => onUncertaintyConfigChange({ posteriorSamples: Math.round(value) })}
+            tooltip="Weight vectors drawn from the posterior; the prior on the weights is N(0, 1/(2nλ))"
+          />
+          
+          <Button
+            onClick={onSamplePosterior}
+            disabled={!canSamplePosterior || isSamplingPosterior}
+            variant="secondary"
+            className="w-full bg-neutral-700 hover:bg-neutral-600 text-neutral-200"
+          >
+            {isSamplingPosterior ? 'Sampling posterior...' : 'Sample Posterior'}
+          </Button>
+          
+          <Select
+            label="Bias–Variance Sweep"
+            value={uncertaintyConfig.biasVarianceSweep}
+            options={(Object.keys(BIAS_VARIANCE_SWEEP_LABELS) as BiasVarianceSweep[]).map(sweep => ({
+              value: sweep,
+              label: BIAS_VARIANCE_SWEEP_LABELS[sweep]
+            }))}
+            onChange={(value) => onUncertaintyConfigChange({ biasVarianceSweep: value as BiasVarianceSweep })}
+          />
+          
+          <Slider
+            label="Fresh Datasets"
+            value={uncertaintyConfig.biasVarianceDatasets}
+            min={10}
+            max={100}
+            step={10}
+            onChange={(value) => onUncertaintyConfigChange({ biasVarianceDatasets: Math.round(value) })}
+            tooltip="New training sets drawn from the generator for every λ or sample size"
+          />
+          
+          <Button
+            onClick={onBiasVariance}
+            disabled={!canRunBiasVariance || isRunningBiasVariance}
+            variant="secondary"
+            className="w-full bg-neutral-700 hover:bg-neutral-600 text-neutral-200"
+          >
+            {isRunningBiasVariance ? 'Training on fresh data...' : 'Bias–Variance Experiment'}
+          </Button>
         </CollapsibleSection>
       </div>
     </div>
@@ -0,0 +1,132 @@
+import React, { useMemo, useState } from 'react';
+import { Dataset } from '../utils/dataGenerator';
+import { ColumnMapping, DelimitedTable, guessColumnMapping, importDataset, parseDelimited } from '../utils/csv';
+
+interface DatasetFileProps {
+  customName: string | null; // Imported or edited data currently replacing the generated data, if any
+  onImport: (dataset: Dataset, name: string, classNames: string[]) => void;
+  onClearCustom: () => void;
+  onExport: () => void;
+}
+
+// Row errors listed individually before summarizing
+const MAX_LISTED_ERRORS = 5;
+
+const selectClasses = "w-full p-1.5 bg-neutral-800 border border-neutral-600 rounded text-neutral-200 text-xs focus:outline-none focus:border-blue-500";
+const buttonClasses = "px-3 py-1.5 text-sm font-medium rounded bg-neutral-700 hover:bg-neutral-600 text-neutral-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+// Import a CSV/TSV file (with column mapping and row validation) or export the current dataset
+export const DatasetFile: React.FC<DatasetFileProps> = ({ customName, onImport, onClearCustom, onExport }) => {
+  const [pending, setPending] = useState<{ name: string; table: DelimitedTable } | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({ x: 0, y: 1, label: 2 });
+
+  // Re-validated whenever the mapping changes
+  const preview = useMemo(() => (pending ? importDataset(pending.table, mapping) : null), [pending, mapping]);
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    file.text().then(text => {
+      const table = parseDelimited(text);
+      setMapping(guessColumnMapping(table.header));
+      setPending({ name: file.name, table });
+    });
+  };
+
+  const handleLoad = () => {
+    if (!pending || !preview?.dataset) return;
+    onImport(preview.dataset, pending.name, preview.classNames);
+    setPending(null);
+  };
+
+  const fileErrors = preview ? preview.errors.filter(error => error.line === 0) : [];
+  const rowErrors = preview ? preview.errors.filter(error => error.line > 0) : [];
+
+  return (
+    <div className="space-y-3">
+      {customName && (
+        <div className="flex items-center justify-between text-xs text-neutral-400">
+          <span>
+            Using <span className="font-mono text-neutral-200">{customName}</span>
+          </span>
+          <button onClick={onClearCustom} className="text-blue-400 hover:text-blue-300">
+            Back to generator
+          </button>
+        </div>
+      )}
+
+      <div className="flex space-x-2">
+        <label className={`${buttonClasses} cursor-pointer`}>
+          Import CSV/TSV
+          <input type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values" onChange={handleFile} className="hidden" />
+        </label>
+        <button onClick={onExport} className={buttonClasses} title="Download points with train/val split and model predictions">
+          Export CSV
+        </button>
+      </div>
+
+      {pending && preview && (
+        <div className="space-y-2 p-2 bg-neutral-800/50 border border-neutral-700 rounded">
+          <div className="text-xs text-neutral-300">
+            <span className="font-mono">{pending.name}</span>: {pending.table.rows.length} rows,{' '}
+            {pending.table.delimiter === '\t' ? 'tab' : `"${pending.table.delimiter}"`}-separated
+          </div>
+
+          {/* Column mapping */}
+          <div className="grid grid-cols-3 gap-2">
+            {(['x', 'y', 'label'] as (keyof ColumnMapping)[]).map(field => (
+              <label key={field} className="space-y-1 text-xs text-neutral-400">
+                <span>{field}</span>
+                <select
+                  value={mapping[field]}
+                  onChange={(e) => setMapping(prev => ({ ...prev, [field]: parseInt(e.target.value) }))}
+                  className={selectClasses}
+                >
+                  {pending.table.header.map((column, index) => (
+                    <option key={index} value={index}>
+                      {column || `column ${index + 1}`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          {/* Validation summary */}
+          <div className="text-xs space-y-1">
+            {preview.dataset && (
+              <div className="text-green-400">
+                {preview.dataset.points.length} points, {preview.classNames.length} classes ({preview.classNames.join(', ')})
+              </div>
+            )}
+            {fileErrors.map(error => (
+              <div key={error.message} className="text-red-400">{error.message}</div>
+            ))}
+            {rowErrors.length > 0 && (
+              <div className="text-orange-300">
+                {rowErrors.length} row{rowErrors.length === 1 ? '' : 's'} skipped:
+                <ul className="list-disc list-inside text-neutral-400">
+                  {rowErrors.slice(0, MAX_LISTED_ERRORS).map(error => (
+                    <li key={error.line}>line {error.line}: {error.message}</li>
+                  ))}
+                  {rowErrors.length > MAX_LISTED_ERRORS && <li>… {rowErrors.length - MAX_LISTED_ERRORS} more</li>}
+                </ul>
+              </div>
+            )}
+          </div>
+
+          <div className="flex space-x-2">
+            <button onClick={handleLoad} disabled={!preview.dataset} className={buttonClasses}>
+              Load
+            </button>
+            <button onClick={() => setPending(null)} className={buttonClasses}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,17 +1,38 @@
 import React, { useRef, useEffect } from 'react';
+import { OPTIMIZER_LABELS, OptimizerCurve, OptimizerType } from '../utils/optimizers';
 
 interface LossSparklineProps {
   losses: number[];
   width: number;
   height: number;
+  comparison?: OptimizerCurve[]; // Per-optimizer loss curves overlaid on the same axes
+  valLosses?: number[]; // Validation log loss, drawn dashed
+  stoppedEpoch?: number | null; // Early stopping epoch, marked with a vertical line
+  bestEpoch?: number | null; // Restored best checkpoint, marked on the validation curve
 }
 
-export const LossSparkline: React.FC<LossSparklineProps> = ({ losses, width, height }) => {
+const CURVE_COLORS: Record<OptimizerType, string> = {
+  sgd: '#60a5fa', // blue-400
+  momentum: '#f472b6', // pink-400
+  nesterov: '#facc15', // yellow-400
+  adam: '#a78bfa', // violet-400
+  newton: '#f87171' // red-400
+};
+
+export const LossSparkline: React.FC<LossSparklineProps> = ({
+  losses,
+  width,
+  height,
+  comparison = [],
+  valLosses = [],
+  stoppedEpoch = null,
+  bestEpoch = null
+}) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
   useEffect(() => {
     const canvas = canvasRef.current;
-    if (!canvas || losses.length === 0) return;
+    if (!canvas || (losses.length === 0 && comparison.length === 0)) return;
 
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
@@ -28,44 +49,100 @@ export const LossSparkline: React.FC<LossSparklineProps> = ({ losses, width, hei
     ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
     ctx.fillRect(0, 0, width, height);
 
-    if (losses.length < 2) return;
+    const curves = comparison.filter(curve => curve.losses.length >= 2);
+    if (losses.length < 2 && curves.length === 0) return;
 
-    // Find min/max for scaling
-    const minLoss = Math.min(...losses);
-    const maxLoss = Math.max(...losses);
+    // Find min/max for scaling (shared by all curves)
+    const validation = valLosses.every(loss => Number.isFinite(loss)) ? valLosses : []; // NaN without a validation split
+    const allLosses = curves.reduce((all, curve) => all.concat(curve.losses), losses.concat(validation));
+    const maxLength = Math.max(losses.length, validation.length, ...curves.map(curve => curve.losses.length));
+    const minLoss = Math.min(...allLosses);
+    const maxLoss = Math.max(...allLosses);
     const range = maxLoss - minLoss;
     
     if (range === 0) return;
 
-    // Draw sparkline
-    ctx.strokeStyle = '#10b981'; // emerald-500
-    ctx.lineWidth = 2;
-    ctx.beginPath();
-
     const padding = 4;
     const plotWidth = width - 2 * padding;
     const plotHeight = height - 2 * padding;
 
-    losses.forEach((loss, i) => {
-      const x = padding + (i / (losses.length - 1)) * plotWidth;
-      const y = padding + (1 - (loss - minLoss) / range) * plotHeight;
+    // Shared x-scale, so curves that stopped early end early; epoch e is index e - 1
+    const xOf = (i: number) => padding + (i / (maxLength - 1)) * plotWidth;
+    const yOf = (loss: number) => padding + (1 - (loss - minLoss) / range) * plotHeight;
+
+    const drawCurve = (values: number[], color: string, lineWidth: number, dash: number[] = []) => {
+      if (values.length < 2) return;
       
-      if (i === 0) {
-        ctx.moveTo(x, y);
-      } else {
-        ctx.lineTo(x, y);
-      }
-    });
+      ctx.strokeStyle = color;
+      ctx.lineWidth = lineWidth;
+      ctx.setLineDash(dash);
+      ctx.beginPath();
+      
+      values.forEach((loss, i) => {
+        if (i === 0) {
+          ctx.moveTo(xOf(i), yOf(loss));
+        } else {
+          ctx.lineTo(xOf(i), yOf(loss));
+        }
+      });
+      
+      ctx.stroke();
+      ctx.setLineDash([]);
+    };
 
-    ctx.stroke();
+    // Draw optimizer comparison curves, then the current model on top
+    curves.forEach(curve => drawCurve(curve.losses, CURVE_COLORS[curve.optimizer], 1.5));
+    drawCurve(validation, '#fbbf24', 1.5, [4, 3]); // amber-400
+    drawCurve(losses, '#10b981', 2); // emerald-500
+
+    ctx.font = '10px monospace';
+
+    // Early stopping: where training ended...
+    if (stoppedEpoch !== null && stoppedEpoch >= 1) {
+      const x = xOf(stoppedEpoch - 1);
+      ctx.strokeStyle = '#ef4444'; // red-500
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(x, padding);
+      ctx.lineTo(x, height - padding);
+      ctx.stroke();
+      ctx.fillStyle = '#ef4444';
+      ctx.textAlign = 'right';
+      ctx.fillText(`stop @ ${stoppedEpoch}`, x - 3, height - 6);
+    }
+
+    // ...and which checkpoint was restored
+    if (bestEpoch !== null && bestEpoch >= 1 && validation.length >= bestEpoch) {
+      const x = xOf(bestEpoch - 1);
+      const y = yOf(validation[bestEpoch - 1]);
+      ctx.fillStyle = '#fbbf24';
+      ctx.beginPath();
+      ctx.arc(x, y, 3, 0, 2 * Math.PI);
+      ctx.fill();
+      ctx.textAlign = 'left';
+      ctx.fillText(`best @ ${bestEpoch}`, Math.min(x + 5, width - 60), Math.max(y - 5, 22));
+    }
 
     // Draw current loss value
     ctx.fillStyle = '#f3f4f6';
-    ctx.font = '10px monospace';
     ctx.textAlign = 'right';
-    ctx.fillText(`Loss: ${losses[losses.length - 1].toFixed(3)}`, width - 4, 12);
+    if (losses.length > 0) {
+      ctx.fillText(`Loss: ${losses[losses.length - 1].toFixed(3)}`, width - 4, 12);
+    }
+    if (validation.length > 0) {
+      ctx.fillStyle = '#fbbf24';
+      ctx.fillText(`Val: ${validation[validation.length - 1].toFixed(3)}`, width - 4, 23);
+    }
+
+    // Legend with each optimizer's final loss
+    ctx.textAlign = 'left';
+    curves.forEach((curve, i) => {
+      const y = height - 6 - (curves.length - 1 - i) * 11;
+      ctx.fillStyle = CURVE_COLORS[curve.optimizer];
+      ctx.fillText(`${OPTIMIZER_LABELS[curve.optimizer]} ${curve.losses[curve.losses.length - 1].toFixed(3)}`, 6, y);
+    });
 
-  }, [losses, width, height]);
+  }, [losses, width, height, comparison, valLosses, stoppedEpoch, bestEpoch]);
 
   return (
     <div className="absolute top-2 right-2 bg-black/80 rounded border border-neutral-600">
@@ -1,33 +1,195 @@
-import React, { useRef, useEffect, useCallback } from 'react';
+import React, { useRef, useEffect, useCallback, useMemo } from 'react';
 import { scaleLinear } from 'd3-scale';
-import { Dataset } from '../utils/dataGenerator';
-import { ModelState, predictProba } from '../utils/logisticRegression';
+import { DataPoint, Dataset } from '../utils/dataGenerator';
+import { ModelState, createClassPredictor } from '../utils/logisticRegression';
+import { ProbabilityGrid, contourSegments, sampleGrids } from '../utils/contour';
+import { SplitRole } from '../utils/splits';
+import { Calibrator, applyCalibrator } from '../utils/calibration';
+import { pointwiseBand } from '../utils/bootstrap';
+import { DisagreementMeasure, HeatmapMode, ensembleGrids } from '../utils/ensemble';
+import { EditConfig, PICK_RADIUS, brushStroke, erasePoints, nearestPointIndex } from '../utils/pointEditing';
+import { SeededRandom } from '../utils/random';
 
 interface PlotCanvasProps {
   dataset: Dataset | null;
   model: ModelState | null;
   width: number;
   height: number;
-  uncertaintyBounds?: Float32Array[]; // Array of boundary lines for uncertainty visualization
+  uncertaintyBounds?: ModelState[]; // Models from repeat runs for uncertainty visualization
+  heatmapMode?: HeatmapMode; // Background from the model, the mean/disagreement of the repeat runs or the posterior predictive
+  disagreement?: DisagreementMeasure; // Measure shown in disagreement mode
+  posteriorModels?: ModelState[] | null; // Posterior draws of a binary model's weights
+  referenceModel?: ModelState | null; // Model trained on the uncorrupted data, drawn dashed
+  bandModels?: ModelState[] | null; // Bootstrap refits of a binary model: shade the band of its boundary
+  bandLevel?: number; // Confidence level of the band
+  splitRoles?: SplitRole[] | null; // Per-point split; validation and test points are drawn hollow
+  threshold?: number; // Binary models: the main boundary is the p₁ = threshold contour
+  calibrator?: Calibrator | null; // Binary models: heatmap shows recalibrated probabilities
+  editConfig?: EditConfig; // Points can be edited with the pointer when enabled
+  onEditStart?: () => void; // Called once per gesture, before its first change
+  onPointsChange?: (points: DataPoint[]) => void;
 }
 
 const COLORS = {
-  class0: '#3b82f6', // blue
-  class1: '#f97316', // orange
   background: '#0a0a0a',
   grid: '#374151',
   boundary: '#ffffff',
-  uncertaintyBound: '#6b7280'
+  uncertaintyBound: '#6b7280',
+  posteriorBoundary: '#a78bfa', // violet-400
+  referenceBoundary: '#4ade80',
+  flipped: '#ffffff',
+  outlier: '#ef4444',
+  splitMarker: '#d1d5db',
+  boundaryBand: [250, 204, 21], // yellow-400
+  disagreement: [255, 255, 255]
 };
 
+// Point and heatmap colors, indexed by class label
+export const CLASS_COLORS: [number, number, number][] = [
+  [59, 130, 246], // blue-500
+  [249, 115, 22], // orange-500
+  [16, 185, 129], // emerald-500
+  [168, 85, 247], // purple-500
+  [234, 179, 8], // yellow-500
+  [236, 72, 153] // pink-500
+];
+
+export const classColor = (label: number) => `rgb(${CLASS_COLORS[label % CLASS_COLORS.length].join(', ')})`;
+
+// Pixel spacing of the probability grids (heatmap/main boundary and repeat-run boundaries)
+const GRID_STEP = 2;
+const UNCERTAINTY_GRID_STEP = 4;
+
+// What the disagreement legend says is drawn
+const DISAGREEMENT_LEGEND: Record<DisagreementMeasure, string> = {
+  std: 'std of p',
+  entropy: 'predictive entropy',
+  mutualInformation: 'mutual information'
+};
+
+// Posterior draws whose boundaries are drawn (the predictive heatmap uses all of them)
+const POSTERIOR_BOUNDARIES = 30;
+
+// Points added per brush dab, and the pointer travel (pixels) between dabs
+const BRUSH_POINTS = 3;
+const BRUSH_SPACING = 10;
+
+// Plot area in pixels: 40px left margin for tick labels, 20px right and top, 40px bottom
+function plotScales(bounds: Dataset['bounds'], width: number, height: number) {
+  return {
+    xScale: scaleLinear().domain([bounds.xMin, bounds.xMax]).range([40, width - 20]),
+    yScale: scaleLinear().domain([bounds.yMin, bounds.yMax]).range([height - 40, 20])
+  };
+}
+
+// Draw an image of grid samples, each stretched over step x step pixels
+function drawGridImage(ctx: CanvasRenderingContext2D, imageData: ImageData, step: number) {
+  const tempCanvas = document.createElement('canvas');
+  tempCanvas.width = imageData.width;
+  tempCanvas.height = imageData.height;
+  tempCanvas.getContext('2d')!.putImageData(imageData, 0, 0);
+  ctx.drawImage(tempCanvas, 0, 0, imageData.width * step, imageData.height * step);
+}
+
+// A pointer gesture in progress; points holds the latest edited points
+type Gesture =
+  | { type: 'drag'; index: number; moved: boolean; points: DataPoint[] }
+  | { type: 'brush'; erase: boolean; lastX: number; lastY: number; points: DataPoint[] };
+
+// One probability grid per class, sampled at plot pixel positions
+function classGrids(
+  model: ModelState,
+  toData: (px: number, py: number) => [number, number],
+  width: number,
+  height: number,
+  step: number
+): ProbabilityGrid[] {
+  const predict = createClassPredictor(model);
+  return sampleGrids((px, py) => predict(...toData(px, py)), model.numClasses, width, height, step);
+}
+
+// Stroke the decision boundaries: the p = level contour for two classes, and for
+// more the zero contour of each class's margin p_c - max(other p)
+function drawBoundary(ctx: CanvasRenderingContext2D, grids: ProbabilityGrid[], level: number = 0.5) {
+  ctx.beginPath();
+  const addSegments = (grid: ProbabilityGrid, level: number) => {
+    contourSegments(grid, level).forEach(([x1, y1, x2, y2]) => {
+      ctx.moveTo(x1, y1);
+      ctx.lineTo(x2, y2);
+    });
+  };
+  
+  if (grids.length === 2) {
+    addSegments(grids[1], level);
+  } else {
+    grids.forEach((grid, c) => {
+      const margin = new Float32Array(grid.values.length);
+      for (let i = 0; i < margin.length; i++) {
+        let other = 0;
+        grids.forEach((otherGrid, c2) => {
+          if (c2 !== c) other = Math.max(other, otherGrid.values[i]);
+        });
+        margin[i] = grid.values[i] - other;
+      }
+      addSegments({ ...grid, values: margin }, 0);
+    });
+  }
+  ctx.stroke();
+}
+
 export const PlotCanvas: React.FC<PlotCanvasProps> = ({
   dataset,
   model,
   width,
   height,
-  uncertaintyBounds = []
+  uncertaintyBounds = [],
+  heatmapMode = 'single',
+  disagreement = 'std',
+  posteriorModels = null,
+  referenceModel = null,
+  bandModels = null,
+  bandLevel = 0.95,
+  splitRoles = null,
+  threshold = 0.5,
+  calibrator = null,
+  editConfig,
+  onEditStart,
+  onPointsChange
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const gestureRef = useRef<Gesture | null>(null);
+  // Brush scatter stream, restarted whenever the brush seed changes
+  const brushRngRef = useRef(new SeededRandom(editConfig?.brushSeed));
+  const isEditing = !!(editConfig?.enabled && dataset && onPointsChange);
+
+  // Pointwise interval of p₁ across the bootstrap refits (independent of
+  // the threshold, so moving it only changes which cells are shaded)
+  const band = useMemo(() => {
+    if (!dataset || !bandModels || bandModels.length === 0) return null;
+    const { xScale, yScale } = plotScales(dataset.bounds, width, height);
+    const toData = (px: number, py: number): [number, number] => [xScale.invert(px), yScale.invert(py)];
+    return pointwiseBand(bandModels.map(bandModel => classGrids(bandModel, toData, width, height, UNCERTAINTY_GRID_STEP)[1]), bandLevel);
+  }, [dataset, bandModels, bandLevel, width, height]);
+
+  // Mean prediction and disagreement of the repeat runs, computed only when a
+  // heatmap mode needs them (every run has its own standardization and features)
+  const ensemble = useMemo(() => {
+    if (!dataset || heatmapMode === 'single' || uncertaintyBounds.length < 2) return null;
+    const { xScale, yScale } = plotScales(dataset.bounds, width, height);
+    const toData = (px: number, py: number): [number, number] => [xScale.invert(px), yScale.invert(py)];
+    const numClasses = uncertaintyBounds[0].numClasses;
+    return ensembleGrids(uncertaintyBounds
+      .filter(boundModel => boundModel.numClasses === numClasses)
+      .map(boundModel => classGrids(boundModel, toData, width, height, UNCERTAINTY_GRID_STEP)));
+  }, [dataset, uncertaintyBounds, heatmapMode, width, height]);
+
+  // Posterior predictive: the class probabilities averaged over the posterior draws
+  const posteriorPredictive = useMemo(() => {
+    if (!dataset || heatmapMode !== 'posterior' || !posteriorModels || posteriorModels.length === 0) return null;
+    const { xScale, yScale } = plotScales(dataset.bounds, width, height);
+    const toData = (px: number, py: number): [number, number] => [xScale.invert(px), yScale.invert(py)];
+    return ensembleGrids(posteriorModels.map(posteriorModel => classGrids(posteriorModel, toData, width, height, UNCERTAINTY_GRID_STEP))).mean;
+  }, [dataset, posteriorModels, heatmapMode, width, height]);
 
   const draw = useCallback(() => {
     const canvas = canvasRef.current;
@@ -48,16 +210,8 @@ export const PlotCanvas: React.FC<PlotCanvasProps> = ({
     ctx.fillStyle = COLORS.background;
     ctx.fillRect(0, 0, width, height);
 
-    const { bounds } = dataset;
-    
     // Create scales
-    const xScale = scaleLinear()
-      .domain([bounds.xMin, bounds.xMax])
-      .range([40, width - 20]);
-    
-    const yScale = scaleLinear()
-      .domain([bounds.yMin, bounds.yMax])
-      .range([height - 40, 20]);
+    const { xScale, yScale } = plotScales(dataset.bounds, width, height);
 
     // Draw grid
     ctx.strokeStyle = COLORS.grid;
@@ -86,104 +240,331 @@ export const PlotCanvas: React.FC<PlotCanvasProps> = ({
     
     ctx.setLineDash([]);
 
-    // Draw probability heatmap if model exists
-    if (model) {
-      const gridSize = 2; // Coarse grid for performance
-      const imageData = ctx.createImageData(Math.ceil(width / gridSize), Math.ceil(height / gridSize));
-      const data = imageData.data;
-      
-      for (let i = 0; i < imageData.width; i++) {
-        for (let j = 0; j < imageData.height; j++) {
-          const x = xScale.invert(i * gridSize);
-          const y = yScale.invert(j * gridSize);
-          const prob = predictProba(x, y, model.weights, model.meanX, model.stdX);
-          
-          const idx = (j * imageData.width + i) * 4;
-          if (prob > 0.5) {
-            // Orange for class 1
-            data[idx] = 249;     // R
-            data[idx + 1] = 115; // G
-            data[idx + 2] = 22;  // B
-            data[idx + 3] = Math.floor(30 * (prob - 0.5) * 2); // Alpha
+    const toData = (px: number, py: number): [number, number] => [xScale.invert(px), yScale.invert(py)];
+
+    // Class probabilities at every pixel position, for both heatmap and boundary
+    const modelGrids = model ? classGrids(model, toData, width, height, GRID_STEP) : null;
+
+    // Draw the heatmap: the disagreement of the repeat runs, or the class
+    // probabilities of their mean, of the posterior predictive or of the model
+    let disagreementMax: number | null = null;
+    if (ensemble && heatmapMode === 'disagreement') {
+      // Brighter where the runs disagree more, scaled to the largest value on the plot
+      const grid = ensemble[disagreement];
+      const imageData = ctx.createImageData(grid.cols, grid.rows);
+      const [r, g, b] = COLORS.disagreement;
+      disagreementMax = grid.values.reduce((max, value) => Math.max(max, value), 0);
+      for (let k = 0; k < grid.cols * grid.rows; k++) {
+        const alpha = disagreementMax > 0 ? Math.floor(90 * grid.values[k] / disagreementMax) : 0;
+        imageData.data.set([r, g, b, alpha], k * 4);
+      }
+      drawGridImage(ctx, imageData, grid.step);
+    } else {
+      const heatmapGrids = ensemble && heatmapMode === 'mean' ? ensemble.mean : posteriorPredictive ?? modelGrids;
+      // The recalibration map belongs to the model, not to the runs' mean or the posterior
+      const heatmapCalibrator = heatmapGrids === modelGrids ? calibrator : null;
+      if (heatmapGrids) {
+        const { cols, rows, step } = heatmapGrids[0];
+        const numClasses = heatmapGrids.length;
+        const imageData = ctx.createImageData(cols, rows);
+        const data = imageData.data;
+        
+        for (let k = 0; k < cols * rows; k++) {
+          // Color of the most probable class, more opaque the more certain it is
+          let best = 0;
+          let bestProb = heatmapGrids[0].values[k];
+          if (heatmapCalibrator && numClasses === 2) {
+            const p = applyCalibrator(heatmapCalibrator, heatmapGrids[1].values[k]);
+            best = p >= 0.5 ? 1 : 0;
+            bestProb = Math.max(p, 1 - p);
           } else {
-            // Blue for class 0
-            data[idx] = 59;      // R
-            data[idx + 1] = 130; // G
-            data[idx + 2] = 246; // B
-            data[idx + 3] = Math.floor(30 * (0.5 - prob) * 2); // Alpha
+            for (let c = 1; c < numClasses; c++) {
+              if (heatmapGrids[c].values[k] > heatmapGrids[best].values[k]) best = c;
+            }
+            bestProb = heatmapGrids[best].values[k];
           }
+          const certainty = (bestProb - 1 / numClasses) * numClasses / (numClasses - 1);
+          const [r, g, b] = CLASS_COLORS[best % CLASS_COLORS.length];
+          const idx = k * 4;
+          data[idx] = r;
+          data[idx + 1] = g;
+          data[idx + 2] = b;
+          data[idx + 3] = Math.floor(30 * certainty); // Alpha
         }
+        
+        drawGridImage(ctx, imageData, step);
       }
-      
-      // Create temporary canvas for the heatmap
-      const tempCanvas = document.createElement('canvas');
-      tempCanvas.width = imageData.width;
-      tempCanvas.height = imageData.height;
-      const tempCtx = tempCanvas.getContext('2d')!;
-      tempCtx.putImageData(imageData, 0, 0);
-      
-      // Draw scaled heatmap
-      ctx.drawImage(tempCanvas, 0, 0, width, height);
     }
 
-    // Draw uncertainty boundary lines
+    // Clip boundaries to the plot area
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(40, 20, width - 60, height - 60);
+    ctx.clip();
+
+    // Shade where the refits' interval of p₁ straddles the threshold: the
+    // boundary could plausibly run anywhere in this band
+    if (band) {
+      const { cols, rows, step } = band.lower;
+      const imageData = ctx.createImageData(cols, rows);
+      const [r, g, b] = COLORS.boundaryBand;
+      for (let k = 0; k < cols * rows; k++) {
+        if (band.lower.values[k] < threshold && band.upper.values[k] >= threshold) {
+          imageData.data.set([r, g, b, 60], k * 4);
+        }
+      }
+      drawGridImage(ctx, imageData, step);
+    }
+
+    // Draw uncertainty boundaries (decision boundary of each repeat run)
     if (uncertaintyBounds.length > 0 && model) {
       ctx.strokeStyle = COLORS.uncertaintyBound;
       ctx.lineWidth = 1;
       ctx.globalAlpha = 0.3;
       
-      uncertaintyBounds.forEach(weights => {
-        // Draw decision boundary (p = 0.5)
-        // w0 + w1*x + w2*y = 0
-        // y = -(w0 + w1*x) / w2
-        if (Math.abs(weights[2]) > 1e-8) {
-          ctx.beginPath();
-          const x1 = bounds.xMin;
-          const x2 = bounds.xMax;
-          const y1 = -(weights[0] + weights[1] * ((x1 - model.meanX[0]) / model.stdX[0])) / weights[2] * model.stdX[1] + model.meanX[1];
-          const y2 = -(weights[0] + weights[1] * ((x2 - model.meanX[0]) / model.stdX[0])) / weights[2] * model.stdX[1] + model.meanX[1];
-          
-          ctx.moveTo(xScale(x1), yScale(y1));
-          ctx.lineTo(xScale(x2), yScale(y2));
-          ctx.stroke();
-        }
+      uncertaintyBounds.forEach(boundModel => {
+        drawBoundary(ctx, classGrids(boundModel, toData, width, height, UNCERTAINTY_GRID_STEP));
       });
       
       ctx.globalAlpha = 1;
     }
 
-    // Draw main decision boundary
-    if (model) {
+    // Draw the boundaries of posterior draws spread evenly over the chain
+    const posteriorStride = posteriorModels ? Math.ceil(posteriorModels.length / POSTERIOR_BOUNDARIES) : 1;
+    const shownPosterior = (posteriorModels ?? []).filter((_, i) => i % posteriorStride === 0);
+    if (shownPosterior.length > 0) {
+      ctx.strokeStyle = COLORS.posteriorBoundary;
+      ctx.lineWidth = 1;
+      ctx.globalAlpha = 0.35;
+      shownPosterior.forEach(posteriorModel => {
+        drawBoundary(ctx, classGrids(posteriorModel, toData, width, height, UNCERTAINTY_GRID_STEP));
+      });
+      ctx.globalAlpha = 1;
+    }
+
+    // Draw the boundary learned from clean data, for comparison
+    if (referenceModel) {
+      ctx.strokeStyle = COLORS.referenceBoundary;
+      ctx.lineWidth = 2;
+      ctx.setLineDash([6, 4]);
+      drawBoundary(ctx, classGrids(referenceModel, toData, width, height, UNCERTAINTY_GRID_STEP));
+      ctx.setLineDash([]);
+    }
+
+    // Draw main decision boundary (at the threshold, with the p = 0.5 line dotted for comparison)
+    const isThresholdMoved = modelGrids !== null && modelGrids.length === 2 && threshold !== 0.5;
+    if (modelGrids) {
       ctx.strokeStyle = COLORS.boundary;
-      ctx.lineWidth = 3;
-      
-      // Draw decision boundary (p = 0.5)
-      if (Math.abs(model.weights[2]) > 1e-8) {
-        ctx.beginPath();
-        const x1 = bounds.xMin;
-        const x2 = bounds.xMax;
-        const y1 = -(model.weights[0] + model.weights[1] * ((x1 - model.meanX[0]) / model.stdX[0])) / model.weights[2] * model.stdX[1] + model.meanX[1];
-        const y2 = -(model.weights[0] + model.weights[1] * ((x2 - model.meanX[0]) / model.stdX[0])) / model.weights[2] * model.stdX[1] + model.meanX[1];
-        
-        ctx.moveTo(xScale(x1), yScale(y1));
-        ctx.lineTo(xScale(x2), yScale(y2));
-        ctx.stroke();
+      if (isThresholdMoved) {
+        ctx.lineWidth = 1;
+        ctx.setLineDash([2, 4]);
+        drawBoundary(ctx, modelGrids);
+        ctx.setLineDash([]);
       }
+      ctx.lineWidth = 3;
+      ctx.lineCap = 'round';
+      drawBoundary(ctx, modelGrids, threshold);
     }
 
-    // Draw data points
+    ctx.restore();
+
+    // Draw data points (validation points as rings, test points as diamonds when the split is marked)
     ctx.globalAlpha = 0.7;
-    dataset.points.forEach(point => {
+    ctx.lineWidth = 1.5;
+    dataset.points.forEach((point, i) => {
       const x = xScale(point.x);
       const y = yScale(point.y);
+      const role = splitRoles?.[i] ?? 'train';
       
-      ctx.fillStyle = point.label === 0 ? COLORS.class0 : COLORS.class1;
+      ctx.fillStyle = classColor(point.label);
+      ctx.strokeStyle = classColor(point.label);
       ctx.beginPath();
-      ctx.arc(x, y, 4, 0, 2 * Math.PI);
-      ctx.fill();
+      if (role === 'test') {
+        ctx.moveTo(x, y - 5);
+        ctx.lineTo(x + 5, y);
+        ctx.lineTo(x, y + 5);
+        ctx.lineTo(x - 5, y);
+        ctx.closePath();
+        ctx.stroke();
+      } else {
+        ctx.arc(x, y, 4, 0, 2 * Math.PI);
+        if (role === 'val') ctx.stroke(); else ctx.fill();
+      }
     });
     ctx.globalAlpha = 1;
 
+    // Legend entries in the bottom-left corner: a marker of the given width drawn at (x, y), then a label
+    const legend: { label: string; markerWidth: number; draw: (x: number, y: number) => void }[] = [];
+
+    // Highlight corrupted points: a ring for flipped labels, a square for outliers
+    const corrupted = dataset.points.filter(point => point.corruption);
+    if (corrupted.length > 0) {
+      ctx.lineWidth = 1.5;
+      corrupted.forEach(point => {
+        const x = xScale(point.x);
+        const y = yScale(point.y);
+        if (point.corruption!.flipped) {
+          ctx.strokeStyle = COLORS.flipped;
+          ctx.beginPath();
+          ctx.arc(x, y, 7, 0, 2 * Math.PI);
+          ctx.stroke();
+        }
+        if (point.corruption!.outlier) {
+          ctx.strokeStyle = COLORS.outlier;
+          ctx.strokeRect(x - 6, y - 6, 12, 12);
+        }
+      });
+
+      legend.push({
+        label: 'flipped',
+        markerWidth: 10,
+        draw: (x, y) => {
+          ctx.strokeStyle = COLORS.flipped;
+          ctx.beginPath();
+          ctx.arc(x + 5, y, 5, 0, 2 * Math.PI);
+          ctx.stroke();
+        }
+      });
+      legend.push({
+        label: 'outlier',
+        markerWidth: 10,
+        draw: (x, y) => {
+          ctx.strokeStyle = COLORS.outlier;
+          ctx.strokeRect(x, y - 5, 10, 10);
+        }
+      });
+      if (referenceModel) {
+        legend.push({
+          label: 'clean-data boundary',
+          markerWidth: 20,
+          draw: (x, y) => {
+            ctx.strokeStyle = COLORS.referenceBoundary;
+            ctx.setLineDash([6, 4]);
+            ctx.beginPath();
+            ctx.moveTo(x, y);
+            ctx.lineTo(x + 20, y);
+            ctx.stroke();
+            ctx.setLineDash([]);
+          }
+        });
+      }
+    }
+
+    if (isThresholdMoved) {
+      legend.push({
+        label: `p = ${threshold.toFixed(2)}`,
+        markerWidth: 20,
+        draw: (x, y) => {
+          ctx.strokeStyle = COLORS.boundary;
+          ctx.lineWidth = 3;
+          ctx.beginPath();
+          ctx.moveTo(x, y);
+          ctx.lineTo(x + 20, y);
+          ctx.stroke();
+          ctx.lineWidth = 1.5;
+        }
+      });
+      legend.push({
+        label: 'p = 0.5',
+        markerWidth: 20,
+        draw: (x, y) => {
+          ctx.strokeStyle = COLORS.boundary;
+          ctx.lineWidth = 1;
+          ctx.setLineDash([2, 4]);
+          ctx.beginPath();
+          ctx.moveTo(x, y);
+          ctx.lineTo(x + 20, y);
+          ctx.stroke();
+          ctx.setLineDash([]);
+          ctx.lineWidth = 1.5;
+        }
+      });
+    }
+
+    if (band) {
+      legend.push({
+        label: `${Math.round(bandLevel * 100)}% boundary band`,
+        markerWidth: 10,
+        draw: (x, y) => {
+          ctx.fillStyle = `rgba(${COLORS.boundaryBand.join(', ')}, 0.4)`;
+          ctx.fillRect(x, y - 5, 10, 10);
+          ctx.fillStyle = '#d1d5db';
+        }
+      });
+    }
+
+    if (shownPosterior.length > 0) {
+      legend.push({
+        label: 'posterior samples',
+        markerWidth: 20,
+        draw: (x, y) => {
+          ctx.strokeStyle = COLORS.posteriorBoundary;
+          ctx.beginPath();
+          ctx.moveTo(x, y);
+          ctx.lineTo(x + 20, y);
+          ctx.stroke();
+        }
+      });
+    }
+
+    if (disagreementMax !== null) {
+      legend.push({
+        label: `runs' ${DISAGREEMENT_LEGEND[disagreement]} (0-${disagreementMax.toFixed(2)})`,
+        markerWidth: 20,
+        draw: (x, y) => {
+          const gradient = ctx.createLinearGradient(x, 0, x + 20, 0);
+          gradient.addColorStop(0, `rgba(${COLORS.disagreement.join(', ')}, 0)`);
+          gradient.addColorStop(1, `rgba(${COLORS.disagreement.join(', ')}, 0.35)`);
+          ctx.fillStyle = gradient;
+          ctx.fillRect(x, y - 5, 20, 10);
+          ctx.fillStyle = '#d1d5db';
+        }
+      });
+    }
+
+    if (splitRoles) {
+      legend.push({
+        label: 'val',
+        markerWidth: 10,
+        draw: (x, y) => {
+          ctx.strokeStyle = COLORS.splitMarker;
+          ctx.beginPath();
+          ctx.arc(x + 5, y, 4, 0, 2 * Math.PI);
+          ctx.stroke();
+        }
+      });
+      if (splitRoles.includes('test')) {
+        legend.push({
+          label: 'test',
+          markerWidth: 10,
+          draw: (x, y) => {
+            ctx.strokeStyle = COLORS.splitMarker;
+            ctx.beginPath();
+            ctx.moveTo(x + 5, y - 5);
+            ctx.lineTo(x + 10, y);
+            ctx.lineTo(x + 5, y + 5);
+            ctx.lineTo(x, y);
+            ctx.closePath();
+            ctx.stroke();
+          }
+        });
+      }
+    }
+
+    if (legend.length > 0) {
+      ctx.font = '10px monospace';
+      ctx.textAlign = 'left';
+      ctx.fillStyle = '#d1d5db';
+      ctx.lineWidth = 1.5;
+      const legendY = height - 50;
+      let legendX = 52;
+      legend.forEach(item => {
+        item.draw(legendX, legendY - 3);
+        ctx.fillText(item.label, legendX + item.markerWidth + 5, legendY);
+        legendX += item.markerWidth + 5 + ctx.measureText(item.label).width + 15;
+      });
+    }
+
     // Draw axes labels
     ctx.fillStyle = '#d1d5db';
     ctx.font = '12px monospace';
@@ -210,17 +591,107 @@ export const PlotCanvas: React.FC<PlotCanvasProps> = ({
       ctx.fillText(tick.toFixed(1), 35, y + 3);
     });
 
-  }, [dataset, model, width, height, uncertaintyBounds]);
+  }, [dataset, model, width, height, uncertaintyBounds, ensemble, heatmapMode, disagreement, posteriorModels, posteriorPredictive, referenceModel, band, bandLevel, splitRoles, threshold, calibrator]);
 
   useEffect(() => {
     draw();
   }, [draw]);
 
+  useEffect(() => {
+    brushRngRef.current = new SeededRandom(editConfig?.brushSeed);
+  }, [editConfig?.brushSeed]);
+
+  // Pointer position in plot pixels, clamped to the plot area
+  const pointerPosition = (event: React.PointerEvent<HTMLCanvasElement>): [number, number] => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return [
+      Math.max(40, Math.min(width - 20, event.clientX - rect.left)),
+      Math.max(20, Math.min(height - 40, event.clientY - rect.top))
+    ];
+  };
+
+  // Add a brush dab (or erase under the brush) and report the new points
+  const paint = (gesture: Extract<Gesture, { type: 'brush' }>, px: number, py: number) => {
+    if (!dataset || !editConfig || !onPointsChange) return;
+    const { xScale, yScale } = plotScales(dataset.bounds, width, height);
+    const toPixel = (point: DataPoint): [number, number] => [xScale(point.x), yScale(point.y)];
+
+    gesture.points = gesture.erase
+      ? erasePoints(gesture.points, toPixel, px, py, editConfig.brushRadius)
+      : [
+          ...gesture.points,
+          ...brushStroke(px, py, editConfig.brushRadius, BRUSH_POINTS, brushRngRef.current)
+            .filter(([x, y]) => x >= 40 && x <= width - 20 && y >= 20 && y <= height - 40)
+            .map(([x, y]) => ({ x: xScale.invert(x), y: yScale.invert(y), label: editConfig.label }))
+        ];
+    gesture.lastX = px;
+    gesture.lastY = py;
+    onPointsChange(gesture.points);
+  };
+
+  // Point tool: click adds, shift-click removes, dragging moves. Brush tool: drag
+  // paints points of the selected class, shift-drag erases.
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isEditing || !dataset || !editConfig || !onPointsChange || event.button !== 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const [px, py] = pointerPosition(event);
+    const { xScale, yScale } = plotScales(dataset.bounds, width, height);
+    const points = dataset.points;
+
+    if (editConfig.tool === 'brush') {
+      const gesture: Gesture = { type: 'brush', erase: event.shiftKey, lastX: px, lastY: py, points };
+      gestureRef.current = gesture;
+      onEditStart?.();
+      paint(gesture, px, py);
+      return;
+    }
+
+    const hit = nearestPointIndex(points, point => [xScale(point.x), yScale(point.y)], px, py, PICK_RADIUS);
+    if (hit >= 0 && !event.shiftKey) {
+      // Undo history is only touched once the point actually moves
+      gestureRef.current = { type: 'drag', index: hit, moved: false, points };
+    } else if (hit >= 0) {
+      onEditStart?.();
+      onPointsChange(points.filter((_, i) => i !== hit));
+    } else if (!event.shiftKey) {
+      onEditStart?.();
+      onPointsChange([...points, { x: xScale.invert(px), y: yScale.invert(py), label: editConfig.label }]);
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const gesture = gestureRef.current;
+    if (!gesture || !dataset || !onPointsChange) return;
+    const [px, py] = pointerPosition(event);
+
+    if (gesture.type === 'brush') {
+      if (Math.hypot(px - gesture.lastX, py - gesture.lastY) >= BRUSH_SPACING) paint(gesture, px, py);
+      return;
+    }
+
+    if (!gesture.moved) {
+      onEditStart?.();
+      gesture.moved = true;
+    }
+    const { xScale, yScale } = plotScales(dataset.bounds, width, height);
+    gesture.points = gesture.points.slice();
+    gesture.points[gesture.index] = { ...gesture.points[gesture.index], x: xScale.invert(px), y: yScale.invert(py) };
+    onPointsChange(gesture.points);
+  };
+
+  const handlePointerUp = () => {
+    gestureRef.current = null;
+  };
+
   return (
     <canvas
       ref={canvasRef}
-      className="border border-neutral-700 rounded-lg bg-neutral-950"
+      className={`border border-neutral-700 rounded-lg bg-neutral-950 ${isEditing ? 'cursor-crosshair touch-none' : ''}`}
       style={{ width, height }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
     />
   );
 };
@@ -0,0 +1,214 @@
+import React, { useRef, useEffect } from 'react';
+import { HelpTooltip } from './HelpTooltip';
+import { LOG_LAMBDA_RANGE, RegularizationPathPoint, countZeroWeights } from '../utils/regularization';
+
+interface RegularizationPathProps {
+  path: RegularizationPathPoint[];
+  featureNames: string[]; // Names of w1..wd (repeated in every softmax class block)
+  currentLambda: number;
+  width: number;
+  height: number;
+}
+
+// Coefficients drawn individually; larger expansions only show the first few
+const MAX_PATH_LINES = 8;
+
+const LINE_COLORS = [
+  '#3b82f6', // blue-500
+  '#f97316', // orange-500
+  '#10b981', // emerald-500
+  '#a78bfa', // violet-400
+  '#f472b6', // pink-400
+  '#facc15', // yellow-400
+  '#22d3ee', // cyan-400
+  '#f87171' // red-400
+];
+
+export const RegularizationPath: React.FC<RegularizationPathProps> = ({
+  path,
+  featureNames,
+  currentLambda,
+  width,
+  height
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || path.length < 2) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    // Set canvas size for crisp rendering
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${height}px`;
+    ctx.scale(dpr, dpr);
+
+    // Clear canvas
+    ctx.fillStyle = '#171717'; // neutral-900
+    ctx.fillRect(0, 0, width, height);
+
+    // Feature weights to draw (biases start every block of d + 1)
+    const blockSize = featureNames.length + 1;
+    const multiclass = path[0].weights.length > blockSize;
+    const lines = path[0].weights
+      .map((_, j) => j)
+      .filter(j => j % blockSize !== 0)
+      .slice(0, MAX_PATH_LINES);
+
+    // Symmetric weight range so the zero line sits in the middle
+    let maxAbs = 0;
+    path.forEach(point => {
+      lines.forEach(j => {
+        maxAbs = Math.max(maxAbs, Math.abs(point.weights[j]));
+      });
+    });
+    if (maxAbs === 0) maxAbs = 1;
+
+    // Drawing setup
+    const padding = { left: 40, right: 20, top: 10, bottom: 40 };
+    const plotWidth = width - padding.left - padding.right;
+    const plotHeight = height - padding.top - padding.bottom;
+    const [logMin, logMax] = LOG_LAMBDA_RANGE;
+
+    const xOf = (lambda: number) => padding.left + ((Math.log10(lambda) - logMin) / (logMax - logMin)) * plotWidth;
+    const yOf = (w: number) => padding.top + (1 - (w + maxAbs) / (2 * maxAbs)) * plotHeight;
+
+    // Zero line
+    ctx.strokeStyle = '#374151'; // gray-700
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(padding.left, yOf(0));
+    ctx.lineTo(padding.left + plotWidth, yOf(0));
+    ctx.stroke();
+
+    // Coefficient paths
+    lines.forEach((j, line) => {
+      ctx.strokeStyle = LINE_COLORS[line % LINE_COLORS.length];
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      path.forEach((point, i) => {
+        const x = xOf(point.lambda);
+        const y = yOf(point.weights[j]);
+        if (i === 0) {
+          ctx.moveTo(x, y);
+        } else {
+          ctx.lineTo(x, y);
+        }
+      });
+      ctx.stroke();
+    });
+
+    // Current λ
+    ctx.strokeStyle = '#ef4444'; // red-500
+    ctx.lineWidth = 2;
+    ctx.setLineDash([5, 5]);
+    ctx.beginPath();
+    ctx.moveTo(xOf(currentLambda), padding.top);
+    ctx.lineTo(xOf(currentLambda), padding.top + plotHeight);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    // Draw axes
+    ctx.strokeStyle = '#6b7280'; // neutral-500
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(padding.left, padding.top + plotHeight);
+    ctx.lineTo(padding.left + plotWidth, padding.top + plotHeight);
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.moveTo(padding.left, padding.top);
+    ctx.lineTo(padding.left, padding.top + plotHeight);
+    ctx.stroke();
+
+    // Draw labels
+    ctx.fillStyle = '#d1d5db'; // neutral-300
+    ctx.font = '10px monospace';
+    ctx.textAlign = 'center';
+
+    // X-axis labels (powers of ten)
+    for (let e = logMin; e <= logMax; e++) {
+      ctx.fillText(`1e${e}`, xOf(Math.pow(10, e)), height - 20);
+    }
+
+    // Y-axis labels
+    ctx.textAlign = 'right';
+    [-maxAbs, 0, maxAbs].forEach(value => {
+      ctx.fillText(value.toFixed(1), padding.left - 5, yOf(value) + 3);
+    });
+
+    // Axis title
+    ctx.textAlign = 'center';
+    ctx.fillText('λ (log scale)', width / 2, height - 5);
+
+    // Legend
+    ctx.textAlign = 'right';
+    lines.forEach((j, line) => {
+      const feature = j % blockSize;
+      const label = `w${feature} ${featureNames[feature - 1] ?? ''}`;
+      ctx.fillStyle = LINE_COLORS[line % LINE_COLORS.length];
+      ctx.fillText(multiclass ? `class ${Math.floor(j / blockSize)} ${label}` : label, padding.left + plotWidth - 2, padding.top + 10 + line * 11);
+    });
+
+  }, [path, featureNames, currentLambda, width, height]);
+
+  // Fit closest to the current λ, for the zero-weight count
+  const blockSize = featureNames.length + 1;
+  const closest = path.reduce<RegularizationPathPoint | null>((best, point) =>
+    !best || Math.abs(Math.log10(point.lambda / currentLambda)) < Math.abs(Math.log10(best.lambda / currentLambda)) ? point : best
+  , null);
+
+  const pathHelp = (
+    <div className="space-y-3">
+      <div>
+        <strong className="text-blue-300">What is the regularization path?</strong>
+        <p>The same model refit (same seed, split and starting weights) for λ values across the whole slider range, tracking every weight.</p>
+      </div>
+
+      <div>
+        <strong className="text-orange-300">What you see:</strong>
+        <ul className="list-disc list-inside mt-1 space-y-1">
+          <li><strong>Colored lines:</strong> Each weight as λ grows from left to right</li>
+          <li><strong>Red dashed line:</strong> The current λ setting</li>
+        </ul>
+      </div>
+
+      <div>
+        <strong className="text-green-300">Interpretation:</strong>
+        <ul className="list-disc list-inside mt-1 space-y-1">
+          <li><strong>L2:</strong> Weights shrink smoothly towards zero but never reach it</li>
+          <li><strong>L1:</strong> Weights hit exactly zero one by one - automatic feature selection</li>
+          <li><strong>Elastic-net:</strong> In between; correlated features are kept together</li>
+        </ul>
+      </div>
+    </div>
+  );
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-2">
+        <h3 className="text-sm font-medium text-neutral-200">Regularization Path</h3>
+        <HelpTooltip
+          title="📉 Regularization Path"
+          content={pathHelp}
+          size="lg"
+        />
+        {closest && (
+          <span className="text-xs text-neutral-400">
+            Zero weights at λ≈{closest.lambda.toExponential(1)}:{' '}
+            <span className="font-mono">{countZeroWeights(closest.weights, blockSize)} / {closest.weights.length - closest.weights.length / blockSize}</span>
+          </span>
+        )}
+      </div>
+      <canvas
+        ref={canvasRef}
+        className="border border-neutral-700 rounded bg-neutral-900"
+        style={{ width, height }}
+      />
+    </div>
+  );
+};
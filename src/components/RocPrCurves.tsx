@@ -0,0 +1,211 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { HelpTooltip } from './HelpTooltip';
+import { TabBar } from './TabBar';
+import { ClassificationMetrics, SplitMetrics, ThresholdCurves } from '../utils/metrics';
+import { SplitRole } from '../utils/splits';
+
+interface RocPrCurvesProps {
+  curves: Record<SplitRole, ThresholdCurves | null>; // null for empty splits
+  metrics: SplitMetrics; // Scores at the current threshold, for the operating points
+  threshold: number;
+  onThresholdChange: (threshold: number) => void;
+  width: number;
+  height: number;
+}
+
+const SPLIT_TABS: { id: SplitRole; label: string }[] = [
+  { id: 'train', label: 'Train' },
+  { id: 'val', label: 'Val' },
+  { id: 'test', label: 'Test' }
+];
+
+const CURVE_COLOR = '#3b82f6'; // blue-500
+const OPERATING_POINT_COLOR = '#ef4444'; // red-500
+
+// Where the current threshold sits on each curve
+function operatingPoint(metrics: ClassificationMetrics) {
+  const [[trueNegatives, falsePositives]] = metrics.confusion;
+  return {
+    fpr: falsePositives / (trueNegatives + falsePositives),
+    tpr: metrics.recall[1],
+    precision: metrics.precision[1]
+  };
+}
+
+export const RocPrCurves: React.FC<RocPrCurvesProps> = ({
+  curves,
+  metrics,
+  threshold,
+  onThresholdChange,
+  width,
+  height
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [split, setSplit] = useState<SplitRole>('val');
+  const tabs = SPLIT_TABS.filter(tab => curves[tab.id] !== null);
+  const shownSplit = curves[split] ? split : 'val';
+  const shown = curves[shownSplit];
+  const shownMetrics = metrics[shownSplit];
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !shown || !shownMetrics) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    // Set canvas size for crisp rendering
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${height}px`;
+    ctx.scale(dpr, dpr);
+
+    // Clear canvas
+    ctx.fillStyle = '#171717'; // neutral-900
+    ctx.fillRect(0, 0, width, height);
+
+    // Two unit squares side by side: ROC on the left, precision-recall on the right
+    const padding = { left: 30, right: 10, top: 10, bottom: 28 };
+    const panelWidth = width / 2;
+    const size = Math.min(panelWidth - padding.left - padding.right, height - padding.top - padding.bottom);
+    const panel = (index: number) => {
+      const left = index * panelWidth + padding.left;
+      return {
+        x: (value: number) => left + value * size,
+        y: (value: number) => padding.top + (1 - value) * size
+      };
+    };
+    const roc = panel(0);
+    const pr = panel(1);
+    const point = operatingPoint(shownMetrics);
+
+    [roc, pr].forEach((scales, index) => {
+      // Frame and axis labels
+      ctx.strokeStyle = '#6b7280'; // neutral-500
+      ctx.lineWidth = 1;
+      ctx.strokeRect(scales.x(0), scales.y(1), size, size);
+
+      ctx.fillStyle = '#d1d5db'; // neutral-300
+      ctx.font = '10px monospace';
+      ctx.textAlign = 'center';
+      ctx.fillText(index === 0 ? 'false positive rate' : 'recall', scales.x(0.5), padding.top + size + 22);
+      ctx.fillText('0', scales.x(0), padding.top + size + 11);
+      ctx.fillText('1', scales.x(1), padding.top + size + 11);
+      ctx.textAlign = 'right';
+      ctx.fillText('1', scales.x(0) - 4, scales.y(1) + 8);
+      ctx.fillText('0', scales.x(0) - 4, scales.y(0));
+
+      ctx.save();
+      ctx.translate(scales.x(0) - 8, scales.y(0.5));
+      ctx.rotate(-Math.PI / 2);
+      ctx.textAlign = 'center';
+      ctx.fillText(index === 0 ? 'TPR' : 'precision', 0, 0);
+      ctx.restore();
+    });
+
+    // Chance levels: the diagonal for ROC, the positive share for PR
+    const positiveShare = shown.positives / (shown.positives + shown.negatives);
+    ctx.strokeStyle = '#374151'; // gray-700
+    ctx.setLineDash([4, 4]);
+    ctx.beginPath();
+    ctx.moveTo(roc.x(0), roc.y(0));
+    ctx.lineTo(roc.x(1), roc.y(1));
+    ctx.moveTo(pr.x(0), pr.y(positiveShare));
+    ctx.lineTo(pr.x(1), pr.y(positiveShare));
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    // Curves
+    ctx.strokeStyle = CURVE_COLOR;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    shown.roc.forEach((p, i) => {
+      if (i === 0) ctx.moveTo(roc.x(p.fpr), roc.y(p.tpr)); else ctx.lineTo(roc.x(p.fpr), roc.y(p.tpr));
+    });
+    ctx.stroke();
+    ctx.beginPath();
+    shown.pr.forEach((p, i) => {
+      if (i === 0) ctx.moveTo(pr.x(p.recall), pr.y(p.precision)); else ctx.lineTo(pr.x(p.recall), pr.y(p.precision));
+    });
+    ctx.stroke();
+
+    // Operating points at the current threshold
+    ctx.fillStyle = OPERATING_POINT_COLOR;
+    const marker = (x: number, y: number) => {
+      if (Number.isNaN(x) || Number.isNaN(y)) return;
+      ctx.beginPath();
+      ctx.arc(x, y, 4, 0, 2 * Math.PI);
+      ctx.fill();
+    };
+    marker(roc.x(point.fpr), roc.y(point.tpr));
+    marker(pr.x(point.tpr), pr.y(point.precision));
+
+  }, [shown, shownMetrics, width, height]);
+
+  const curvesHelp = (
+    <div className="space-y-3">
+      <div>
+        <strong className="text-blue-300">What are these curves?</strong>
+        <p>A binary model outputs a probability; the threshold decides above which probability a point is called class 1. Each curve sweeps the threshold from 1 down to 0.</p>
+      </div>
+
+      <div>
+        <strong className="text-orange-300">What you see:</strong>
+        <ul className="list-disc list-inside mt-1 space-y-1">
+          <li><strong>ROC (left):</strong> Share of class 1 found (TPR) against share of class 0 wrongly flagged (FPR). AUC is the chance that a random class 1 point scores higher than a random class 0 point - 0.5 is guessing, 1 is perfect</li>
+          <li><strong>Precision-recall (right):</strong> Of the points flagged, the share that really are class 1, against the share of class 1 found. AP averages precision over recall; the dashed line is the class 1 share, what guessing achieves</li>
+          <li><strong>Red dots:</strong> The current threshold - the same point on both curves</li>
+        </ul>
+      </div>
+
+      <div>
+        <strong className="text-green-300">Interpretation:</strong>
+        <ul className="list-disc list-inside mt-1 space-y-1">
+          <li><strong>Moving the threshold</strong> trades false positives for false negatives; the boundary on the plot and the confusion matrix follow it</li>
+          <li><strong>Imbalanced data:</strong> ROC can look great while precision is poor - the PR curve shows it</li>
+        </ul>
+      </div>
+    </div>
+  );
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-2">
+        <h3 className="text-sm font-medium text-neutral-200">ROC & Precision-Recall</h3>
+        <HelpTooltip
+          title="📈 ROC & PR Curves"
+          content={curvesHelp}
+          size="lg"
+        />
+        {shown && (
+          <span className="text-xs text-neutral-400">
+            AUC <span className="font-mono">{shown.auc.toFixed(3)}</span> · AP <span className="font-mono">{shown.averagePrecision.toFixed(3)}</span>
+          </span>
+        )}
+      </div>
+      <div className="flex items-center gap-3">
+        <TabBar tabs={tabs} active={shownSplit} onChange={setSplit} />
+        <label className="flex-1 flex items-center gap-2 mb-2 text-xs text-neutral-400">
+          Threshold
+          <input
+            type="range"
+            min={0.01}
+            max={0.99}
+            step={0.01}
+            value={threshold}
+            onChange={(e) => onThresholdChange(parseFloat(e.target.value))}
+            className="flex-1 h-2 bg-neutral-700 rounded-lg appearance-none cursor-pointer slider"
+          />
+          <span className="font-mono">{threshold.toFixed(2)}</span>
+        </label>
+      </div>
+      <canvas
+        ref={canvasRef}
+        className="border border-neutral-700 rounded bg-neutral-900"
+        style={{ width, height }}
+      />
+    </div>
+  );
+};
@@ -1,5 +1,13 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { ModelState } from '../utils/logisticRegression';
+import { CorruptionSummary } from '../utils/corruption';
+import { OutOfBagEstimates } from '../utils/bootstrap';
+import { ClassificationMetrics, SplitMetrics } from '../utils/metrics';
+import { coefficientInference, oddsRatio } from '../utils/inference';
+import { CrossValidationFold, SplitConfig, formatSplitRatios, summarizeFolds } from '../utils/splits';
+import { classColor } from './PlotCanvas';
+import { ConfusionMatrix } from './ConfusionMatrix';
+import { TabBar } from './TabBar';
 import { HelpTooltip, AITooltip, StatsAIAnalysis } from './HelpTooltip';
 
 interface StatsPanelProps {
@@ -9,18 +17,85 @@ interface StatsPanelProps {
     meanAccuracy: number;
     stdAccuracy: number;
     confidenceInterval: [number, number];
+    level: number; // Confidence level of the interval
+    outOfBag: OutOfBagEstimates | null; // Refit mode only
   };
+  confidenceLevel?: number; // Level of the Wald intervals
+  corruptionSummary?: CorruptionSummary; // Present when the data has flipped labels or outliers
+  metrics?: SplitMetrics | null; // Split metrics at the current threshold (defaults to the model's own)
+  threshold?: number; // Decision threshold the metrics use
+  splitConfig: SplitConfig; // The trained model's split (the current settings before training)
+  crossValidation?: CrossValidationFold[] | null;
+  isCrossValidating?: boolean;
   isDemoMode?: boolean;
 }
 
+// Feature weights listed individually; larger expansions are summarized
+const MAX_LISTED_WEIGHTS = 10;
+
+type MetricsSplit = keyof SplitMetrics;
+
+// Coefficient scale: the standardized features the model sees, or the original x₁, x₂
+type CoefficientScale = 'standardized' | 'original';
+
+const SCALE_LABELS: Record<CoefficientScale, string> = {
+  standardized: 'Standardized',
+  original: 'Original units'
+};
+
+const SPLIT_LABELS: Record<MetricsSplit, string> = {
+  train: 'Train',
+  val: 'Val',
+  test: 'Test'
+};
+
+// Summary scores listed for every split
+const SUMMARY_METRICS: { label: string; value: (metrics: ClassificationMetrics) => number; percent: boolean }[] = [
+  { label: 'Accuracy', value: metrics => metrics.accuracy, percent: true },
+  { label: 'Balanced acc.', value: metrics => metrics.balancedAccuracy, percent: true },
+  { label: 'Macro F1', value: metrics => metrics.macroF1, percent: true },
+  { label: 'Log loss', value: metrics => metrics.logLoss, percent: false },
+  { label: 'Brier', value: metrics => metrics.brier, percent: false }
+];
+
 export const StatsPanel: React.FC<StatsPanelProps> = ({
   model,
   datasetSize,
   uncertaintyStats,
+  confidenceLevel = 0.95,
+  corruptionSummary,
+  metrics,
+  threshold = 0.5,
+  splitConfig,
+  crossValidation,
+  isCrossValidating = false,
   isDemoMode = false
 }) => {
   const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+  const formatLevel = (level: number) => `${Math.round(level * 100)}%`;
   const formatNumber = (value: number, decimals: number = 3) => value.toFixed(decimals);
+  const formatClassAccuracy = (value: number) => (Number.isNaN(value) ? '–' : formatPercent(value));
+  const formatMetric = (value: number, percent: boolean) => {
+    if (Number.isNaN(value)) return '–';
+    return percent ? formatPercent(value) : formatNumber(value);
+  };
+  const [confusionSplit, setConfusionSplit] = useState<MetricsSplit>('val');
+  const foldSummary = crossValidation && crossValidation.length > 0 ? summarizeFolds(crossValidation) : null;
+  // Splits the model was scored on (the test split only when there is one)
+  const splitMetrics = metrics ?? model?.metrics;
+  const metricSplits = splitMetrics
+    ? (Object.keys(SPLIT_LABELS) as MetricsSplit[]).filter(split => splitMetrics[split] !== null)
+    : [];
+  const shownConfusionSplit = metricSplits.includes(confusionSplit) ? confusionSplit : 'val';
+  const [coefficientScale, setCoefficientScale] = useState<CoefficientScale>('standardized');
+  const inference = useMemo(() => (model ? coefficientInference(model, confidenceLevel) : null), [model, confidenceLevel]);
+  const coefficientScales = inference
+    ? (Object.keys(SCALE_LABELS) as CoefficientScale[]).filter(scale => inference[scale] !== null)
+    : [];
+  const shownScale = inference?.[coefficientScale] ? coefficientScale : 'standardized';
+  const coefficients = inference?.[shownScale] ?? null;
+  const formatPValue = (value: number) => (value < 0.001 ? '<0.001' : value.toFixed(3));
+  const formatInterval = ([lower, upper]: [number, number]) => `[${lower.toFixed(2)}, ${upper.toFixed(2)}]`;
 
   const statsHelp = (
     <div className="space-y-3">
@@ -30,6 +105,14 @@ export const StatsPanel: React.FC<StatsPanelProps> = ({
           <li><strong>Train Accuracy:</strong> How well the model fits the training data</li>
           <li><strong>Val Accuracy:</strong> How well it generalizes to new data</li>
           <li><strong>Gap:</strong> Large difference suggests overfitting</li>
+          <li><strong>Test Accuracy:</strong> Score on the held-out test split, which nothing was tuned on (only with a test share above 0)</li>
+          <li><strong>Balanced accuracy:</strong> Average of the per-class recalls - a model that ignores a rare class scores 50% with two classes, however high plain accuracy is</li>
+          <li><strong>Precision / recall / F1:</strong> Of the points predicted as a class, the share that really are; of the points in a class, the share found; and their harmonic mean</li>
+          <li><strong>Log loss / Brier:</strong> How good the probabilities are, not just the predicted classes - lower is better, and confident mistakes cost the most</li>
+          <li><strong>Confusion matrix:</strong> Rows are the true class, columns the predicted class; the diagonal (green) is correct</li>
+          <li><strong>Cross-validation:</strong> Validation accuracy of each of k refits, and their mean ± standard deviation</li>
+          <li><strong>Per-class accuracy:</strong> Share of each class's points classified correctly - reveals classes the model sacrifices</li>
+          <li><strong>Label noise & outliers:</strong> Accuracy against the clean labels, compared with a model trained on the clean data; "disagreement" is how many points the two boundaries classify differently</li>
         </ul>
       </div>
       
@@ -38,6 +121,10 @@ export const StatsPanel: React.FC<StatsPanelProps> = ({
         <ul className="list-disc list-inside mt-1 space-y-1">
           <li><strong>Bias (w₀):</strong> Shifts the decision boundary</li>
           <li><strong>Weights (w₁, w₂):</strong> Determine boundary slope and orientation</li>
+          <li><strong>SE, p and CI:</strong> Standard error from the curvature of the loss at the fitted weights (the inverse Fisher information), the Wald test of "this weight is 0" and the interval estimate ± z·SE, with z the normal quantile for the Confidence Level (1.96 at 95%). They assume the training converged; with a penalty they describe the penalized fit, and they ignore any L1 term</li>
+          <li><strong>Original units:</strong> The same model written in terms of the raw x₁, x₂ instead of the standardized features. The odds ratio e^w is how much the odds of class 1 multiply per unit step in a feature</li>
+          <li><strong>Expanded features:</strong> With polynomial or RBF features there is one weight per feature, named after the term it multiplies</li>
+          <li><strong>More than two classes:</strong> Softmax regression keeps a bias and a weight vector per class; the class with the highest score wins</li>
         </ul>
       </div>
       
@@ -45,8 +132,11 @@ export const StatsPanel: React.FC<StatsPanelProps> = ({
         <strong className="text-green-300">Uncertainty Analysis:</strong>
         <ul className="list-disc list-inside mt-1 space-y-1">
           <li><strong>Mean Accuracy:</strong> Average performance across bootstrap samples</li>
-          <li><strong>95% CI:</strong> Range where true accuracy likely lies</li>
+          <li><strong>CI:</strong> Percentile interval at the Confidence Level - the range where true accuracy likely lies</li>
           <li><strong>Std Deviation:</strong> Spread of accuracy estimates</li>
+          <li><strong>Why the mean is optimistic:</strong> In accuracy mode the fixed model is scored on resampled copies of points it was trained on, so the bootstrap mean stays close to the training accuracy</li>
+          <li><strong>Out-of-bag:</strong> With "Refit weights", each training point is scored only by the refits that never drew it (about 36.8% of them), which is pessimistic instead - each refit saw only ~63.2% of the distinct points</li>
+          <li><strong>.632 and .632+:</strong> .632 blends 0.368 × apparent (train) + 0.632 × out-of-bag accuracy. .632+ moves the weight toward out-of-bag when the gap between them is large relative to the no-information accuracy (labels and predictions unrelated), which corrects .632 for models that overfit</li>
         </ul>
       </div>
       
@@ -84,8 +174,10 @@ export const StatsPanel: React.FC<StatsPanelProps> = ({
               <span className="font-mono">{datasetSize}</span>
             </div>
             <div className="flex justify-between">
-              <span>Train/Val split:</span>
-              <span className="font-mono">80/20</span>
+              <span>Train/Val{splitConfig.testRatio > 0 ? '/Test' : ''} split:</span>
+              <span className="font-mono">
+                {formatSplitRatios(splitConfig)}{splitConfig.stratified ? ' (stratified)' : ''}
+              </span>
             </div>
           </div>
         </div>
@@ -107,6 +199,14 @@ export const StatsPanel: React.FC<StatsPanelProps> = ({
                   {formatPercent(model.valAccuracy)}
                 </span>
               </div>
+              {model.testAccuracy !== null && (
+                <div className="flex justify-between">
+                  <span>Test accuracy:</span>
+                  <span className="font-mono text-purple-400">
+                    {formatPercent(model.testAccuracy)}
+                  </span>
+                </div>
+              )}
               <div className="flex justify-between">
                 <span>Final loss:</span>
                 <span className="font-mono">
@@ -117,27 +217,213 @@ export const StatsPanel: React.FC<StatsPanelProps> = ({
           </div>
         )}
 
-        {/* Model Parameters */}
-        {model && (
+        {/* Scores of every split */}
+        {splitMetrics && (
           <div>
-            <h4 className="text-neutral-300 font-medium mb-2">Parameters</h4>
+            <h4 className="text-neutral-300 font-medium mb-2">
+              Metrics{threshold !== 0.5 && <span className="text-neutral-500 font-normal"> at p ≥ {threshold.toFixed(2)}</span>}
+            </h4>
+            <div className="grid gap-x-2 gap-y-1 text-neutral-400" style={{ gridTemplateColumns: `1fr repeat(${metricSplits.length}, auto)` }}>
+              <span className="text-xs text-neutral-500">Metric</span>
+              {metricSplits.map(split => (
+                <span key={split} className="text-xs text-neutral-500 text-right font-mono">{SPLIT_LABELS[split].toLowerCase()}</span>
+              ))}
+              {SUMMARY_METRICS.map(metric => (
+                <React.Fragment key={metric.label}>
+                  <span>{metric.label}:</span>
+                  {metricSplits.map(split => (
+                    <span key={split} className="font-mono text-right">
+                      {formatMetric(metric.value(splitMetrics[split]!), metric.percent)}
+                    </span>
+                  ))}
+                </React.Fragment>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Confusion matrix of one split */}
+        {splitMetrics && (
+          <div>
+            <h4 className="text-neutral-300 font-medium mb-2">Confusion Matrix</h4>
+            <TabBar
+              tabs={metricSplits.map(split => ({ id: split, label: SPLIT_LABELS[split] }))}
+              active={shownConfusionSplit}
+              onChange={setConfusionSplit}
+            />
+            <ConfusionMatrix metrics={splitMetrics[shownConfusionSplit]!} />
+          </div>
+        )}
+
+        {/* k-fold cross-validation */}
+        {(foldSummary || isCrossValidating) && (
+          <div>
+            <h4 className="text-neutral-300 font-medium mb-2">Cross-validation</h4>
+            {crossValidation && foldSummary ? (
+              <div className="space-y-1 text-neutral-400">
+                <div className="flex justify-between text-xs text-neutral-500">
+                  <span>Fold</span>
+                  <span className="font-mono">train / val</span>
+                </div>
+                {crossValidation.map((fold, f) => (
+                  <div key={f} className="flex justify-between">
+                    <span>Fold {f + 1}</span>
+                    <span className="font-mono">
+                      {formatPercent(fold.trainAccuracy)} / {formatPercent(fold.valAccuracy)}
+                    </span>
+                  </div>
+                ))}
+                <div className="flex justify-between">
+                  <span>Val accuracy ({crossValidation.length}-fold):</span>
+                  <span className="font-mono text-blue-400">
+                    {formatPercent(foldSummary.mean)} ± {formatPercent(foldSummary.std)}
+                  </span>
+                </div>
+              </div>
+            ) : (
+              <div className="text-neutral-500">Fitting folds…</div>
+            )}
+          </div>
+        )}
+
+        {/* Damage done by label noise and outliers */}
+        {corruptionSummary && (
+          <div>
+            <h4 className="text-neutral-300 font-medium mb-2">Label Noise & Outliers</h4>
             <div className="space-y-1 text-neutral-400">
               <div className="flex justify-between">
-                <span>Bias (w₀):</span>
-                <span className="font-mono">{formatNumber(model.weights[0])}</span>
+                <span>Flipped / outliers:</span>
+                <span className="font-mono">
+                  {corruptionSummary.flipped} / {corruptionSummary.outliers}
+                </span>
               </div>
               <div className="flex justify-between">
-                <span>Weight 1 (w₁):</span>
-                <span className="font-mono">{formatNumber(model.weights[1])}</span>
+                <span>Accuracy on clean data:</span>
+                <span className="font-mono text-orange-300">
+                  {formatPercent(corruptionSummary.cleanAccuracy)}
+                </span>
               </div>
               <div className="flex justify-between">
-                <span>Weight 2 (w₂):</span>
-                <span className="font-mono">{formatNumber(model.weights[2])}</span>
+                <span>Clean-trained model:</span>
+                <span className="font-mono text-green-400">
+                  {corruptionSummary.referenceAccuracy !== null ? formatPercent(corruptionSummary.referenceAccuracy) : '…'}
+                </span>
+              </div>
+              {corruptionSummary.referenceAccuracy !== null && (
+                <div className="flex justify-between">
+                  <span>Accuracy lost:</span>
+                  <span className="font-mono text-red-400">
+                    {formatPercent(corruptionSummary.referenceAccuracy - corruptionSummary.cleanAccuracy)}
+                  </span>
+                </div>
+              )}
+              {corruptionSummary.disagreement !== null && (
+                <div className="flex justify-between">
+                  <span>Boundary disagreement:</span>
+                  <span className="font-mono">{formatPercent(corruptionSummary.disagreement)}</span>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Per-class Accuracy */}
+        {model && (
+          <div>
+            <h4 className="text-neutral-300 font-medium mb-2">Per-class Accuracy</h4>
+            <div className="space-y-1 text-neutral-400">
+              <div className="flex justify-between text-xs text-neutral-500">
+                <span>Class</span>
+                <span className="font-mono">train / val</span>
+              </div>
+              {model.classAccuracies.train.map((trainAccuracy, c) => (
+                <div key={c} className="flex justify-between">
+                  <span className="flex items-center gap-2">
+                    <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: classColor(c) }} />
+                    Class {c}
+                  </span>
+                  <span className="font-mono">
+                    {formatClassAccuracy(trainAccuracy)} / {formatClassAccuracy(model.classAccuracies.val[c])}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Model Parameters */}
+        {model && model.numClasses > 2 && (
+          <div>
+            <h4 className="text-neutral-300 font-medium mb-2">Parameters (softmax)</h4>
+            <div className="space-y-1 text-neutral-400">
+              {Array.from({ length: model.numClasses }, (_, c) => (
+                <div key={c} className="flex justify-between">
+                  <span>Class {c} bias:</span>
+                  <span className="font-mono">{formatNumber(model.weights[c * (model.featureMap.dim + 1)])}</span>
+                </div>
+              ))}
+              <div className="text-xs text-neutral-500">
+                {model.numClasses} × {model.featureMap.dim} feature weights, one block per class
               </div>
             </div>
           </div>
         )}
 
+        {model && model.numClasses === 2 && coefficients && (
+          <div>
+            <h4 className="text-neutral-300 font-medium mb-2">Parameters</h4>
+            {coefficientScales.length > 1 && (
+              <TabBar
+                tabs={coefficientScales.map(scale => ({ id: scale, label: SCALE_LABELS[scale] }))}
+                active={shownScale}
+                onChange={setCoefficientScale}
+              />
+            )}
+            <div className="grid gap-x-2 gap-y-1 text-neutral-400" style={{ gridTemplateColumns: '1fr repeat(3, auto)' }}>
+              <span className="text-xs text-neutral-500">Coef.</span>
+              <span className="text-xs text-neutral-500 text-right font-mono">est. ± SE</span>
+              <span className="text-xs text-neutral-500 text-right font-mono">p</span>
+              <span className="text-xs text-neutral-500 text-right font-mono">{formatLevel(confidenceLevel)} CI</span>
+              {coefficients.slice(0, MAX_LISTED_WEIGHTS + 1).map((coefficient, j) => (
+                <React.Fragment key={coefficient.name}>
+                  <span>{j === 0 ? 'Bias (w₀)' : `w${j} (${coefficient.name})`}:</span>
+                  <span className="font-mono text-right">
+                    {formatNumber(coefficient.estimate)} ± {formatNumber(coefficient.se)}
+                  </span>
+                  <span className={`font-mono text-right ${coefficient.pValue < 0.05 ? 'text-green-400' : ''}`}>
+                    {formatPValue(coefficient.pValue)}
+                  </span>
+                  <span className="font-mono text-right">{formatInterval([coefficient.lower, coefficient.upper])}</span>
+                </React.Fragment>
+              ))}
+            </div>
+            {model.featureMap.dim > MAX_LISTED_WEIGHTS && (
+              <div className="text-xs text-neutral-500">
+                … {model.featureMap.dim - MAX_LISTED_WEIGHTS} more of {model.featureMap.dim} feature weights
+              </div>
+            )}
+            {shownScale === 'original' && (
+              <div className="space-y-1 mt-2 text-neutral-400">
+                <div className="flex justify-between text-xs text-neutral-500">
+                  <span>Odds ratio per unit</span>
+                  <span className="font-mono">e^w ({formatLevel(confidenceLevel)} CI)</span>
+                </div>
+                {coefficients.slice(1).map(coefficient => {
+                  const ratio = oddsRatio(coefficient);
+                  return (
+                    <div key={coefficient.name} className="flex justify-between">
+                      <span>{coefficient.name}:</span>
+                      <span className="font-mono">
+                        {formatNumber(ratio.value)} {formatInterval([ratio.lower, ratio.upper])}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Uncertainty Statistics */}
         {uncertaintyStats && (
           <div>
@@ -156,18 +442,45 @@ export const StatsPanel: React.FC<StatsPanelProps> = ({
                 </span>
               </div>
               <div className="flex justify-between">
-                <span>95% CI lower:</span>
+                <span>{formatLevel(uncertaintyStats.level)} CI lower:</span>
                 <span className="font-mono text-red-400">
                   {formatPercent(uncertaintyStats.confidenceInterval[0])}
                 </span>
               </div>
               <div className="flex justify-between">
-                <span>95% CI upper:</span>
+                <span>{formatLevel(uncertaintyStats.level)} CI upper:</span>
                 <span className="font-mono text-red-400">
                   {formatPercent(uncertaintyStats.confidenceInterval[1])}
                 </span>
               </div>
             </div>
+            {uncertaintyStats.outOfBag ? (
+              <div className="space-y-1 mt-2 text-neutral-400">
+                <div className="flex justify-between">
+                  <span>Apparent (train):</span>
+                  <span className="font-mono">{formatPercent(uncertaintyStats.outOfBag.apparent)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Out-of-bag:</span>
+                  <span className="font-mono">{formatPercent(uncertaintyStats.outOfBag.outOfBag)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>.632 estimate:</span>
+                  <span className="font-mono">{formatPercent(uncertaintyStats.outOfBag.estimate632)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>.632+ estimate:</span>
+                  <span className="font-mono text-green-400">{formatPercent(uncertaintyStats.outOfBag.estimate632Plus)}</span>
+                </div>
+                <div className="text-xs text-neutral-500">
+                  No-information accuracy {formatPercent(uncertaintyStats.outOfBag.noInformation)} · relative overfitting R = {formatNumber(uncertaintyStats.outOfBag.relativeOverfitting, 2)}
+                </div>
+              </div>
+            ) : (
+              <div className="text-xs text-neutral-500 mt-2">
+                Out-of-bag and .632+ estimates need Bootstrap Mode "Refit weights"
+              </div>
+            )}
           </div>
         )}
 
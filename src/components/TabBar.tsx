@@ -0,0 +1,26 @@
+import React from 'react';
+
+interface TabBarProps<T extends string> {
+  tabs: { id: T; label: string }[];
+  active: T;
+  onChange: (id: T) => void;
+}
+
+// Compact pill tabs for switching between analysis views
+export const TabBar = <T extends string>({ tabs, active, onChange }: TabBarProps<T>) => (
+  <div className="flex gap-1 mb-2">
+    {tabs.map(tab => (
+      <button
+        key={tab.id}
+        onClick={() => onChange(tab.id)}
+        className={`px-2 py-1 text-xs rounded transition-colors ${
+          tab.id === active
+            ? 'bg-neutral-700 text-neutral-100'
+            : 'bg-neutral-900 text-neutral-400 hover:bg-neutral-800'
+        }`}
+      >
+        {tab.label}
+      </button>
+    ))}
+  </div>
+);
@@ -1,167 +1,350 @@
-import { useCallback, useRef, useEffect } from 'react';
-import { DataPoint } from '../utils/dataGenerator';
+import { useCallback, useRef, useEffect, useMemo } from 'react';
+import { DataPoint, GeneratorConfig } from '../utils/dataGenerator';
 import { ModelConfig, ModelState } from '../utils/logisticRegression';
+import { OptimizerCurve, OptimizerType } from '../utils/optimizers';
+import { RegularizationPathPoint } from '../utils/regularization';
+import { CrossValidationFold } from '../utils/splits';
+import { BootstrapMode, BootstrapRefits, MethodIntervals } from '../utils/bootstrap';
+import { Posterior, PosteriorMethod } from '../utils/bayesian';
+import { BiasVariancePoint, BiasVarianceSweep } from '../utils/biasVariance';
+import { JobType, WorkerRequest, WorkerResponse } from '../workers/messages';
 
 interface TrainingWorkerHook {
-  trainModel: (points: DataPoint[], config: ModelConfig, seed?: number) => void;
-  runRepeatTraining: (points: DataPoint[], config: ModelConfig, numRuns: number, seed?: number) => void;
-  runBootstrap: (points: DataPoint[], weights: Float32Array, meanX: Float32Array, stdX: Float32Array, numSamples: number, seed?: number) => void;
-  cancelCurrentJob: () => void;
+  trainModel: (points: DataPoint[], config: ModelConfig, startPaused?: boolean) => number | null;
+  runRepeatTraining: (points: DataPoint[], config: ModelConfig, numRuns: number) => number | null;
+  runBootstrap: (points: DataPoint[], model: ModelState, mode: BootstrapMode, numSamples: number, level: number, seed: number) => number | null;
+  runCompareOptimizers: (points: DataPoint[], config: ModelConfig, optimizers: OptimizerType[]) => number | null;
+  runRegularizationPath: (points: DataPoint[], config: ModelConfig, lambdas: number[]) => number | null;
+  runCrossValidation: (points: DataPoint[], config: ModelConfig) => number | null;
+  runPosterior: (points: DataPoint[], model: ModelState, method: PosteriorMethod, numSamples: number, seed: number) => number | null;
+  runBiasVariance: (dataConfig: GeneratorConfig, modelConfig: ModelConfig, sweep: BiasVarianceSweep, values: number[], numDatasets: number, seed: number) => number | null;
+  pauseJob: (jobId: number) => void;
+  resumeJob: (jobId: number) => void;
+  stepJob: (jobId: number) => void;
+  cancelJob: (jobId: number) => void;
+  cancelAllJobs: () => void;
 }
 
 interface UseTrainingWorkerProps {
-  onTrainingProgress?: (epoch: number, loss: number, trainAcc: number, valAcc: number) => void;
-  onTrainingComplete?: (result: ModelState) => void;
+  // Completion callbacks get the job ID, so results of superseded jobs can be
+  // told apart (training progress too, since several training jobs can run at once)
+  onTrainingProgress?: (epoch: number, loss: number, trainAcc: number, valAcc: number, jobId: number) => void;
+  onTrainingPaused?: (result: ModelState, epoch: number, jobId: number) => void;
+  onTrainingComplete?: (result: ModelState, jobId: number) => void;
   onRepeatProgress?: (completed: number, total: number) => void;
-  onRepeatComplete?: (results: ModelState[]) => void;
+  onRepeatComplete?: (results: ModelState[], jobId: number) => void;
   onBootstrapProgress?: (completed: number, total: number) => void;
-  onBootstrapComplete?: (accuracies: number[], confidenceInterval: [number, number]) => void;
-  onError?: (error: string) => void;
+  onBootstrapComplete?: (accuracies: number[], confidenceInterval: [number, number], intervals: MethodIntervals, refits: BootstrapRefits | null, jobId: number) => void;
+  onCompareProgress?: (completed: number, total: number) => void;
+  onCompareComplete?: (curves: OptimizerCurve[], jobId: number) => void;
+  onPathProgress?: (completed: number, total: number) => void;
+  onPathComplete?: (path: RegularizationPathPoint[], featureNames: string[], jobId: number) => void;
+  onCrossValidationProgress?: (completed: number, total: number) => void;
+  onCrossValidationComplete?: (folds: CrossValidationFold[], jobId: number) => void;
+  onPosteriorProgress?: (completed: number, total: number) => void;
+  onPosteriorComplete?: (posterior: Posterior, jobId: number) => void;
+  onBiasVarianceProgress?: (completed: number, total: number) => void;
+  onBiasVarianceComplete?: (results: BiasVariancePoint[], jobId: number) => void;
+  onError?: (error: string, jobId: number, job: JobType) => void;
 }
 
-export const useTrainingWorker = ({
-  onTrainingProgress,
-  onTrainingComplete,
-  onRepeatProgress,
-  onRepeatComplete,
-  onBootstrapProgress,
-  onBootstrapComplete,
-  onError
-}: UseTrainingWorkerProps): TrainingWorkerHook => {
+export const useTrainingWorker = (callbacks: UseTrainingWorkerProps): TrainingWorkerHook => {
   const workerRef = useRef<Worker | null>(null);
-  const currentJobRef = useRef<string | null>(null);
+  // IDs of jobs that are queued, running or paused in the worker
+  const jobsRef = useRef<Set<number>>(new Set());
+  const nextJobIdRef = useRef(1);
+
+  // Keep the latest callbacks without recreating the worker on every render
+  const callbacksRef = useRef(callbacks);
+  callbacksRef.current = callbacks;
 
   // Initialize worker
   useEffect(() => {
-    workerRef.current = new Worker(`${process.env.PUBLIC_URL}/training-worker.js`);
-    
-    workerRef.current.onmessage = (e) => {
-      const { type, ...data } = e.data;
-      
-      switch (type) {
-        case 'progress':
-          if (currentJobRef.current === 'training' && onTrainingProgress) {
-            onTrainingProgress(data.epoch, data.loss, data.trainAccuracy, data.valAccuracy);
+    const jobs = jobsRef.current;
+    const worker = new Worker(new URL('../workers/trainingWorker.ts', import.meta.url));
+
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      const message = e.data;
+      // Ignore messages from cancelled or unknown jobs
+      if (!jobs.has(message.jobId)) return;
+
+      const {
+        onTrainingProgress,
+        onTrainingPaused,
+        onTrainingComplete,
+        onRepeatProgress,
+        onRepeatComplete,
+        onBootstrapProgress,
+        onBootstrapComplete,
+        onCompareProgress,
+        onCompareComplete,
+        onPathProgress,
+        onPathComplete,
+        onCrossValidationProgress,
+        onCrossValidationComplete,
+        onPosteriorProgress,
+        onPosteriorComplete,
+        onBiasVarianceProgress,
+        onBiasVarianceComplete,
+        onError
+      } = callbacksRef.current;
+
+      if (message.type === 'complete' || message.type === 'error') {
+        jobs.delete(message.jobId);
+      }
+
+      if (message.type === 'error') {
+        if (onError) {
+          onError(message.error, message.jobId, message.job);
+        }
+        return;
+      }
+
+      switch (message.job) {
+        case 'train':
+          if (message.type === 'progress') {
+            onTrainingProgress?.(message.epoch, message.loss, message.trainAccuracy, message.valAccuracy, message.jobId);
+          } else if (message.type === 'paused') {
+            onTrainingPaused?.(message.result, message.epoch, message.jobId);
+          } else {
+            onTrainingComplete?.(message.result, message.jobId);
           }
           break;
-          
-        case 'complete':
-          if (currentJobRef.current === 'training' && onTrainingComplete) {
-            onTrainingComplete(data.result);
+
+        case 'repeatTraining':
+          if (message.type === 'progress') {
+            onRepeatProgress?.(message.completed, message.total);
+          } else {
+            onRepeatComplete?.(message.results, message.jobId);
           }
-          currentJobRef.current = null;
           break;
-          
-        case 'repeatProgress':
-          if (currentJobRef.current === 'repeat' && onRepeatProgress) {
-            onRepeatProgress(data.completed, data.total);
+
+        case 'bootstrap':
+          if (message.type === 'progress') {
+            onBootstrapProgress?.(message.completed, message.total);
+          } else {
+            onBootstrapComplete?.(message.accuracies, message.confidenceInterval, message.intervals, message.refits, message.jobId);
           }
           break;
-          
-        case 'repeatComplete':
-          if (currentJobRef.current === 'repeat' && onRepeatComplete) {
-            onRepeatComplete(data.results);
+
+        case 'compareOptimizers':
+          if (message.type === 'progress') {
+            onCompareProgress?.(message.completed, message.total);
+          } else {
+            onCompareComplete?.(message.curves, message.jobId);
+          }
+          break;
+
+        case 'regularizationPath':
+          if (message.type === 'progress') {
+            onPathProgress?.(message.completed, message.total);
+          } else {
+            onPathComplete?.(message.path, message.featureNames, message.jobId);
           }
-          currentJobRef.current = null;
           break;
-          
-        case 'bootstrapProgress':
-          if (currentJobRef.current === 'bootstrap' && onBootstrapProgress) {
-            onBootstrapProgress(data.completed, data.total);
+
+        case 'crossValidation':
+          if (message.type === 'progress') {
+            onCrossValidationProgress?.(message.completed, message.total);
+          } else {
+            onCrossValidationComplete?.(message.folds, message.jobId);
           }
           break;
-          
-        case 'bootstrapComplete':
-          if (currentJobRef.current === 'bootstrap' && onBootstrapComplete) {
-            onBootstrapComplete(data.accuracies, data.confidenceInterval);
+
+        case 'posterior':
+          if (message.type === 'progress') {
+            onPosteriorProgress?.(message.completed, message.total);
+          } else {
+            onPosteriorComplete?.(message.posterior, message.jobId);
           }
-          currentJobRef.current = null;
           break;
-          
-        case 'error':
-          if (onError) {
-            onError(data.error);
+
+        case 'biasVariance':
+          if (message.type === 'progress') {
+            onBiasVarianceProgress?.(message.completed, message.total);
+          } else {
+            onBiasVarianceComplete?.(message.results, message.jobId);
           }
-          currentJobRef.current = null;
           break;
       }
     };
 
+    workerRef.current = worker;
+
     return () => {
-      if (workerRef.current) {
-        workerRef.current.terminate();
-      }
+      worker.terminate();
+      workerRef.current = null;
+      jobs.clear();
     };
-  }, [onTrainingProgress, onTrainingComplete, onRepeatProgress, onRepeatComplete, onBootstrapProgress, onBootstrapComplete, onError]);
+  }, []);
+
+  const post = useCallback((request: WorkerRequest) => {
+    workerRef.current?.postMessage(request);
+  }, []);
+
+  const submitJob = useCallback((createRequest: (jobId: number) => WorkerRequest): number | null => {
+    if (!workerRef.current) return null;
 
-  const trainModel = useCallback((points: DataPoint[], config: ModelConfig, seed?: number) => {
-    if (!workerRef.current) return;
-    
-    currentJobRef.current = 'training';
-    workerRef.current.postMessage({
+    const jobId = nextJobIdRef.current++;
+    jobsRef.current.add(jobId);
+    post(createRequest(jobId));
+    return jobId;
+  }, [post]);
+
+  const trainModel = useCallback((points: DataPoint[], config: ModelConfig, startPaused: boolean = false) => {
+    return submitJob(jobId => ({
       type: 'train',
+      jobId,
       data: {
         points,
         modelConfig: config,
-        seed: seed || Date.now()
+        startPaused
       }
-    });
-  }, []);
+    }));
+  }, [submitJob]);
 
-  const runRepeatTraining = useCallback((points: DataPoint[], config: ModelConfig, numRuns: number, seed?: number) => {
-    if (!workerRef.current) return;
-    
-    currentJobRef.current = 'repeat';
-    workerRef.current.postMessage({
+  const runRepeatTraining = useCallback((points: DataPoint[], config: ModelConfig, numRuns: number) => {
+    return submitJob(jobId => ({
       type: 'repeatTraining',
+      jobId,
       data: {
         points,
         modelConfig: config,
-        numRuns,
-        seed: seed || Date.now()
+        numRuns
       }
-    });
-  }, []);
+    }));
+  }, [submitJob]);
 
   const runBootstrap = useCallback((
-    points: DataPoint[], 
-    weights: Float32Array, 
-    meanX: Float32Array, 
-    stdX: Float32Array, 
-    numSamples: number, 
-    seed?: number
+    points: DataPoint[],
+    model: ModelState,
+    mode: BootstrapMode,
+    numSamples: number,
+    level: number,
+    seed: number
   ) => {
-    if (!workerRef.current) return;
-    
-    currentJobRef.current = 'bootstrap';
-    workerRef.current.postMessage({
+    return submitJob(jobId => ({
       type: 'bootstrap',
+      jobId,
       data: {
         points,
-        modelWeights: weights,
-        meanX,
-        stdX,
+        model,
+        mode,
         numSamples,
-        seed: seed || Date.now()
+        level,
+        seed
       }
-    });
-  }, []);
+    }));
+  }, [submitJob]);
 
-  const cancelCurrentJob = useCallback(() => {
-    if (workerRef.current && currentJobRef.current) {
-      workerRef.current.terminate();
-      workerRef.current = new Worker(`${process.env.PUBLIC_URL}/training-worker.js`);
-      currentJobRef.current = null;
-      
-      // Re-setup message handler (same logic as in useEffect)
-      // We would need to duplicate the message handler logic here
-    }
-  }, []);
+  const runCompareOptimizers = useCallback((points: DataPoint[], config: ModelConfig, optimizers: OptimizerType[]) => {
+    return submitJob(jobId => ({
+      type: 'compareOptimizers',
+      jobId,
+      data: {
+        points,
+        modelConfig: config,
+        optimizers
+      }
+    }));
+  }, [submitJob]);
+
+  const runRegularizationPath = useCallback((points: DataPoint[], config: ModelConfig, lambdas: number[]) => {
+    return submitJob(jobId => ({
+      type: 'regularizationPath',
+      jobId,
+      data: {
+        points,
+        modelConfig: config,
+        lambdas
+      }
+    }));
+  }, [submitJob]);
+
+  const runCrossValidation = useCallback((points: DataPoint[], config: ModelConfig) => {
+    return submitJob(jobId => ({
+      type: 'crossValidation',
+      jobId,
+      data: {
+        points,
+        modelConfig: config
+      }
+    }));
+  }, [submitJob]);
+
+  const runPosterior = useCallback((
+    points: DataPoint[],
+    model: ModelState,
+    method: PosteriorMethod,
+    numSamples: number,
+    seed: number
+  ) => {
+    return submitJob(jobId => ({
+      type: 'posterior',
+      jobId,
+      data: {
+        points,
+        model,
+        method,
+        numSamples,
+        seed
+      }
+    }));
+  }, [submitJob]);
+
+  const runBiasVariance = useCallback((
+    dataConfig: GeneratorConfig,
+    modelConfig: ModelConfig,
+    sweep: BiasVarianceSweep,
+    values: number[],
+    numDatasets: number,
+    seed: number
+  ) => {
+    return submitJob(jobId => ({
+      type: 'biasVariance',
+      jobId,
+      data: {
+        dataConfig,
+        modelConfig,
+        sweep,
+        values,
+        numDatasets,
+        seed
+      }
+    }));
+  }, [submitJob]);
+
+  const controlJob = useCallback((type: 'pause' | 'resume' | 'step', jobId: number) => {
+    if (!jobsRef.current.has(jobId)) return;
+    post({ type, jobId });
+  }, [post]);
+
+  const pauseJob = useCallback((jobId: number) => controlJob('pause', jobId), [controlJob]);
+  const resumeJob = useCallback((jobId: number) => controlJob('resume', jobId), [controlJob]);
+  const stepJob = useCallback((jobId: number) => controlJob('step', jobId), [controlJob]);
+
+  const cancelJob = useCallback((jobId: number) => {
+    if (!jobsRef.current.delete(jobId)) return;
+    post({ type: 'cancel', jobId });
+  }, [post]);
+
+  const cancelAllJobs = useCallback(() => {
+    Array.from(jobsRef.current.keys()).forEach(jobId => cancelJob(jobId));
+  }, [cancelJob]);
 
-  return {
+  return useMemo(() => ({
     trainModel,
     runRepeatTraining,
     runBootstrap,
-    cancelCurrentJob
-  };
+    runCompareOptimizers,
+    runRegularizationPath,
+    runCrossValidation,
+    runPosterior,
+    runBiasVariance,
+    pauseJob,
+    resumeJob,
+    stepJob,
+    cancelJob,
+    cancelAllJobs
+  }), [trainModel, runRepeatTraining, runBootstrap, runCompareOptimizers, runRegularizationPath, runCrossValidation, runPosterior, runBiasVariance, pauseJob, resumeJob, stepJob, cancelJob, cancelAllJobs]);
 };
@@ -0,0 +1,100 @@
+import { expect, test } from '@jest/globals';
+import { createChain, logPosterior, metropolisStep, posteriorModeConfig, posteriorSummary, priorPrecision, sampleGaussian } from './bayesian';
+import { DEMO_CONFIG } from './demo';
+import { choleskyDecomposition, invertMatrix } from './linalg';
+import { calculateCovariance, createCheckpoint, pointsToArrays, trainLogisticRegression } from './logisticRegression';
+import { SeededRandom } from './random';
+
+// 120 points on a 2 × 2 design whose class-1 share depends on both inputs
+const points = Array.from({ length: 120 }, (_, i) => {
+  const x = i % 4 < 2 ? -1 : 1;
+  const y = i % 2 === 0 ? -1 : 1;
+  return { x, y, label: (i * 7) % 10 < 3 + 2 * x + y ? 1 : 0 };
+});
+const data = pointsToArrays(points);
+const lambda = 0.05;
+
+function mapFit() {
+  const config = posteriorModeConfig({ ...DEMO_CONFIG.modelConfig, lambda });
+  return trainLogisticRegression(data, data, config, undefined, createCheckpoint(new SeededRandom(1), data.d, data.k));
+}
+
+test('the prior precision makes n times the loss the negative log posterior', () => {
+  expect(priorPrecision(0.01, 640)).toBeCloseTo(12.8, 12);
+  expect(posteriorModeConfig(DEMO_CONFIG.modelConfig)).toMatchObject({
+    penalty: { type: 'l2' },
+    optimizer: { type: 'newton' },
+    earlyStopping: { enabled: false },
+    classWeighting: 'none'
+  });
+});
+
+test('the Laplace covariance inverts the curvature of the log posterior at its mode', () => {
+  const { weights, covariance } = mapFit();
+  const size = weights.length;
+  const precision = invertMatrix(Float64Array.from(covariance!), size);
+
+  // Fisher information of the likelihood plus τ on each feature weight
+  const fisher = invertMatrix(calculateCovariance(weights, data, 0)!, size);
+  const tau = priorPrecision(lambda, data.n);
+  for (let u = 0; u < size; u++) {
+    for (let v = 0; v < size; v++) {
+      expect(precision[u * size + v]).toBeCloseTo(fisher[u * size + v] + (u === v && u > 0 ? tau : 0), 6);
+    }
+  }
+
+  // The same curvature by finite differences of the log posterior
+  const h = 0.01;
+  const at = (du: number, dv: number, u: number, v: number) => {
+    const shifted = Float32Array.from(weights);
+    shifted[u] += du;
+    shifted[v] += dv;
+    return logPosterior(shifted, data, lambda);
+  };
+  for (let u = 0; u < size; u++) {
+    // The mode is a stationary point
+    expect((at(h, 0, u, u) - at(-h, 0, u, u)) / (2 * h)).toBeCloseTo(0, 2);
+    for (let v = 0; v < size; v++) {
+      const curvature = (at(h, h, u, v) - at(h, -h, u, v) - at(-h, h, u, v) + at(-h, -h, u, v)) / (4 * h * h);
+      expect(-curvature).toBeCloseTo(precision[u * size + v], 1);
+    }
+  }
+});
+
+test('Gaussian draws have the requested mean and covariance', () => {
+  const covariance = Float64Array.from([4, 1.2, 1.2, 1]);
+  const cholesky = choleskyDecomposition(covariance, 2);
+  const rng = new SeededRandom(3);
+  const samples = Array.from({ length: 20000 }, () => sampleGaussian([1, -2], cholesky, rng));
+
+  const [first, second] = posteriorSummary(samples, 0.95);
+  expect(first.mean).toBeCloseTo(1, 1);
+  expect(second.mean).toBeCloseTo(-2, 1);
+  expect(first.sd).toBeCloseTo(2, 1);
+  expect(second.sd).toBeCloseTo(1, 1);
+  expect(first.lower).toBeCloseTo(1 - 1.96 * 2, 0);
+  const correlation = samples.reduce((sum, [a, b]) => sum + (a - first.mean) * (b - second.mean), 0) / samples.length / (first.sd * second.sd);
+  expect(correlation).toBeCloseTo(0.6, 1);
+});
+
+test('the Metropolis chain explores the posterior around the mode', () => {
+  const { weights, covariance } = mapFit();
+  const cholesky = choleskyDecomposition(Float64Array.from(covariance!), weights.length);
+  const chain = createChain(weights, data, lambda);
+  const rng = new SeededRandom(4);
+  const samples: number[][] = [];
+  for (let i = 0; i < 20000; i++) {
+    metropolisStep(chain, data, lambda, cholesky, rng);
+    if (i >= 1000 && i % 5 === 0) samples.push(Array.from(chain.weights));
+  }
+
+  const acceptance = chain.accepted / chain.proposed;
+  expect(acceptance).toBeGreaterThan(0.15);
+  expect(acceptance).toBeLessThan(0.5);
+  posteriorSummary(samples, 0.95).forEach((summary, j) => {
+    const sd = Math.sqrt(covariance![j * weights.length + j]);
+    expect(Math.abs(summary.mean - weights[j])).toBeLessThan(0.5 * sd);
+    expect(summary.sd / sd).toBeGreaterThan(0.8);
+    expect(summary.sd / sd).toBeLessThan(1.25);
+  });
+});
@@ -0,0 +1,129 @@
+// Bayesian logistic regression for binary models: a Gaussian prior on the
+// feature weights whose precision ties to λ, the Laplace approximation of the
+// posterior around its mode, and a random-walk Metropolis sampler
+import { SeededRandom } from './random';
+import { ModelConfig, TrainingData, calculateLoss } from './logisticRegression';
+import { PenaltyConfig } from './regularization';
+import { quantile } from './bootstrap';
+
+// How posterior draws are made: from the Laplace Gaussian, or by Metropolis
+// steps on the exact posterior (proposals shaped by the Laplace covariance)
+export type PosteriorMethod = 'laplace' | 'metropolis';
+
+export const POSTERIOR_METHOD_LABELS: Record<PosteriorMethod, string> = {
+  laplace: 'Laplace approximation',
+  metropolis: 'Metropolis sampler'
+};
+
+export interface Posterior {
+  method: PosteriorMethod;
+  mode: number[]; // Posterior mode (MAP weights)
+  covariance: number[]; // Laplace: inverse Hessian of the negative log posterior at the mode
+  samples: number[][]; // Weight vectors drawn from the posterior
+  acceptanceRate: number | null; // Metropolis only
+  priorPrecision: number; // τ of the N(0, 1/τ) prior on each feature weight (the bias has a flat prior)
+}
+
+// Summary of one coefficient's posterior samples
+export interface CoefficientPosterior {
+  mean: number;
+  sd: number;
+  lower: number; // Equal-tailed credible interval at the requested level
+  upper: number;
+}
+
+// Penalty of the MAP fit: the L2 term is the negative log of the Gaussian prior
+const PRIOR_PENALTY: PenaltyConfig = { type: 'l2', alpha: 0 };
+
+// Newton steps for the MAP fit (it converges in a handful)
+const POSTERIOR_MODE_EPOCHS = 30;
+
+// The training loss is the mean log loss plus λ·|w|², so n times the loss is
+// the negative log posterior under a N(0, 1/τ) prior with τ = 2nλ
+export function priorPrecision(lambda: number, n: number): number {
+  return 2 * n * lambda;
+}
+
+// Settings of the MAP fit: Newton on the unweighted loss with an L2 penalty of
+// the same λ. Its covariance (checkpointToModel) is then the Laplace covariance.
+export function posteriorModeConfig(config: ModelConfig): ModelConfig {
+  return {
+    ...config,
+    penalty: PRIOR_PENALTY,
+    optimizer: { ...config.optimizer, type: 'newton' },
+    epochs: POSTERIOR_MODE_EPOCHS,
+    earlyStopping: { ...config.earlyStopping, enabled: false },
+    classWeighting: 'none'
+  };
+}
+
+// Log posterior density up to a constant
+export function logPosterior(weights: Float32Array, data: TrainingData, lambda: number): number {
+  return -data.n * calculateLoss(weights, data, lambda, PRIOR_PENALTY);
+}
+
+// Draw from N(mean, L·Lᵀ) given the lower Cholesky factor L
+export function sampleGaussian(mean: ArrayLike<number>, cholesky: Float64Array, rng: SeededRandom): number[] {
+  const size = mean.length;
+  const z = Array.from({ length: size }, () => rng.gaussian());
+  return Array.from({ length: size }, (_, row) => {
+    let value = mean[row];
+    for (let col = 0; col <= row; col++) {
+      value += cholesky[row * size + col] * z[col];
+    }
+    return value;
+  });
+}
+
+// State of a Metropolis chain
+export interface MetropolisChain {
+  weights: Float32Array;
+  logDensity: number;
+  accepted: number;
+  proposed: number;
+}
+
+export function createChain(start: ArrayLike<number>, data: TrainingData, lambda: number): MetropolisChain {
+  const weights = Float32Array.from(start);
+  return { weights, logDensity: logPosterior(weights, data, lambda), accepted: 0, proposed: 0 };
+}
+
+// One random-walk Metropolis step. Proposals are Gaussian with the Laplace
+// covariance scaled by 2.38²/size, the classic choice for a near-Gaussian target.
+export function metropolisStep(
+  chain: MetropolisChain,
+  data: TrainingData,
+  lambda: number,
+  cholesky: Float64Array,
+  rng: SeededRandom
+): void {
+  const size = chain.weights.length;
+  const scale = 2.38 / Math.sqrt(size);
+  const offset = sampleGaussian(new Float64Array(size), cholesky, rng);
+  const proposal = Float32Array.from(chain.weights, (w, j) => w + scale * offset[j]);
+  const logDensity = logPosterior(proposal, data, lambda);
+
+  chain.proposed++;
+  if (Math.log(rng.random()) < logDensity - chain.logDensity) {
+    chain.weights = proposal;
+    chain.logDensity = logDensity;
+    chain.accepted++;
+  }
+}
+
+// Mean, standard deviation and credible interval of every coefficient
+export function posteriorSummary(samples: number[][], level: number): CoefficientPosterior[] {
+  const count = samples.length;
+  const alpha = 1 - level;
+  return samples[0].map((_, j) => {
+    const values = samples.map(sample => sample[j]).sort((a, b) => a - b);
+    const mean = values.reduce((sum, value) => sum + value, 0) / count;
+    const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / Math.max(count - 1, 1);
+    return {
+      mean,
+      sd: Math.sqrt(variance),
+      lower: quantile(values, alpha / 2),
+      upper: quantile(values, 1 - alpha / 2)
+    };
+  });
+}
@@ -0,0 +1,81 @@
+import { expect, test } from '@jest/globals';
+import { addPredictions, createPredictionTotals, decompose, sweepValues } from './biasVariance';
+import { SeededRandom } from './random';
+import { LOG_LAMBDA_RANGE } from './regularization';
+
+// Totals of binary models given as p₁ per model at a single test point
+function binaryTotals(p1s: number[]) {
+  const totals = createPredictionTotals(1, 2);
+  p1s.forEach(p => addPredictions(totals, [1 - p, p], [p > 0.5 ? 1 : 0]));
+  return totals;
+}
+
+test('0-1 terms for an unbiased point (Domingos, two classes)', () => {
+  // p*(1) = 0.8; three of four models predict the optimal class 1
+  const { zeroOne, bayesError } = decompose(binaryTotals([0.9, 0.7, 0.6, 0.3]), [0.2, 0.8], 0);
+
+  expect(bayesError).toBeCloseTo(0.2, 12);
+  expect(zeroOne.error).toBeCloseTo(0.75 * 0.2 + 0.25 * 0.8, 12);
+  // c₁ = 2·P(ŷ = y*) - 1 = 0.5, c₂ = 1
+  expect(zeroOne.noise).toBeCloseTo(0.5 * 0.2, 12);
+  expect(zeroOne.bias).toBe(0);
+  expect(zeroOne.variance).toBeCloseTo(0.25, 12);
+});
+
+test('0-1 terms for a biased point, where variance reduces the error', () => {
+  // p*(1) = 0.8; the main prediction is the wrong class 0
+  const { zeroOne } = decompose(binaryTotals([0.1, 0.3, 0.4, 0.7]), [0.2, 0.8], 0);
+
+  expect(zeroOne.error).toBeCloseTo(0.75 * 0.8 + 0.25 * 0.2, 12);
+  // c₁ = 2·0.25 - 1 = -0.5, c₂ = -1
+  expect(zeroOne.noise).toBeCloseTo(-0.5 * 0.2, 12);
+  expect(zeroOne.bias).toBe(1);
+  expect(zeroOne.variance).toBeCloseTo(-0.25, 12);
+});
+
+test('squared terms are noise, squared bias and variance of p₁', () => {
+  const { squared } = decompose(binaryTotals([0.6, 0.8]), [0.5, 0.5], 0);
+
+  expect(squared.noise).toBeCloseTo(0.25, 12);
+  expect(squared.bias).toBeCloseTo(0.04, 12);
+  expect(squared.variance).toBeCloseTo(0.01, 12);
+  // E(p̂ - y)² = mean p̂² - 2·p̄·p* + p*
+  expect(squared.error).toBeCloseTo(0.5 - 0.7 + 0.5, 12);
+});
+
+test('both decompositions add up for random softmax models', () => {
+  const rng = new SeededRandom(11);
+  const numPoints = 50;
+  const k = 3;
+  const draw = () => {
+    const raw = Array.from({ length: k }, () => rng.random() ** 2);
+    const total = raw.reduce((sum, value) => sum + value, 0);
+    return raw.map(value => value / total);
+  };
+
+  const trueProbs = Array.from({ length: numPoints }, draw).flat();
+  const totals = createPredictionTotals(numPoints, k);
+  for (let m = 0; m < 7; m++) {
+    const probs = Array.from({ length: numPoints }, draw);
+    const predictions = probs.map(p => p.indexOf(Math.max(...p)));
+    addPredictions(totals, probs.flat(), predictions);
+  }
+
+  const point = decompose(totals, trueProbs, 0.1);
+  expect(point.value).toBe(0.1);
+  [point.zeroOne, point.squared].forEach(terms => {
+    expect(terms.noise + terms.bias + terms.variance).toBeCloseTo(terms.error, 12);
+  });
+  expect(point.zeroOne.bias).toBeGreaterThan(0);
+  expect(point.zeroOne.error).toBeGreaterThanOrEqual(point.bayesError);
+});
+
+test('sweep values', () => {
+  const [lo, hi] = LOG_LAMBDA_RANGE;
+  const lambdas = sweepValues('lambda');
+
+  expect(lambdas).toHaveLength(2 * (hi - lo) + 1);
+  expect(lambdas[0]).toBeCloseTo(10 ** lo, 12);
+  expect(lambdas[lambdas.length - 1]).toBeCloseTo(10 ** hi, 12);
+  expect(sweepValues('n')).toEqual([50, 100, 200, 400, 800]);
+});
@@ -0,0 +1,162 @@
+// Bias-variance decomposition over fresh datasets from the generator
+//
+// Models are trained on many independent draws of the dataset and evaluated on
+// one large test set from the clean generator, where the true class
+// probabilities p* are known (trueClassProbabilities). Averaging over both the
+// training sets and the label y ~ p* splits the expected error exactly into
+// noise, bias and variance:
+// - Squared error of the probabilities (the Brier score):
+//   E(p̂ - y)² = p*(1 - p*) + (p̄ - p*)² + Var(p̂), summed over classes for softmax
+// - 0-1 error, after Domingos (2000): with the optimal class y* = argmax p*,
+//   the main prediction y_m (the models' most common vote) and the variance
+//   V = P(ŷ ≠ y_m), E[ŷ ≠ y] = c₁·(1 - p*(y*)) + [y_m ≠ y*] + c₂·V. Where the
+//   main prediction is wrong c₂ is negative: variance then helps.
+import { LOG_LAMBDA_RANGE } from './regularization';
+
+// What the experiment varies
+export type BiasVarianceSweep = 'lambda' | 'n';
+
+export const BIAS_VARIANCE_SWEEP_LABELS: Record<BiasVarianceSweep, string> = {
+  lambda: 'Regularization (λ)',
+  n: 'Sample size (n)'
+};
+
+export type DecompositionLoss = 'zeroOne' | 'squared';
+
+export const DECOMPOSITION_LOSS_LABELS: Record<DecompositionLoss, string> = {
+  zeroOne: '0-1 error',
+  squared: 'Squared (Brier)'
+};
+
+// Points in the fixed test set
+export const BIAS_VARIANCE_TEST_SIZE = 2000;
+
+// Sample sizes of the n sweep (the Sample Size slider's range, doubling)
+const SWEEP_SAMPLE_SIZES = [50, 100, 200, 400, 800];
+
+// Average terms over the test set; error = noise + bias + variance
+export interface Decomposition {
+  error: number;
+  noise: number;
+  bias: number; // Squared loss: the squared bias (p̄ - p*)²
+  variance: number; // 0-1 loss: net variance, unbiased minus biased points
+}
+
+export interface BiasVariancePoint {
+  value: number; // λ or n
+  zeroOne: Decomposition;
+  squared: Decomposition;
+  bayesError: number; // Average 1 - p*(y*): the error of the optimal classifier
+}
+
+// Per test point sums over the trained models, for every class
+export interface PredictionTotals {
+  numClasses: number;
+  numModels: number;
+  probSums: Float64Array;
+  probSquares: Float64Array;
+  votes: Float64Array; // Number of models predicting each class
+}
+
+// λ values (every half decade of the slider range) or sample sizes to sweep
+export function sweepValues(sweep: BiasVarianceSweep): number[] {
+  if (sweep === 'n') return SWEEP_SAMPLE_SIZES;
+  const [lo, hi] = LOG_LAMBDA_RANGE;
+  return Array.from({ length: 2 * (hi - lo) + 1 }, (_, i) => Math.pow(10, lo + i / 2));
+}
+
+export function createPredictionTotals(numPoints: number, numClasses: number): PredictionTotals {
+  return {
+    numClasses,
+    numModels: 0,
+    probSums: new Float64Array(numPoints * numClasses),
+    probSquares: new Float64Array(numPoints * numClasses),
+    votes: new Float64Array(numPoints * numClasses)
+  };
+}
+
+// Add one model's class probabilities and predicted classes on the test set
+export function addPredictions(totals: PredictionTotals, probs: ArrayLike<number>, predictions: ArrayLike<number>): void {
+  const { numClasses, probSums, probSquares, votes } = totals;
+  for (let i = 0; i < predictions.length; i++) {
+    for (let c = 0; c < numClasses; c++) {
+      const p = probs[i * numClasses + c];
+      probSums[i * numClasses + c] += p;
+      probSquares[i * numClasses + c] += p * p;
+    }
+    votes[i * numClasses + predictions[i]]++;
+  }
+  totals.numModels++;
+}
+
+const argmax = (values: ArrayLike<number>, offset: number, length: number) => {
+  let best = 0;
+  for (let c = 1; c < length; c++) {
+    if (values[offset + c] > values[offset + best]) best = c;
+  }
+  return best;
+};
+
+// Decompose both losses from the accumulated predictions and the true class
+// probabilities of the test points (n × k, row-major)
+export function decompose(
+  totals: PredictionTotals,
+  trueProbs: ArrayLike<number>,
+  value: number
+): BiasVariancePoint {
+  const { numClasses: k, numModels, probSums, probSquares, votes } = totals;
+  const numPoints = trueProbs.length / k;
+  // Binary Brier scores only count class 1, as in the stats panel
+  const squaredClasses = k === 2 ? [1] : Array.from({ length: k }, (_, c) => c);
+  const zeroOne: Decomposition = { error: 0, noise: 0, bias: 0, variance: 0 };
+  const squared: Decomposition = { error: 0, noise: 0, bias: 0, variance: 0 };
+  let bayesError = 0;
+
+  for (let i = 0; i < numPoints; i++) {
+    const offset = i * k;
+
+    squaredClasses.forEach(c => {
+      const pStar = trueProbs[offset + c];
+      const mean = probSums[offset + c] / numModels;
+      squared.noise += pStar * (1 - pStar);
+      squared.bias += (mean - pStar) ** 2;
+      squared.variance += Math.max(probSquares[offset + c] / numModels - mean * mean, 0);
+      // E(p̂ - y)² over the models and y ~ p*
+      squared.error += probSquares[offset + c] / numModels - 2 * mean * pStar + pStar;
+    });
+
+    // Share of the models predicting each class, the optimal and the main prediction
+    const optimal = argmax(trueProbs, offset, k);
+    const main = argmax(votes, offset, k);
+    const noise = 1 - trueProbs[offset + optimal];
+    const correct = votes[offset + optimal] / numModels;
+    const variance = 1 - votes[offset + main] / numModels;
+    let expected = 0;
+    let wrongAgreement = 0; // Σ over ŷ ≠ y* of P(ŷ)·p*(ŷ)
+    for (let c = 0; c < k; c++) {
+      const share = votes[offset + c] / numModels;
+      expected += share * (1 - trueProbs[offset + c]);
+      if (c !== optimal) wrongAgreement += share * trueProbs[offset + c];
+    }
+
+    // c₁·N = P(ŷ = y*)·N - Σ P(ŷ)·p*(ŷ); c₂ = 1 if unbiased, else -P(ŷ = y* | ŷ ≠ y_m)
+    zeroOne.noise += correct * noise - wrongAgreement;
+    if (main === optimal) {
+      zeroOne.variance += variance;
+    } else {
+      zeroOne.bias += 1;
+      zeroOne.variance -= correct;
+    }
+    zeroOne.error += expected;
+    bayesError += noise;
+  }
+
+  [zeroOne, squared].forEach(terms => {
+    terms.error /= numPoints;
+    terms.noise /= numPoints;
+    terms.bias /= numPoints;
+    terms.variance /= numPoints;
+  });
+
+  return { value, zeroOne, squared, bayesError: bayesError / numPoints };
+}
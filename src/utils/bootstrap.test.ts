@@ -0,0 +1,100 @@
+import { expect, test } from '@jest/globals';
+import { bootstrapIntervals, outOfBagEstimates, percentileInterval, pointwiseBand, quantile, selectRows, withoutRows } from './bootstrap';
+
+// θ* = 1..9 around θ̂ = 4, at the 75% level so the quantiles are order statistics
+const statistic = {
+  estimate: 4,
+  replicates: [9, 1, 8, 2, 7, 3, 6, 4, 5],
+  estimateSE: 2,
+  replicateSEs: new Array(9).fill(1),
+  jackknife: [0, 0, 0, 3]
+};
+
+test('quantiles interpolate between order statistics', () => {
+  expect(quantile([1, 2, 3, 4, 5], 0.5)).toBe(3);
+  expect(quantile([1, 2, 3, 4, 5], 0.1)).toBeCloseTo(1.4, 12);
+  expect(quantile([1, 2, 3, 4, 5], 2)).toBe(5);
+  expect(percentileInterval([5, 1, 4, 2, 3], 0.5)).toEqual([2, 4]);
+});
+
+test('percentile, basic, normal and studentized intervals', () => {
+  const intervals = bootstrapIntervals(statistic, 0.75);
+
+  expect(intervals.percentile).toEqual([2, 8]);
+  // Reflected around θ̂: [2·4 - 8, 2·4 - 2]
+  expect(intervals.basic).toEqual([0, 6]);
+  // 2θ̂ - mean(θ*) ± z₀.₈₇₅·sd(θ*), with sd = √7.5
+  expect(intervals.normal![0]).toBeCloseTo(3 - 1.1503493803760083 * Math.sqrt(7.5), 6);
+  expect(intervals.normal![1]).toBeCloseTo(3 + 1.1503493803760083 * Math.sqrt(7.5), 6);
+  // t* = θ* - 4 runs from -3 to 5, so its quantiles are -2 and 4
+  expect(intervals.studentized).toEqual([4 - 4 * 2, 4 + 2 * 2]);
+});
+
+test('BCa corrects for bias and acceleration', () => {
+  // z₀ = Φ⁻¹(3.5 / 9) with the tie counted half; a = -0.0962 from the jackknife
+  const [lower, upper] = bootstrapIntervals(statistic, 0.75).bca!;
+  expect(lower).toBeCloseTo(1.2076621656499067, 5);
+  expect(upper).toBeCloseTo(6.584922452604524, 5);
+
+  // With θ̂ at the median of θ* and a symmetric jackknife it is the percentile interval
+  const centered = bootstrapIntervals({ ...statistic, estimate: 5, jackknife: [1, 2, 3] }, 0.75);
+  expect(centered.bca![0]).toBeCloseTo(2, 6);
+  expect(centered.bca![1]).toBeCloseTo(8, 6);
+});
+
+test('intervals without their inputs are null', () => {
+  const intervals = bootstrapIntervals({ ...statistic, estimateSE: null, replicateSEs: null, jackknife: [] }, 0.75);
+  expect(intervals.studentized).toBeNull();
+  expect(intervals.bca).toBeNull();
+
+  // Every θ* above θ̂: no bias correction is possible
+  expect(bootstrapIntervals({ ...statistic, estimate: 0 }, 0.75).bca).toBeNull();
+});
+
+test('.632 and .632+ estimates', () => {
+  // Observed shares (0.75, 0.25), predicted (0.5, 0.5): no-information error 0.5
+  const labels = [0, 0, 0, 1];
+  const predictions = [0, 0, 1, 1];
+
+  const estimates = outOfBagEstimates(0.1, 0.3, labels, predictions, 2);
+  expect(estimates.apparent).toBeCloseTo(0.9, 12);
+  expect(estimates.outOfBag).toBeCloseTo(0.7, 12);
+  expect(estimates.noInformation).toBeCloseTo(0.5, 12);
+  expect(estimates.relativeOverfitting).toBeCloseTo(0.5, 12);
+  expect(estimates.estimate632).toBeCloseTo(1 - (0.368 * 0.1 + 0.632 * 0.3), 12);
+  const weight = 0.632 / (1 - 0.368 * 0.5);
+  expect(estimates.estimate632Plus).toBeCloseTo(1 - ((1 - weight) * 0.1 + weight * 0.3), 12);
+
+  // Out-of-bag error beyond no information is capped there, giving R = 1
+  const capped = outOfBagEstimates(0.1, 0.6, labels, predictions, 2);
+  expect(capped.relativeOverfitting).toBe(1);
+  expect(capped.estimate632Plus).toBeCloseTo(0.5, 12);
+
+  // No overfitting: .632+ falls back to .632
+  const underfit = outOfBagEstimates(0.3, 0.2, labels, predictions, 2);
+  expect(underfit.relativeOverfitting).toBe(0);
+  expect(underfit.estimate632Plus).toBeCloseTo(underfit.estimate632, 12);
+});
+
+test('row selection and grouped removal', () => {
+  const data = { X: Float32Array.from([0, 1, 2, 3, 4, 5, 6, 7]), y: Float32Array.from([0, 1, 0, 1]), n: 4, d: 2, k: 2 };
+
+  const sample = selectRows(data, [3, 3, 0]);
+  expect(Array.from(sample.X)).toEqual([6, 7, 6, 7, 0, 1]);
+  expect(Array.from(sample.y)).toEqual([1, 1, 0]);
+  expect(sample.n).toBe(3);
+
+  const kept = withoutRows(data, 1, 3);
+  expect(Array.from(kept.X)).toEqual([0, 1, 6, 7]);
+  expect(Array.from(kept.y)).toEqual([0, 1]);
+  expect(kept.n).toBe(2);
+});
+
+test('the pointwise band brackets the refits at every grid sample', () => {
+  const grid = (values: number[]) => ({ values: Float32Array.from(values), cols: 2, rows: 1, step: 4 });
+  const { lower, upper } = pointwiseBand([grid([0.1, 0.5]), grid([0.3, 0.9]), grid([0.2, 0.7])], 0.5);
+
+  expect(lower).toMatchObject({ cols: 2, rows: 1, step: 4 });
+  [0.15, 0.6].forEach((value, k) => expect(lower.values[k]).toBeCloseTo(value, 6));
+  [0.25, 0.8].forEach((value, k) => expect(upper.values[k]).toBeCloseTo(value, 6));
+});
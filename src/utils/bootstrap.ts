@@ -0,0 +1,292 @@
+import { DataPoint } from './dataGenerator';
+import { SeededRandom } from './random';
+import {
+  ModelConfig,
+  ModelState,
+  TrainingData,
+  calculateAccuracy,
+  calculatePredictions,
+  createCheckpoint,
+  pointsToModelArrays,
+  prepareTrainingData,
+  trainLogisticRegression
+} from './logisticRegression';
+import { ProbabilityGrid } from './contour';
+import { normalCdf, normalQuantile } from './normal';
+
+// What the bootstrap resamples: the accuracy of the trained weights on resampled
+// points, or the weights themselves by refitting on resampled training rows
+export type BootstrapMode = 'accuracy' | 'refit';
+
+export const BOOTSTRAP_MODE_LABELS: Record<BootstrapMode, string> = {
+  accuracy: 'Accuracy (fixed weights)',
+  refit: 'Refit weights'
+};
+
+export type IntervalMethod = 'percentile' | 'basic' | 'normal' | 'studentized' | 'bca';
+
+export const INTERVAL_METHOD_LABELS: Record<IntervalMethod, string> = {
+  percentile: 'Percentile',
+  basic: 'Basic',
+  normal: 'Normal',
+  studentized: 'Studentized',
+  bca: 'BCa'
+};
+
+// Interval of one statistic by every method (null where a method has no inputs)
+export type MethodIntervals = Record<IntervalMethod, [number, number] | null>;
+
+// Accuracy of a model on its own training rows against the out-of-bag
+// accuracy of the refits, and the .632/.632+ blends of the two
+export interface OutOfBagEstimates {
+  apparent: number; // Trained model on its training rows (optimistic)
+  outOfBag: number; // Leave-one-out bootstrap: each row scored by the refits that didn't draw it
+  noInformation: number; // Expected accuracy if labels and predictions were unrelated
+  relativeOverfitting: number; // R in [0, 1]: how much of the gap to no information is overfitting
+  estimate632: number;
+  estimate632Plus: number;
+}
+
+// Weights of every bootstrap refit and the intervals of each coefficient
+export interface BootstrapRefits {
+  weights: number[][]; // One [bias, w1, ..., wd] (per class block) vector per refit
+  intervals: MethodIntervals[]; // Per coefficient
+  outOfBag: OutOfBagEstimates | null; // Null when no training row was ever left out
+}
+
+// What the interval methods need to know about one statistic θ
+export interface BootstrapStatistic {
+  estimate: number; // θ̂ on the original data
+  replicates: number[]; // θ* of every bootstrap sample
+  estimateSE: number | null; // Standard error of θ̂ (studentized only)
+  replicateSEs: number[] | null; // Standard error of every θ* (studentized only)
+  jackknife: number[]; // θ with one point (or group of points) left out (BCa only)
+}
+
+// Draw n points with replacement
+export function generateBootstrapSample(points: DataPoint[], rng: SeededRandom): DataPoint[] {
+  const n = points.length;
+  const sample: DataPoint[] = [];
+  
+  for (let i = 0; i < n; i++) {
+    const idx = Math.floor(rng.random() * n);
+    sample.push(points[idx]);
+  }
+  
+  return sample;
+}
+
+// One repeat run: a resample of the points, then its own split, features and
+// initial weights, all drawn next from rng
+export function repeatTrainingRun(points: DataPoint[], config: ModelConfig, rng: SeededRandom): ModelState {
+  const resampledPoints = generateBootstrapSample(points, rng);
+  const { trainData, valData, meanX, stdX, featureMap } = prepareTrainingData(resampledPoints, rng, config.features, config.split);
+  const result = trainLogisticRegression(trainData, valData, config, undefined, createCheckpoint(rng, trainData.d, trainData.k));
+  return { ...result, meanX, stdX, featureMap, split: null };
+}
+
+// Accuracy of the model's fixed weights on a resample of the points, in the
+// model's standardization and feature map, with its binomial standard error
+export function resampledAccuracy(points: DataPoint[], model: ModelState, rng: SeededRandom): { accuracy: number; standardError: number } {
+  const sampleData = pointsToModelArrays(generateBootstrapSample(points, rng), model);
+  const accuracy = calculateAccuracy(model.weights, sampleData);
+  return { accuracy, standardError: Math.sqrt(accuracy * (1 - accuracy) / sampleData.n) };
+}
+
+// Row indices of a bootstrap sample: n draws with replacement
+export function resampleIndices(n: number, rng: SeededRandom): number[] {
+  const indices: number[] = [];
+  
+  for (let i = 0; i < n; i++) {
+    indices.push(Math.floor(rng.random() * n));
+  }
+  
+  return indices;
+}
+
+// Rows of prepared data at the given indices (features stay as they are)
+export function selectRows(data: TrainingData, indices: number[]): TrainingData {
+  const { X, y, d, k } = data;
+  const n = indices.length;
+  const sample = { X: new Float32Array(n * d), y: new Float32Array(n), n, d, k };
+  
+  indices.forEach((idx, i) => {
+    sample.X.set(X.subarray(idx * d, (idx + 1) * d), i * d);
+    sample.y[i] = y[idx];
+  });
+  
+  return sample;
+}
+
+// Drop rows [start, end) of prepared data (grouped jackknife)
+export function withoutRows(data: TrainingData, start: number, end: number): TrainingData {
+  const { X, y, n, d, k } = data;
+  const removed = end - start;
+  const kept = { X: new Float32Array((n - removed) * d), y: new Float32Array(n - removed), n: n - removed, d, k };
+  
+  kept.X.set(X.subarray(0, start * d));
+  kept.X.set(X.subarray(end * d), start * d);
+  kept.y.set(y.subarray(0, start));
+  kept.y.set(y.subarray(end), start);
+  return kept;
+}
+
+// q-quantile of sorted values, interpolating linearly between order statistics
+export function quantile(sorted: number[], q: number): number {
+  const position = Math.min(Math.max(q, 0), 1) * (sorted.length - 1);
+  const below = Math.floor(position);
+  const above = Math.min(below + 1, sorted.length - 1);
+  return sorted[below] + (position - below) * (sorted[above] - sorted[below]);
+}
+
+// Percentile confidence interval at the given level (sorts values in place)
+export function percentileInterval(values: number[], level: number = 0.95): [number, number] {
+  values.sort((a, b) => a - b);
+  const alpha = 1 - level;
+  return [quantile(values, alpha / 2), quantile(values, 1 - alpha / 2)];
+}
+
+// Confidence intervals for θ by every method, at the given level:
+// - percentile: the α/2 and 1 - α/2 quantiles of θ*
+// - basic: the percentile interval reflected around θ̂, [2θ̂ - q₁₋α/₂, 2θ̂ - q_α/₂]
+// - normal: θ̂ - bias ± z·sd(θ*), with the bootstrap bias mean(θ*) - θ̂
+// - studentized: θ̂ - t*·se(θ̂) with t* = (θ* - θ̂) / se(θ*) quantiles
+// - BCa: percentile levels shifted by the bias correction z₀ and the jackknife acceleration a
+export function bootstrapIntervals(statistic: BootstrapStatistic, level: number): MethodIntervals {
+  const { estimate, replicates, estimateSE, replicateSEs, jackknife } = statistic;
+  const B = replicates.length;
+  const alpha = 1 - level;
+  const sorted = [...replicates].sort((a, b) => a - b);
+  const lowerQ = quantile(sorted, alpha / 2);
+  const upperQ = quantile(sorted, 1 - alpha / 2);
+
+  const mean = replicates.reduce((sum, value) => sum + value, 0) / B;
+  const sd = Math.sqrt(replicates.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (B - 1));
+  const z = normalQuantile(1 - alpha / 2);
+  const center = 2 * estimate - mean;
+
+  let studentized: [number, number] | null = null;
+  if (estimateSE !== null && replicateSEs) {
+    const t = replicates
+      .map((value, b) => (value - estimate) / replicateSEs[b])
+      .filter(Number.isFinite)
+      .sort((a, b) => a - b);
+    if (t.length > 1) {
+      studentized = [estimate - quantile(t, 1 - alpha / 2) * estimateSE, estimate - quantile(t, alpha / 2) * estimateSE];
+    }
+  }
+
+  // Bias correction from the share of θ* below θ̂ (ties count half, since
+  // accuracies are discrete), acceleration from the jackknife skewness
+  let bca: [number, number] | null = null;
+  const below = replicates.reduce((count, value) => count + (value < estimate ? 1 : value === estimate ? 0.5 : 0), 0);
+  const z0 = normalQuantile(below / B);
+  if (Number.isFinite(z0) && jackknife.length > 1) {
+    const jackknifeMean = jackknife.reduce((sum, value) => sum + value, 0) / jackknife.length;
+    let squares = 0;
+    let cubes = 0;
+    jackknife.forEach(value => {
+      const deviation = jackknifeMean - value;
+      squares += deviation ** 2;
+      cubes += deviation ** 3;
+    });
+    const a = squares > 0 ? cubes / (6 * squares ** 1.5) : 0;
+    const adjusted = (zAlpha: number) => normalCdf(z0 + (z0 + zAlpha) / (1 - a * (z0 + zAlpha)));
+    bca = [quantile(sorted, adjusted(-z)), quantile(sorted, adjusted(z))];
+  }
+
+  return {
+    percentile: [lowerQ, upperQ],
+    basic: [2 * estimate - upperQ, 2 * estimate - lowerQ],
+    normal: [center - z * sd, center + z * sd],
+    studentized,
+    bca
+  };
+}
+
+// Intervals of the fixed weights' accuracy on data from its resampled
+// accuracies and their standard errors. Leaving out point i changes the
+// accuracy to (correct - correctᵢ) / (n - 1), which gives the jackknife.
+export function accuracyIntervals(
+  weights: Float32Array,
+  data: TrainingData,
+  replicates: number[],
+  replicateSEs: number[],
+  level: number
+): MethodIntervals {
+  const { n } = data;
+  const accuracy = calculateAccuracy(weights, data);
+  const predictions = calculatePredictions(weights, data);
+  const correct = accuracy * n;
+  const leaveOneOut = Array.from({ length: n }, (_, i) => {
+    const isCorrect = predictions[i] === data.y[i] ? 1 : 0;
+    return (correct - isCorrect) / (n - 1);
+  });
+  return bootstrapIntervals({
+    estimate: accuracy,
+    replicates,
+    estimateSE: Math.sqrt(accuracy * (1 - accuracy) / n),
+    replicateSEs,
+    jackknife: leaveOneOut
+  }, level);
+}
+
+// Efron & Tibshirani's .632 and .632+ estimators, in terms of errors:
+// - .632: 0.368·apparent + 0.632·out-of-bag
+// - .632+: the out-of-bag weight grows from 0.632 toward 1 with the relative
+//   overfitting R = (oob - apparent) / (γ - apparent), where γ is the
+//   no-information error Σ pₖ·(1 - qₖ) of the observed class shares pₖ and
+//   the predicted class shares qₖ
+export function outOfBagEstimates(
+  apparentError: number,
+  outOfBagError: number,
+  labels: ArrayLike<number>,
+  predictions: ArrayLike<number>,
+  numClasses: number
+): OutOfBagEstimates {
+  const n = labels.length;
+  const observed = new Array(numClasses).fill(0);
+  const predicted = new Array(numClasses).fill(0);
+  for (let i = 0; i < n; i++) {
+    observed[labels[i]] += 1 / n;
+    predicted[predictions[i]] += 1 / n;
+  }
+  const noInformationError = observed.reduce((sum, p, c) => sum + p * (1 - predicted[c]), 0);
+
+  // Out-of-bag error can't usefully exceed the no-information error
+  const cappedError = Math.min(outOfBagError, noInformationError);
+  const relativeOverfitting = cappedError > apparentError && noInformationError > apparentError
+    ? (cappedError - apparentError) / (noInformationError - apparentError)
+    : 0;
+  const weight = 0.632 / (1 - 0.368 * relativeOverfitting);
+
+  return {
+    apparent: 1 - apparentError,
+    outOfBag: 1 - outOfBagError,
+    noInformation: 1 - noInformationError,
+    relativeOverfitting,
+    estimate632: 1 - (0.368 * apparentError + 0.632 * outOfBagError),
+    estimate632Plus: 1 - ((1 - weight) * apparentError + weight * cappedError)
+  };
+}
+
+// Pointwise percentile band of p₁ over the grids of the bootstrap refits: at
+// every grid sample, the interval the refits' probabilities fall in
+export function pointwiseBand(grids: ProbabilityGrid[], level: number = 0.95): { lower: ProbabilityGrid; upper: ProbabilityGrid } {
+  const { cols, rows, step } = grids[0];
+  const lower = new Float32Array(cols * rows);
+  const upper = new Float32Array(cols * rows);
+  const values: number[] = new Array(grids.length);
+  
+  for (let k = 0; k < cols * rows; k++) {
+    grids.forEach((grid, r) => {
+      values[r] = grid.values[k];
+    });
+    [lower[k], upper[k]] = percentileInterval(values, level);
+  }
+  
+  return {
+    lower: { values: lower, cols, rows, step },
+    upper: { values: upper, cols, rows, step }
+  };
+}
@@ -0,0 +1,58 @@
+import { expect, test } from '@jest/globals';
+import { applyCalibrator, fitCalibrator, fitIsotonic, fitPlatt, reliabilityDiagram } from './calibration';
+
+test('reliability bins and ECE', () => {
+  const { bins, ece } = reliabilityDiagram([0.05, 0.15, 0.15, 1], [0, 1, 0, 1]);
+
+  expect(bins).toHaveLength(10);
+  expect(bins[0]).toEqual({ lower: 0, upper: 0.1, count: 1, meanPredicted: 0.05, observed: 0 });
+  expect(bins[1]).toMatchObject({ count: 2, meanPredicted: 0.15, observed: 0.5 });
+  expect(bins[9]).toMatchObject({ count: 1, meanPredicted: 1, observed: 1 });
+  expect(bins[5].count).toBe(0);
+  expect(bins[5].observed).toBeNaN();
+  // (1·0.05 + 2·0.35 + 1·0) / 4
+  expect(ece).toBeCloseTo(0.1875, 12);
+});
+
+test('Platt scaling recovers the map that generated the labels', () => {
+  // 200 points at each score, with round(200·σ(2·logit(p) + 0.5)) of them positive
+  const scores: number[] = [];
+  const labels: number[] = [];
+  for (let s = 1; s < 50; s++) {
+    const p = s / 50;
+    const positives = Math.round(200 / (1 + Math.exp(-(2 * Math.log(p / (1 - p)) + 0.5))));
+    for (let i = 0; i < 200; i++) {
+      scores.push(p);
+      labels.push(i < positives ? 1 : 0);
+    }
+  }
+
+  const calibrator = fitPlatt(scores, labels);
+  expect(calibrator).toMatchObject({ method: 'platt' });
+  if (calibrator.method !== 'platt') return;
+  expect(calibrator.a).toBeCloseTo(2, 1);
+  expect(calibrator.b).toBeCloseTo(0.5, 1);
+  expect(applyCalibrator(calibrator, 0.5)).toBeCloseTo(1 / (1 + Math.exp(-calibrator.b)), 12);
+});
+
+test('isotonic regression pools adjacent violators and interpolates between knots', () => {
+  const calibrator = fitIsotonic([0.4, 0.1, 0.3, 0.2], [1, 0, 0, 1]);
+
+  expect(calibrator).toEqual({ method: 'isotonic', x: [0.1, 0.25, 0.4], y: [0, 0.5, 1] });
+  expect(applyCalibrator(calibrator, 0)).toBe(0);
+  expect(applyCalibrator(calibrator, 0.325)).toBeCloseTo(0.75, 12);
+  expect(applyCalibrator(calibrator, 0.9)).toBe(1);
+});
+
+test('isotonic regression keeps tied scores in one block', () => {
+  // The tie at 0.5 straddles a block pooled from 0.4 and the first 0.5
+  const calibrator = fitIsotonic([0.4, 0.5, 0.5], [1, 0, 1]);
+
+  expect(calibrator.method === 'isotonic' && calibrator.y).toEqual([2 / 3]);
+  expect(applyCalibrator(calibrator, 0.5)).toBeCloseTo(2 / 3, 12);
+});
+
+test('no calibrator without a method or scores', () => {
+  expect(fitCalibrator('none', [0.5], [1])).toBeNull();
+  expect(fitCalibrator('isotonic', [], [])).toBeNull();
+});
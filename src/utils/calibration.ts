@@ -0,0 +1,170 @@
+// Probability calibration of binary models: reliability diagrams, expected
+// calibration error and recalibration maps (Platt scaling, isotonic regression)
+//
+// Everything works on p₁ scores and 0/1 labels; recalibration maps are fitted
+// on one split (validation) and applied to any probability.
+
+export type CalibrationMethod = 'none' | 'platt' | 'isotonic';
+
+export const CALIBRATION_LABELS: Record<CalibrationMethod, string> = {
+  none: 'None',
+  platt: 'Platt',
+  isotonic: 'Isotonic'
+};
+
+// A fitted recalibration map from model probability to calibrated probability
+export type Calibrator =
+  | { method: 'platt'; a: number; b: number } // σ(a·logit(p) + b)
+  | { method: 'isotonic'; x: number[]; y: number[] }; // Increasing steps, linearly interpolated
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanPredicted: number; // Average p₁ of the points in the bin (NaN if empty)
+  observed: number; // Share of class 1 among them (NaN if empty)
+}
+
+export interface ReliabilityDiagram {
+  bins: ReliabilityBin[];
+  ece: number; // Σ (count / n)·|observed - meanPredicted| over the bins
+}
+
+export const RELIABILITY_BINS = 10;
+
+// Keeps logit(p) finite for p = 0 or 1
+const PROBABILITY_EPSILON = 1e-6;
+
+function logit(p: number): number {
+  const clamped = Math.min(1 - PROBABILITY_EPSILON, Math.max(PROBABILITY_EPSILON, p));
+  return Math.log(clamped / (1 - clamped));
+}
+
+function sigmoid(z: number): number {
+  return z >= 0 ? 1 / (1 + Math.exp(-z)) : Math.exp(z) / (1 + Math.exp(z));
+}
+
+// Equal-width bins over [0, 1] and the expected calibration error
+export function reliabilityDiagram(
+  scores: ArrayLike<number>,
+  labels: ArrayLike<number>,
+  numBins: number = RELIABILITY_BINS
+): ReliabilityDiagram {
+  const sums = Array.from({ length: numBins }, () => ({ count: 0, predicted: 0, positives: 0 }));
+  for (let i = 0; i < scores.length; i++) {
+    const bin = sums[Math.min(numBins - 1, Math.floor(scores[i] * numBins))];
+    bin.count++;
+    bin.predicted += scores[i];
+    bin.positives += labels[i] === 1 ? 1 : 0;
+  }
+
+  let ece = 0;
+  const bins = sums.map((sum, b) => {
+    const meanPredicted = sum.predicted / sum.count;
+    const observed = sum.positives / sum.count;
+    if (sum.count > 0) ece += (sum.count / scores.length) * Math.abs(observed - meanPredicted);
+    return { lower: b / numBins, upper: (b + 1) / numBins, count: sum.count, meanPredicted, observed };
+  });
+
+  return { bins, ece };
+}
+
+// Platt scaling: a one-feature logistic regression on logit(p), fitted by
+// Newton's method against Platt's smoothed targets so separable data can't
+// push the map to a step
+export function fitPlatt(scores: ArrayLike<number>, labels: ArrayLike<number>): Calibrator {
+  const n = scores.length;
+  let positives = 0;
+  for (let i = 0; i < n; i++) positives += labels[i] === 1 ? 1 : 0;
+  const high = (positives + 1) / (positives + 2);
+  const low = 1 / (n - positives + 2);
+
+  let a = 1;
+  let b = 0;
+  for (let iteration = 0; iteration < 50; iteration++) {
+    // Gradient and Hessian of the log loss in (a, b)
+    const gradient = [0, 0];
+    const hessian = [0, 0, 0]; // aa, ab, bb
+    for (let i = 0; i < n; i++) {
+      const z = logit(scores[i]);
+      const p = sigmoid(a * z + b);
+      const error = p - (labels[i] === 1 ? high : low);
+      const curvature = Math.max(p * (1 - p), 1e-12);
+      gradient[0] += error * z;
+      gradient[1] += error;
+      hessian[0] += curvature * z * z;
+      hessian[1] += curvature * z;
+      hessian[2] += curvature;
+    }
+
+    // Solve the 2 × 2 system (with a small ridge so it always has a solution)
+    const [haa, hab, hbb] = [hessian[0] + 1e-9, hessian[1], hessian[2] + 1e-9];
+    const det = haa * hbb - hab * hab;
+    const da = (hbb * gradient[0] - hab * gradient[1]) / det;
+    const db = (haa * gradient[1] - hab * gradient[0]) / det;
+    a -= da;
+    b -= db;
+    if (Math.abs(da) + Math.abs(db) < 1e-10) break;
+  }
+
+  return { method: 'platt', a, b };
+}
+
+// Isotonic regression by pool-adjacent-violators: the best increasing step
+// function of p. Tied scores are pooled first; each block becomes one knot at
+// its mean score, so the knots are strictly increasing.
+export function fitIsotonic(scores: ArrayLike<number>, labels: ArrayLike<number>): Calibrator {
+  const order = Array.from({ length: scores.length }, (_, i) => i).sort((i, j) => scores[i] - scores[j]);
+  const blocks: { score: number; value: number; count: number }[] = [];
+
+  const mergeLast = () => {
+    const last = blocks.pop()!;
+    const previous = blocks[blocks.length - 1];
+    const count = previous.count + last.count;
+    previous.score = (previous.score * previous.count + last.score * last.count) / count;
+    previous.value = (previous.value * previous.count + last.value * last.count) / count;
+    previous.count = count;
+  };
+
+  order.forEach((i, k) => {
+    // A tie joins the block holding the previous point (itself pooled or not)
+    const tied = k > 0 && scores[order[k - 1]] === scores[i];
+    blocks.push({ score: scores[i], value: labels[i] === 1 ? 1 : 0, count: 1 });
+    if (tied) mergeLast();
+    // Merge backwards while the block before is at least as high
+    while (blocks.length > 1 && blocks[blocks.length - 2].value >= blocks[blocks.length - 1].value) {
+      mergeLast();
+    }
+  });
+
+  return { method: 'isotonic', x: blocks.map(block => block.score), y: blocks.map(block => block.value) };
+}
+
+export function fitCalibrator(
+  method: CalibrationMethod,
+  scores: ArrayLike<number>,
+  labels: ArrayLike<number>
+): Calibrator | null {
+  if (method === 'none' || scores.length === 0) return null;
+  return method === 'platt' ? fitPlatt(scores, labels) : fitIsotonic(scores, labels);
+}
+
+// Calibrated probability of a model probability p
+export function applyCalibrator(calibrator: Calibrator, p: number): number {
+  if (calibrator.method === 'platt') {
+    return sigmoid(calibrator.a * logit(p) + calibrator.b);
+  }
+
+  // Isotonic: constant beyond the outer knots, linear between neighbours
+  const { x, y } = calibrator;
+  if (p <= x[0]) return y[0];
+  if (p >= x[x.length - 1]) return y[y.length - 1];
+  let lo = 0;
+  let hi = x.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (x[mid] < p) lo = mid; else hi = mid;
+  }
+  const t = (p - x[lo]) / (x[hi] - x[lo]);
+  return y[lo] + t * (y[hi] - y[lo]);
+}
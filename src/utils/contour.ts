@@ -0,0 +1,111 @@
+// Marching squares contouring for decision boundaries of any shape
+
+export interface ProbabilityGrid {
+  values: Float32Array; // Row-major samples (rows x cols)
+  cols: number;
+  rows: number;
+  step: number; // Pixel distance between neighbouring samples
+}
+
+// A line segment in pixel coordinates
+export type Segment = [number, number, number, number];
+
+// Sample f on a regular pixel grid covering width x height
+export function sampleGrid(
+  f: (px: number, py: number) => number,
+  width: number,
+  height: number,
+  step: number
+): ProbabilityGrid {
+  const cols = Math.ceil(width / step) + 1;
+  const rows = Math.ceil(height / step) + 1;
+  const values = new Float32Array(cols * rows);
+
+  for (let j = 0; j < rows; j++) {
+    for (let i = 0; i < cols; i++) {
+      values[j * cols + i] = f(i * step, j * step);
+    }
+  }
+
+  return { values, cols, rows, step };
+}
+
+// Sample a vector-valued f (e.g. class probabilities) into one grid per component
+export function sampleGrids(
+  f: (px: number, py: number) => ArrayLike<number>,
+  count: number,
+  width: number,
+  height: number,
+  step: number
+): ProbabilityGrid[] {
+  const cols = Math.ceil(width / step) + 1;
+  const rows = Math.ceil(height / step) + 1;
+  const grids = Array.from({ length: count }, () => ({ values: new Float32Array(cols * rows), cols, rows, step }));
+
+  for (let j = 0; j < rows; j++) {
+    for (let i = 0; i < cols; i++) {
+      const values = f(i * step, j * step);
+      for (let c = 0; c < count; c++) {
+        grids[c].values[j * cols + i] = values[c];
+      }
+    }
+  }
+
+  return grids;
+}
+
+// Edges of a cell: 0 = top, 1 = right, 2 = bottom, 3 = left.
+// For each of the 16 corner cases (bit 8 = top-left, 4 = top-right,
+// 2 = bottom-right, 1 = bottom-left above the level), the edge pairs to join.
+// Saddles (5 and 10) are listed with the centre above the level.
+const CASES: number[][][] = [
+  [], [[3, 2]], [[2, 1]], [[3, 1]],
+  [[0, 1]], [[3, 0], [2, 1]], [[0, 2]], [[3, 0]],
+  [[3, 0]], [[0, 2]], [[3, 2], [0, 1]], [[0, 1]],
+  [[3, 1]], [[2, 1]], [[3, 2]], []
+];
+
+// Extract the iso-line values == level as pixel-space segments
+export function contourSegments(grid: ProbabilityGrid, level: number): Segment[] {
+  const { values, cols, rows, step } = grid;
+  const segments: Segment[] = [];
+
+  // Fraction along an edge from a to b where the level is crossed
+  const cross = (a: number, b: number) => (a === b ? 0.5 : (level - a) / (b - a));
+
+  for (let j = 0; j < rows - 1; j++) {
+    for (let i = 0; i < cols - 1; i++) {
+      const tl = values[j * cols + i];
+      const tr = values[j * cols + i + 1];
+      const br = values[(j + 1) * cols + i + 1];
+      const bl = values[(j + 1) * cols + i];
+
+      let index = (tl > level ? 8 : 0) | (tr > level ? 4 : 0) | (br > level ? 2 : 0) | (bl > level ? 1 : 0);
+
+      // Saddle cases above assume the cell centre is above the level;
+      // otherwise use the other pairing of edges
+      if ((index === 5 || index === 10) && (tl + tr + br + bl) / 4 <= level) {
+        index = index === 5 ? 10 : 5;
+      }
+
+      const x0 = i * step;
+      const y0 = j * step;
+      const edgePoint = (edge: number): [number, number] => {
+        switch (edge) {
+          case 0: return [x0 + cross(tl, tr) * step, y0];
+          case 1: return [x0 + step, y0 + cross(tr, br) * step];
+          case 2: return [x0 + cross(bl, br) * step, y0 + step];
+          default: return [x0, y0 + cross(tl, bl) * step];
+        }
+      };
+
+      for (const [a, b] of CASES[index]) {
+        const [ax, ay] = edgePoint(a);
+        const [bx, by] = edgePoint(b);
+        segments.push([ax, ay, bx, by]);
+      }
+    }
+  }
+
+  return segments;
+}
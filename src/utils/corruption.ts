@@ -0,0 +1,136 @@
+// Label noise and outlier injection for generated data
+//
+// Corrupted points keep a copy of their original position and label, so the
+// plot can highlight them and a reference model can be trained on clean data.
+
+import { DataPoint } from './dataGenerator';
+import { ModelState, calculateAccuracy, createClassPredictor, classFromProbabilities, pointsToModelArrays } from './logisticRegression';
+import { SeededRandom } from './random';
+
+export type LabelNoiseMode = 'symmetric' | 'classConditional';
+
+export interface CorruptionConfig {
+  labelNoise: number; // Symmetric: probability that a label is flipped to a random other class
+  labelNoiseMode: LabelNoiseMode;
+  classFlipRates: number[]; // Class-conditional: flip probability of each true class (missing = 0)
+  outlierFraction: number; // Probability that a point is moved away from its class
+  outlierDistance: number; // Distance from the class centroid, in units of the class's RMS radius
+}
+
+export interface PointCorruption {
+  flipped: boolean;
+  outlier: boolean;
+  original: { x: number; y: number; label: number };
+}
+
+export const DEFAULT_CORRUPTION_CONFIG: CorruptionConfig = {
+  labelNoise: 0,
+  labelNoiseMode: 'symmetric',
+  classFlipRates: [],
+  outlierFraction: 0,
+  outlierDistance: 4
+};
+
+export const LABEL_NOISE_LABELS: Record<LabelNoiseMode, string> = {
+  symmetric: 'Symmetric (any other class)',
+  classConditional: 'Class-conditional (c → c + 1)'
+};
+
+// Flip labels and displace outliers in place. Every point draws the same
+// random numbers whatever the rates, so raising a rate only adds corrupted
+// points and never reshuffles the existing ones.
+export function corruptPoints(points: DataPoint[], config: CorruptionConfig, k: number, rng: SeededRandom): void {
+  const flipRng = new SeededRandom(rng.nextSeed());
+  const outlierRng = new SeededRandom(rng.nextSeed());
+
+  // Class centroids and RMS radii of the clean points
+  const centroids = Array.from({ length: k }, () => ({ x: 0, y: 0, r: 0, count: 0 }));
+  points.forEach(point => {
+    const centroid = centroids[point.label];
+    centroid.x += point.x;
+    centroid.y += point.y;
+    centroid.count++;
+  });
+  centroids.forEach(centroid => {
+    centroid.x /= Math.max(1, centroid.count);
+    centroid.y /= Math.max(1, centroid.count);
+  });
+  points.forEach(point => {
+    const centroid = centroids[point.label];
+    centroid.r += (point.x - centroid.x) ** 2 + (point.y - centroid.y) ** 2;
+  });
+  centroids.forEach(centroid => {
+    centroid.r = Math.sqrt(centroid.r / Math.max(1, centroid.count));
+  });
+
+  points.forEach(point => {
+    const original = { x: point.x, y: point.y, label: point.label };
+
+    const flipDraw = flipRng.random();
+    const otherClass = Math.floor(flipRng.random() * (k - 1));
+    const flipRate = config.labelNoiseMode === 'symmetric' ? config.labelNoise : config.classFlipRates[point.label] ?? 0;
+    const flipped = flipDraw < flipRate;
+
+    const outlierDraw = outlierRng.random();
+    const angle = outlierRng.uniform(0, 2 * Math.PI);
+    const outlier = outlierDraw < config.outlierFraction;
+
+    if (outlier) {
+      const centroid = centroids[point.label];
+      const distance = config.outlierDistance * centroid.r;
+      point.x = centroid.x + distance * Math.cos(angle);
+      point.y = centroid.y + distance * Math.sin(angle);
+    }
+    if (flipped) {
+      // Symmetric: uniform over the other classes; class-conditional: the next class
+      point.label = config.labelNoiseMode === 'symmetric'
+        ? (point.label + 1 + otherClass) % k
+        : (point.label + 1) % k;
+    }
+    if (flipped || outlier) {
+      point.corruption = { flipped, outlier, original };
+    }
+  });
+}
+
+// The points as they were before corruption
+export function cleanPoints(points: DataPoint[]): DataPoint[] {
+  return points.map(point => (point.corruption ? { ...point.corruption.original } : point));
+}
+
+export interface CorruptionSummary {
+  flipped: number;
+  outliers: number;
+  cleanAccuracy: number; // Model accuracy on the clean points
+  referenceAccuracy: number | null; // Same for the model trained on clean points
+  disagreement: number | null; // Fraction of clean points the two models classify differently
+}
+
+// How much the corruption hurts: counts, accuracy against the clean data and,
+// given a reference model trained on clean data, how often the two disagree
+export function summarizeCorruption(
+  points: DataPoint[],
+  model: ModelState,
+  referenceModel: ModelState | null
+): CorruptionSummary {
+  const clean = cleanPoints(points);
+  const accuracyOn = (m: ModelState) => calculateAccuracy(m.weights, pointsToModelArrays(clean, m));
+
+  let disagreement: number | null = null;
+  if (referenceModel) {
+    const predict = createClassPredictor(model);
+    const predictReference = createClassPredictor(referenceModel);
+    const differing = clean.filter(point => (
+      classFromProbabilities(predict(point.x, point.y)) !== classFromProbabilities(predictReference(point.x, point.y))
+    )).length;
+    disagreement = differing / clean.length;
+  }
+
+  return {
+    flipped: points.filter(point => point.corruption?.flipped).length,
+    outliers: points.filter(point => point.corruption?.outlier).length,
+    cleanAccuracy: accuracyOn(model),
+    referenceAccuracy: referenceModel ? accuracyOn(referenceModel) : null,
+    disagreement
+  };
+}
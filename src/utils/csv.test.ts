@@ -0,0 +1,45 @@
+import { expect, test } from '@jest/globals';
+import { datasetToCsv, guessColumnMapping, importDataset, parseDelimited } from './csv';
+import { datasetBounds } from './dataGenerator';
+
+const points = [
+  { x: 1.5, y: -2, label: 0 },
+  { x: 0, y: 3.25, label: 1 },
+  { x: -4, y: 0.5, label: 2 }
+];
+const dataset = { points, bounds: datasetBounds(points) };
+
+test('exported datasets import back unchanged, including awkward class names', () => {
+  const classNames = ['plain', 'a, "quoted"\nname', 'ends in\r'];
+  const table = parseDelimited(datasetToCsv(dataset, { classNames, split: ['train', 'val', 'test'] }));
+
+  expect(table.header).toEqual(['x', 'y', 'label', 'split']);
+  expect(table.rows.map(row => row[2])).toEqual(classNames);
+  expect(table.rows.map(row => row[3])).toEqual(['train', 'val', 'test']);
+
+  const result = importDataset(table, guessColumnMapping(table.header));
+  expect(result.errors).toEqual([]);
+  expect(result.classNames).toEqual(classNames.slice().sort((a, b) => a.localeCompare(b)));
+  const imported = result.dataset!.points.map(point => ({ ...point, label: classNames.indexOf(result.classNames[point.label]) }));
+  expect(imported).toEqual(points);
+});
+
+test('parsing handles CRLF, blank lines, other delimiters and quoted whitespace', () => {
+  const table = parseDelimited('\r\nx;y;class\r\n1;2;" a "\r\n\r\n3; 4 ;b\r\n');
+
+  expect(table.delimiter).toBe(';');
+  expect(table.rows).toEqual([['1', '2', ' a '], ['3', '4', 'b']]);
+  expect(table.lineNumbers).toEqual([3, 5]);
+});
+
+test('line numbers count the line breaks inside quoted fields', () => {
+  const table = parseDelimited('x,y,label\n1,2,"two\nlines"\n3,oops,b\n');
+  const result = importDataset(table, { x: 0, y: 1, label: 2 });
+
+  expect(table.lineNumbers).toEqual([2, 4]);
+  expect(result.dataset).toBeNull();
+  expect(result.errors).toEqual([
+    { line: 0, message: 'need at least 2 classes, found 1' },
+    { line: 4, message: 'y is not a number ("oops")' }
+  ]);
+});
@@ -0,0 +1,253 @@
+// CSV/TSV import and export of 2D datasets
+
+import { DataPoint, Dataset, datasetBounds } from './dataGenerator';
+import { MAX_CLASSES } from './generators';
+import { classFromProbabilities } from './logisticRegression';
+import { SplitRole } from './splits';
+
+export interface DelimitedTable {
+  delimiter: string;
+  header: string[];
+  rows: string[][];
+  lineNumbers: number[]; // Line in the file of each row (1-based, for error messages)
+}
+
+// Column indices of the mapped fields
+export interface ColumnMapping {
+  x: number;
+  y: number;
+  label: number;
+}
+
+export interface RowError {
+  line: number;
+  message: string;
+}
+
+export interface CsvImportResult {
+  dataset: Dataset | null; // null when nothing usable was found
+  errors: RowError[]; // Rows that were skipped, plus any file-level problem (line 0)
+  classNames: string[]; // Original label of each class index
+}
+
+// Tab if the header line has tabs, otherwise semicolon or comma, whichever appears more
+export function detectDelimiter(headerLine: string): string {
+  if (headerLine.includes('\t')) return '\t';
+  const semicolons = headerLine.split(';').length;
+  const commas = headerLine.split(',').length;
+  return semicolons > commas ? ';' : ',';
+}
+
+// Split one line into fields, honouring double quotes ("" is an escaped quote).
+// Whitespace around a field is trimmed, but not inside its quotes.
+function splitLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let kept = 0; // Length of the field up to the end of its last quoted part
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+        kept = field.length;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      if (kept === 0) field = field.trimStart();
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(trimField(field, kept));
+      field = '';
+      kept = 0;
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(trimField(field, kept));
+  return fields;
+}
+
+// Trim a field, leaving its first `kept` characters (the quoted part) intact
+function trimField(field: string, kept: number): string {
+  return kept === 0 ? field.trim() : field.slice(0, kept) + field.slice(kept).trimEnd();
+}
+
+// Split text into records at line breaks outside double quotes, so quoted
+// fields may contain newlines. Each record keeps the line it starts on.
+function splitRecords(text: string): { text: string; line: number }[] {
+  const records: { text: string; line: number }[] = [];
+  let start = 0;
+  let startLine = 1;
+  let line = 1;
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (char === '\n') {
+      if (!quoted) {
+        const end = i > start && text[i - 1] === '\r' ? i - 1 : i;
+        records.push({ text: text.slice(start, end), line: startLine });
+        start = i + 1;
+        startLine = line + 1;
+      }
+      line++;
+    }
+  }
+
+  records.push({ text: text.slice(start), line: startLine });
+  return records;
+}
+
+// Parse delimited text whose first non-empty line is a header. Blank lines are ignored.
+export function parseDelimited(text: string): DelimitedTable {
+  const records = splitRecords(text);
+  const headerIndex = records.findIndex(record => record.text.trim() !== '');
+  if (headerIndex === -1) {
+    return { delimiter: ',', header: [], rows: [], lineNumbers: [] };
+  }
+
+  const delimiter = detectDelimiter(records[headerIndex].text);
+  const rows: string[][] = [];
+  const lineNumbers: number[] = [];
+
+  for (let i = headerIndex + 1; i < records.length; i++) {
+    if (records[i].text.trim() === '') continue;
+    rows.push(splitLine(records[i].text, delimiter));
+    lineNumbers.push(records[i].line);
+  }
+
+  return { delimiter, header: splitLine(records[headerIndex].text, delimiter), rows, lineNumbers };
+}
+
+// Guess the mapping from header names (x/x1/feature1..., label/class/target...),
+// falling back to the first three columns
+export function guessColumnMapping(header: string[]): ColumnMapping {
+  const find = (names: string[], fallback: number) => {
+    const index = header.findIndex(column => names.includes(column.toLowerCase()));
+    return index >= 0 ? index : Math.min(fallback, Math.max(0, header.length - 1));
+  };
+
+  return {
+    x: find(['x', 'x1', 'x₁', 'feature1', 'f1'], 0),
+    y: find(['y', 'x2', 'x₂', 'feature2', 'f2'], 1),
+    label: find(['label', 'class', 'target', 'category'], 2)
+  };
+}
+
+// Sort label strings numerically when they are all numbers, alphabetically otherwise
+function sortLabels(labels: string[]): string[] {
+  const numeric = labels.every(label => label !== '' && Number.isFinite(Number(label)));
+  return labels.slice().sort((a, b) => (numeric ? Number(a) - Number(b) : a.localeCompare(b)));
+}
+
+// Build a dataset from a parsed table. Malformed rows are skipped and reported;
+// labels are mapped to class indices 0..K-1 in sorted order.
+export function importDataset(table: DelimitedTable, mapping: ColumnMapping): CsvImportResult {
+  const errors: RowError[] = [];
+  const parsed: { x: number; y: number; label: string }[] = [];
+  const columns = Math.max(mapping.x, mapping.y, mapping.label) + 1;
+
+  if (mapping.x === mapping.y || mapping.x === mapping.label || mapping.y === mapping.label) {
+    return { dataset: null, errors: [{ line: 0, message: 'x, y and label must be three different columns' }], classNames: [] };
+  }
+
+  table.rows.forEach((row, r) => {
+    const line = table.lineNumbers[r];
+    if (row.length < columns) {
+      errors.push({ line, message: `expected at least ${columns} columns, found ${row.length}` });
+      return;
+    }
+
+    const x = Number(row[mapping.x]);
+    const y = Number(row[mapping.y]);
+    const label = row[mapping.label];
+
+    if (row[mapping.x] === '' || !Number.isFinite(x)) {
+      errors.push({ line, message: `x is not a number ("${row[mapping.x]}")` });
+    } else if (row[mapping.y] === '' || !Number.isFinite(y)) {
+      errors.push({ line, message: `y is not a number ("${row[mapping.y]}")` });
+    } else if (label === '') {
+      errors.push({ line, message: 'label is empty' });
+    } else {
+      parsed.push({ x, y, label });
+    }
+  });
+
+  const classNames = sortLabels(Array.from(new Set(parsed.map(point => point.label))));
+
+  // File-level problems make the import unusable
+  const fail = (message: string): CsvImportResult => ({
+    dataset: null,
+    errors: [{ line: 0, message }, ...errors],
+    classNames
+  });
+  if (parsed.length === 0) return fail('no valid rows');
+  if (classNames.length < 2) return fail(`need at least 2 classes, found ${classNames.length}`);
+  if (classNames.length > MAX_CLASSES) {
+    return fail(`at most ${MAX_CLASSES} classes are supported, found ${classNames.length}`);
+  }
+
+  const classIndex = new Map(classNames.map((name, c) => [name, c]));
+  const points: DataPoint[] = parsed.map(point => ({ x: point.x, y: point.y, label: classIndex.get(point.label)! }));
+
+  return { dataset: { points, bounds: datasetBounds(points) }, errors, classNames };
+}
+
+// Quote a field if it contains the delimiter, a quote or a line break
+function formatField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export interface CsvExportColumns {
+  classNames?: string[]; // Written instead of class indices when given (indices beyond it stay numeric)
+  split?: SplitRole[]; // Train/val/test assignment of each point
+  probabilities?: Float64Array[]; // Model class probabilities of each point
+}
+
+// Serialize a dataset as CSV: x, y, label, then split, predicted class and
+// one probability column per class when available
+export function datasetToCsv(dataset: Dataset, columns: CsvExportColumns = {}): string {
+  const { classNames, split, probabilities } = columns;
+  const name = (c: number) => classNames?.[c] ?? String(c);
+  const numClasses = probabilities && probabilities.length > 0 ? probabilities[0].length : 0;
+
+  const header = ['x', 'y', 'label'];
+  if (split) header.push('split');
+  if (probabilities) {
+    header.push('predicted');
+    for (let c = 0; c < numClasses; c++) header.push(`p_${name(c)}`);
+  }
+
+  const lines = [header.map(formatField).join(',')];
+  dataset.points.forEach((point, i) => {
+    const fields = [String(point.x), String(point.y), name(point.label)];
+    if (split) fields.push(split[i]);
+    if (probabilities) {
+      const probs = probabilities[i];
+      fields.push(name(classFromProbabilities(probs)));
+      probs.forEach(p => fields.push(p.toFixed(6)));
+    }
+    lines.push(fields.map(formatField).join(','));
+  });
+
+  return lines.join('\n') + '\n';
+}
+
+// Offer text as a file download in the browser
+export function downloadText(filename: string, text: string, type: string = 'text/csv'): void {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -1,9 +1,12 @@
 import { SeededRandom } from './random';
+import { Distribution, GENERATORS, GeneratorParams, resolveGeneratorParams } from './generators';
+import { CorruptionConfig, PointCorruption, corruptPoints } from './corruption';
 
 export interface DataPoint {
   x: number;
   y: number;
   label: number;
+  corruption?: PointCorruption; // Set on points whose label was flipped or that were made outliers
 }
 
 export interface Dataset {
@@ -17,70 +20,39 @@ export interface Dataset {
 }
 
 export interface GeneratorConfig {
-  distribution: 'blobs' | 'moons';
+  distribution: Distribution;
+  numClasses: number; // 2 to the generator's maxClasses (moons and XOR always have 2)
   n: number;
-  balance: number; // 0.1 to 0.9 (proportion of class 1)
-  noise: number; // sigma for blobs, noise for moons
+  balance: number; // 0.1 to 0.9 (proportion of class 1), two classes only
+  params: GeneratorParams; // Generator-specific parameters (noise, radii, rotation...)
+  corruption: CorruptionConfig; // Label noise and outliers applied after sampling
   seed: number;
 }
 
-export function generateData(config: GeneratorConfig): Dataset {
-  const rng = new SeededRandom(config.seed);
-  const { n, balance, noise, distribution } = config;
+// Number of classes a config actually generates
+export function generatedClasses(config: GeneratorConfig): number {
+  return Math.max(2, Math.min(GENERATORS[config.distribution].maxClasses, config.numClasses));
+}
+
+// Points per class: split by balance for two classes, as equal as possible otherwise
+export function classSizes(config: GeneratorConfig): number[] {
+  const { n, balance } = config;
+  const k = generatedClasses(config);
   
-  const n1 = Math.floor(n * balance);
-  const n0 = n - n1;
+  if (k === 2) {
+    const n1 = Math.floor(n * balance);
+    return [n - n1, n1];
+  }
   
-  const points: DataPoint[] = [];
+  return Array.from({ length: k }, (_, c) => Math.floor(n / k) + (c < n % k ? 1 : 0));
+}
+
+export function generateData(config: GeneratorConfig): Dataset {
+  const rng = new SeededRandom(config.seed);
+  const { distribution } = config;
+  const params = resolveGeneratorParams(distribution, config.params);
   
-  if (distribution === 'blobs') {
-    // Two Gaussians
-    const mu0 = [-1, -1];
-    const mu1 = [1, 1];
-    
-    // Generate class 0 points
-    for (let i = 0; i < n0; i++) {
-      points.push({
-        x: rng.gaussian(mu0[0], noise),
-        y: rng.gaussian(mu0[1], noise),
-        label: 0
-      });
-    }
-    
-    // Generate class 1 points
-    for (let i = 0; i < n1; i++) {
-      points.push({
-        x: rng.gaussian(mu1[0], noise),
-        y: rng.gaussian(mu1[1], noise),
-        label: 1
-      });
-    }
-  } else {
-    // Two moons
-    // Generate class 0 points (upper moon)
-    for (let i = 0; i < n0; i++) {
-      const t = rng.uniform(0, Math.PI);
-      const x = Math.cos(t);
-      const y = Math.sin(t);
-      points.push({
-        x: x + rng.gaussian(0, noise),
-        y: y + rng.gaussian(0, noise),
-        label: 0
-      });
-    }
-    
-    // Generate class 1 points (lower moon)
-    for (let i = 0; i < n1; i++) {
-      const t = rng.uniform(0, Math.PI);
-      const x = 1 - Math.cos(t);
-      const y = 0.5 - Math.sin(t);
-      points.push({
-        x: x + rng.gaussian(0, noise),
-        y: y + rng.gaussian(0, noise),
-        label: 1
-      });
-    }
-  }
+  const points = GENERATORS[distribution].sample(classSizes(config), params, rng);
   
   // Shuffle points
   for (let i = points.length - 1; i > 0; i--) {
@@ -88,7 +60,39 @@ export function generateData(config: GeneratorConfig): Dataset {
     [points[i], points[j]] = [points[j], points[i]];
   }
   
-  // Calculate bounds with 10% margin
+  // Corruption draws from its own streams, so clean points are unchanged by it
+  corruptPoints(points, config.corruption, generatedClasses(config), rng);
+  
+  return { points, bounds: datasetBounds(points) };
+}
+
+// True class probabilities P(y = c | x) of the clean generator at each point
+// (n × k, row-major): the class densities weighted by the class shares. Points
+// far from every class fall back to the shares themselves.
+export function trueClassProbabilities(config: GeneratorConfig, points: DataPoint[]): Float64Array {
+  const { distribution } = config;
+  const params = resolveGeneratorParams(distribution, config.params);
+  const sizes = classSizes(config);
+  const k = sizes.length;
+  const shares = sizes.map(size => size / config.n);
+  const probs = new Float64Array(points.length * k);
+
+  points.forEach((point, i) => {
+    let total = 0;
+    for (let c = 0; c < k; c++) {
+      probs[i * k + c] = shares[c] * GENERATORS[distribution].density(point.x, point.y, c, k, params);
+      total += probs[i * k + c];
+    }
+    for (let c = 0; c < k; c++) {
+      probs[i * k + c] = total > 0 ? probs[i * k + c] / total : shares[c];
+    }
+  });
+
+  return probs;
+}
+
+// Bounding box of the points with a 10% margin on every side
+export function datasetBounds(points: DataPoint[]): Dataset['bounds'] {
   const xs = points.map(p => p.x);
   const ys = points.map(p => p.y);
   const xMin = Math.min(...xs);
@@ -100,12 +104,9 @@ export function generateData(config: GeneratorConfig): Dataset {
   const yMargin = (yMax - yMin) * 0.1;
   
   return {
-    points,
-    bounds: {
-      xMin: xMin - xMargin,
-      xMax: xMax + xMargin,
-      yMin: yMin - yMargin,
-      yMax: yMax + yMargin,
-    }
+    xMin: xMin - xMargin,
+    xMax: xMax + xMargin,
+    yMin: yMin - yMargin,
+    yMax: yMax + yMargin,
   };
 }
@@ -0,0 +1,10 @@
+import { expect, test } from '@jest/globals';
+import { computeDemoSnapshot } from './demo';
+import demoSnapshot from './demoSnapshot.json';
+
+// The committed snapshot must be what the live pipeline computes for
+// DEMO_CONFIG; after changing the pipeline, run `npm run demo:snapshot`
+test('demo snapshot matches the live pipeline', () => {
+  const computed = JSON.parse(JSON.stringify(computeDemoSnapshot()));
+  expect(computed).toEqual(demoSnapshot);
+}, 60000);
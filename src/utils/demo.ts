@@ -0,0 +1,140 @@
+import { generateData, GeneratorConfig } from './dataGenerator';
+import { DEFAULT_CORRUPTION_CONFIG } from './corruption';
+import { ModelConfig, ModelState, fitModel, pointsToModelArrays } from './logisticRegression';
+import { SeededRandom } from './random';
+import { SplitMetrics } from './metrics';
+import { DEFAULT_FEATURE_CONFIG, FeatureMap } from './features';
+import { DEFAULT_OPTIMIZER_CONFIG } from './optimizers';
+import { DEFAULT_PENALTY_CONFIG } from './regularization';
+import { DEFAULT_EARLY_STOPPING_CONFIG, DEFAULT_SCHEDULE_CONFIG } from './schedules';
+import { DEFAULT_SPLIT_CONFIG, SplitSource } from './splits';
+import { IntervalMethod, accuracyIntervals, percentileInterval, repeatTrainingRun, resampledAccuracy } from './bootstrap';
+import { UncertaintyConfig } from './uncertainty';
+
+// Demo configuration - uses "Bigger Dataset" preset for instant results
+export const DEMO_CONFIG: {
+  dataConfig: GeneratorConfig;
+  modelConfig: ModelConfig;
+  uncertaintyConfig: UncertaintyConfig;
+} = {
+  dataConfig: {
+    distribution: 'blobs',
+    numClasses: 2,
+    n: 800,
+    balance: 0.5,
+    params: { noise: 0.6 },
+    corruption: DEFAULT_CORRUPTION_CONFIG,
+    seed: 42 // Fixed seed for consistent demo
+  },
+  modelConfig: {
+    lambda: 0.01,
+    penalty: DEFAULT_PENALTY_CONFIG,
+    learningRate: 0.05,
+    schedule: DEFAULT_SCHEDULE_CONFIG,
+    epochs: 150,
+    earlyStopping: DEFAULT_EARLY_STOPPING_CONFIG,
+    seed: 7, // Fixed model seed for consistent demo
+    features: DEFAULT_FEATURE_CONFIG,
+    optimizer: DEFAULT_OPTIMIZER_CONFIG,
+    split: DEFAULT_SPLIT_CONFIG,
+    classWeighting: 'none'
+  },
+  uncertaintyConfig: {
+    repeatRuns: 10,
+    bootstrapSamples: 300,
+    bootstrapMode: 'accuracy',
+    confidenceLevel: 0.95,
+    posteriorMethod: 'laplace',
+    posteriorSamples: 200,
+    biasVarianceSweep: 'lambda',
+    biasVarianceDatasets: 30
+  }
+};
+
+// JSON-friendly form of a model (typed arrays stored as plain arrays)
+export interface SnapshotModel {
+  weights: number[];
+  numClasses: number;
+  trainAccuracy: number;
+  valAccuracy: number;
+  testAccuracy: number | null;
+  classAccuracies: { train: number[]; val: number[] };
+  metrics: SplitMetrics;
+  covariance: number[] | null;
+  losses: number[];
+  valLosses: number[];
+  bestEpoch: number | null;
+  stoppedEpoch: number | null;
+  meanX: number[];
+  stdX: number[];
+  featureMap: FeatureMap;
+  split: SplitSource | null;
+  config: ModelConfig;
+}
+
+// Contents of demoSnapshot.json, regenerated by scripts/generateDemoSnapshot.js
+export interface DemoSnapshot {
+  config: typeof DEMO_CONFIG;
+  model: SnapshotModel;
+  uncertaintyBounds: SnapshotModel[];
+  bootstrapAccuracies: number[];
+  confidenceInterval: number[];
+  bootstrapIntervals: Record<IntervalMethod, number[] | null>;
+}
+
+function toSnapshotModel(model: ModelState): SnapshotModel {
+  return {
+    weights: Array.from(model.weights),
+    numClasses: model.numClasses,
+    trainAccuracy: model.trainAccuracy,
+    valAccuracy: model.valAccuracy,
+    testAccuracy: model.testAccuracy,
+    classAccuracies: model.classAccuracies,
+    metrics: model.metrics,
+    covariance: model.covariance,
+    losses: model.losses,
+    valLosses: model.valLosses,
+    bestEpoch: model.bestEpoch,
+    stoppedEpoch: model.stoppedEpoch,
+    meanX: Array.from(model.meanX),
+    stdX: Array.from(model.stdX),
+    featureMap: model.featureMap,
+    split: model.split,
+    config: model.config
+  };
+}
+
+// Compute demo results with the functions (and seeds) the app's worker jobs use
+export function computeDemoSnapshot(config: typeof DEMO_CONFIG = DEMO_CONFIG): DemoSnapshot {
+  const { dataConfig, modelConfig, uncertaintyConfig } = config;
+  const { points } = generateData(dataConfig);
+  const model = fitModel(points, modelConfig);
+
+  // Repeat runs share one model-seed stream, as in the repeatTraining job
+  const repeatRng = new SeededRandom(modelConfig.seed);
+  const uncertaintyBounds = Array.from({ length: uncertaintyConfig.repeatRuns }, () => (
+    repeatTrainingRun(points, modelConfig, repeatRng)
+  ));
+
+  // Accuracy-mode bootstrap, seeded with the model seed as in App's handleRunUncertainty
+  const bootstrapRng = new SeededRandom(modelConfig.seed);
+  const resamples = Array.from({ length: uncertaintyConfig.bootstrapSamples }, () => resampledAccuracy(points, model, bootstrapRng));
+  const accuracies = resamples.map(resample => resample.accuracy);
+  const level = uncertaintyConfig.confidenceLevel;
+  const intervals = accuracyIntervals(
+    model.weights,
+    pointsToModelArrays(points, model),
+    accuracies,
+    resamples.map(resample => resample.standardError),
+    level
+  );
+
+  return {
+    config,
+    model: toSnapshotModel(model),
+    uncertaintyBounds: uncertaintyBounds.map(toSnapshotModel),
+    bootstrapAccuracies: accuracies,
+    confidenceInterval: percentileInterval([...accuracies], level),
+    bootstrapIntervals: intervals
+  };
+}
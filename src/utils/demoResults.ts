@@ -0,0 +1,46 @@
+import { ModelState } from './logisticRegression';
+import { IntervalMethod, MethodIntervals } from './bootstrap';
+import { DemoSnapshot, SnapshotModel } from './demo';
+import demoSnapshot from './demoSnapshot.json';
+
+function fromSnapshotModel(model: SnapshotModel): ModelState {
+  return {
+    weights: new Float32Array(model.weights),
+    numClasses: model.numClasses,
+    trainAccuracy: model.trainAccuracy,
+    valAccuracy: model.valAccuracy,
+    testAccuracy: model.testAccuracy,
+    classAccuracies: model.classAccuracies,
+    metrics: model.metrics,
+    covariance: model.covariance,
+    losses: model.losses,
+    valLosses: model.valLosses,
+    bestEpoch: model.bestEpoch,
+    stoppedEpoch: model.stoppedEpoch,
+    meanX: new Float32Array(model.meanX),
+    stdX: new Float32Array(model.stdX),
+    featureMap: model.featureMap,
+    split: model.split,
+    config: model.config
+  };
+}
+
+// Pre-computed demo results for instant display, loaded from the generated snapshot
+const snapshot: DemoSnapshot = demoSnapshot as DemoSnapshot;
+
+export const DEMO_MODEL_RESULT: ModelState = fromSnapshotModel(snapshot.model);
+
+// Models from repeat runs, for boundary visualization
+export const DEMO_UNCERTAINTY_BOUNDS: ModelState[] = snapshot.uncertaintyBounds.map(fromSnapshotModel);
+
+export const DEMO_BOOTSTRAP_ACCURACIES: number[] = snapshot.bootstrapAccuracies;
+
+export const DEMO_CONFIDENCE_INTERVAL: [number, number] = [snapshot.confidenceInterval[0], snapshot.confidenceInterval[1]];
+
+// Accuracy interval by every bootstrap method (JSON stores the pairs as arrays)
+export const DEMO_BOOTSTRAP_INTERVALS = Object.fromEntries(
+  (Object.keys(snapshot.bootstrapIntervals) as IntervalMethod[]).map(method => {
+    const interval = snapshot.bootstrapIntervals[method];
+    return [method, interval ? [interval[0], interval[1]] : null];
+  })
+) as MethodIntervals;
@@ -0,0 +1,75 @@
+// Predictive summaries of an ensemble of models (the repeat runs or posterior
+// draws) over the probability grids the plot samples
+import { ProbabilityGrid } from './contour';
+
+// What the plot's background shows
+export type HeatmapMode = 'single' | 'mean' | 'disagreement' | 'posterior';
+
+export const HEATMAP_MODE_LABELS: Record<HeatmapMode, string> = {
+  single: 'Single model',
+  mean: 'Mean prediction',
+  disagreement: 'Disagreement',
+  posterior: 'Posterior predictive'
+};
+
+// How the disagreement between the models is measured at each pixel
+export type DisagreementMeasure = 'std' | 'entropy' | 'mutualInformation';
+
+export const DISAGREEMENT_MEASURE_LABELS: Record<DisagreementMeasure, string> = {
+  std: 'Std',
+  entropy: 'Entropy',
+  mutualInformation: 'Mutual information'
+};
+
+export interface EnsembleGrids {
+  mean: ProbabilityGrid[]; // Per class: average probability over the models
+  std: ProbabilityGrid; // √(average over classes of the variance of p_c across models); for two classes the std of p₁
+  entropy: ProbabilityGrid; // Predictive entropy H(mean p), in nats
+  mutualInformation: ProbabilityGrid; // H(mean p) - mean H(p), in nats
+}
+
+// Entropy (nats) of the class probabilities at sample k
+function entropyAt(grids: ProbabilityGrid[], k: number): number {
+  return grids.reduce((sum, grid) => {
+    const p = grid.values[k];
+    return p > 0 ? sum - p * Math.log(p) : sum;
+  }, 0);
+}
+
+// Summarize the class grids of every model (all sampled on the same grid).
+// The entropy of the mean prediction is the total predictive uncertainty, high
+// near any boundary even when the models agree; subtracting the models' average entropy leaves the part that comes from
+// the models disagreeing, which is 0 wherever they all predict the same.
+export function ensembleGrids(modelGrids: ProbabilityGrid[][]): EnsembleGrids {
+  const { cols, rows, step } = modelGrids[0][0];
+  const numClasses = modelGrids[0].length;
+  const numModels = modelGrids.length;
+  const size = cols * rows;
+  const mean = Array.from({ length: numClasses }, () => ({ values: new Float32Array(size), cols, rows, step }));
+  const std = { values: new Float32Array(size), cols, rows, step };
+  const entropy = { values: new Float32Array(size), cols, rows, step };
+  const mutualInformation = { values: new Float32Array(size), cols, rows, step };
+
+  for (let k = 0; k < size; k++) {
+    let variance = 0;
+    for (let c = 0; c < numClasses; c++) {
+      let sum = 0;
+      let squares = 0;
+      modelGrids.forEach(grids => {
+        const p = grids[c].values[k];
+        sum += p;
+        squares += p * p;
+      });
+      const average = sum / numModels;
+      mean[c].values[k] = average;
+      variance += Math.max(squares / numModels - average * average, 0);
+    }
+    std.values[k] = Math.sqrt(variance / numClasses);
+
+    const averageEntropy = modelGrids.reduce((sum, grids) => sum + entropyAt(grids, k), 0) / numModels;
+    entropy.values[k] = entropyAt(mean, k);
+    mutualInformation.values[k] = Math.max(entropy.values[k] - averageEntropy, 0);
+  }
+
+  return { mean, std, entropy, mutualInformation };
+}
@@ -0,0 +1,150 @@
+import { DataPoint } from './dataGenerator';
+import { SeededRandom } from './random';
+
+export type FeatureMapType = 'linear' | 'polynomial' | 'rff';
+
+export interface FeatureMapConfig {
+  type: FeatureMapType;
+  degree: number; // Polynomial degree (2 to 6)
+  interactions: boolean; // Include cross terms like x·y for polynomial features
+  numFeatures: number; // Number of random Fourier features
+  gamma: number; // RBF kernel width: k(a, b) = exp(-gamma * |a - b|²)
+}
+
+// A fitted feature map. Everything is plain arrays so it can be posted between
+// the worker and the UI and stored in the demo snapshot.
+export interface FeatureMap {
+  config: FeatureMapConfig;
+  dim: number; // Number of features (excluding bias)
+  exponents: number[][]; // Polynomial terms as [power of x, power of y]
+  omega: number[]; // Random Fourier frequencies (dim x 2)
+  phase: number[]; // Random Fourier phases (dim)
+  mean: number[]; // Per-feature mean used to re-standardize expanded features
+  std: number[]; // Per-feature std used to re-standardize expanded features
+}
+
+export const DEFAULT_FEATURE_CONFIG: FeatureMapConfig = {
+  type: 'linear',
+  degree: 3,
+  interactions: true,
+  numFeatures: 50,
+  gamma: 1
+};
+
+// Exponent pairs for all polynomial terms of total degree 1..degree
+function polynomialExponents(degree: number, interactions: boolean): number[][] {
+  const exponents: number[][] = [];
+
+  for (let total = 1; total <= degree; total++) {
+    if (interactions) {
+      for (let py = 0; py <= total; py++) {
+        exponents.push([total - py, py]);
+      }
+    } else {
+      exponents.push([total, 0], [0, total]);
+    }
+  }
+
+  return exponents;
+}
+
+// Write the raw (not yet re-standardized) features of a standardized point
+function rawFeatures(map: FeatureMap, x: number, y: number, out: Float32Array | number[], offset: number): void {
+  const { config, dim, exponents, omega, phase } = map;
+
+  if (config.type === 'linear') {
+    out[offset] = x;
+    out[offset + 1] = y;
+  } else if (config.type === 'polynomial') {
+    for (let j = 0; j < dim; j++) {
+      out[offset + j] = Math.pow(x, exponents[j][0]) * Math.pow(y, exponents[j][1]);
+    }
+  } else {
+    const scale = Math.sqrt(2 / dim);
+    for (let j = 0; j < dim; j++) {
+      out[offset + j] = scale * Math.cos(omega[j * 2] * x + omega[j * 2 + 1] * y + phase[j]);
+    }
+  }
+}
+
+// Build a feature map for (already standardized) points. Random Fourier
+// features draw their frequencies from rng; polynomial and RFF features are
+// re-standardized so gradient descent sees comparable scales.
+export function fitFeatureMap(config: FeatureMapConfig, points: DataPoint[], rng: SeededRandom): FeatureMap {
+  let dim = 2;
+  let exponents: number[][] = [];
+  const omega: number[] = [];
+  const phase: number[] = [];
+
+  if (config.type === 'polynomial') {
+    exponents = polynomialExponents(config.degree, config.interactions);
+    dim = exponents.length;
+  } else if (config.type === 'rff') {
+    dim = config.numFeatures;
+    // Spectral density of the RBF kernel is N(0, 2·gamma·I)
+    const omegaStd = Math.sqrt(2 * config.gamma);
+    for (let j = 0; j < dim; j++) {
+      omega.push(rng.gaussian(0, omegaStd), rng.gaussian(0, omegaStd));
+      phase.push(rng.uniform(0, 2 * Math.PI));
+    }
+  }
+
+  const map: FeatureMap = {
+    config,
+    dim,
+    exponents,
+    omega,
+    phase,
+    mean: new Array(dim).fill(0),
+    std: new Array(dim).fill(1)
+  };
+
+  // Linear features are the standardized inputs themselves
+  if (config.type === 'linear' || points.length === 0) return map;
+
+  const n = points.length;
+  const row = new Float32Array(dim);
+  const sumSq = new Array(dim).fill(0);
+
+  for (const point of points) {
+    rawFeatures(map, point.x, point.y, row, 0);
+    for (let j = 0; j < dim; j++) {
+      map.mean[j] += row[j];
+      sumSq[j] += row[j] * row[j];
+    }
+  }
+
+  for (let j = 0; j < dim; j++) {
+    map.mean[j] /= n;
+    const variance = sumSq[j] / n - map.mean[j] * map.mean[j];
+    const std = Math.sqrt(Math.max(variance, 0));
+    map.std[j] = std < 1e-8 ? 1 : std;
+  }
+
+  return map;
+}
+
+// Write the features of a standardized point into out[offset .. offset + dim)
+export function applyFeatureMap(map: FeatureMap, x: number, y: number, out: Float32Array | number[], offset: number = 0): void {
+  rawFeatures(map, x, y, out, offset);
+
+  if (map.config.type === 'linear') return;
+
+  for (let j = 0; j < map.dim; j++) {
+    out[offset + j] = (out[offset + j] - map.mean[j]) / map.std[j];
+  }
+}
+
+// Human-readable names for each feature (for the stats panel)
+export function featureNames(map: FeatureMap): string[] {
+  const { config, dim, exponents } = map;
+
+  if (config.type === 'linear') return ['x₁', 'x₂'];
+
+  if (config.type === 'polynomial') {
+    const power = (name: string, p: number) => (p === 0 ? '' : p === 1 ? name : `${name}^${p}`);
+    return exponents.map(([px, py]) => [power('x₁', px), power('x₂', py)].filter(Boolean).join('·'));
+  }
+
+  return Array.from({ length: dim }, (_, j) => `rff${j + 1}`);
+}
@@ -0,0 +1,363 @@
+// Registry of synthetic 2D dataset generators
+//
+// Each generator declares its own numeric parameters (rendered as sliders by
+// ControlPanel), samples the points of every class and gives the density each
+// class samples from; generateData handles class sizes, shuffling and plot
+// bounds.
+
+import { DataPoint } from './dataGenerator';
+import { SeededRandom } from './random';
+
+export type Distribution = 'blobs' | 'moons' | 'spirals' | 'circles' | 'xor' | 'anisotropic' | 'heteroscedastic';
+
+// Parameter values keyed by GeneratorParamSpec.key; missing keys use the defaults
+export type GeneratorParams = Record<string, number>;
+
+export interface GeneratorParamSpec {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  defaultValue: number;
+  tooltip: string;
+}
+
+export interface GeneratorDefinition {
+  label: string;
+  maxClasses: number; // 2 for shapes that only make sense with two classes
+  params: GeneratorParamSpec[];
+  // Points of every class (sizes[c] points labelled c), before shuffling
+  sample(sizes: number[], params: GeneratorParams, rng: SeededRandom): DataPoint[];
+  // Density at (x, y) of the points class c (of k) is sampled from
+  density(x: number, y: number, c: number, k: number, params: GeneratorParams): number;
+}
+
+export const MAX_CLASSES = 6;
+
+const noiseParam = (defaultValue: number, label: string, tooltip: string): GeneratorParamSpec => ({
+  key: 'noise',
+  label,
+  min: 0.05,
+  max: 1.5,
+  step: 0.05,
+  defaultValue,
+  tooltip
+});
+
+// Density of an isotropic Gaussian with standard deviation sigma
+function gaussianDensity(x: number, y: number, mx: number, my: number, sigma: number): number {
+  const variance = sigma * sigma;
+  return Math.exp(-((x - mx) ** 2 + (y - my) ** 2) / (2 * variance)) / (2 * Math.PI * variance);
+}
+
+// Density of points made by jittering curve(t), t uniform on [t0, t1], with
+// isotropic Gaussian noise: the Gaussian averaged along the curve. The
+// midpoint rule uses nodes spaced a quarter of sigma apart along the curve.
+function curveDensity(
+  x: number,
+  y: number,
+  curve: (t: number) => [number, number],
+  [t0, t1]: [number, number],
+  sigma: number
+): number {
+  let length = 0;
+  let previous = curve(t0);
+  for (let i = 1; i <= 64; i++) {
+    const next = curve(t0 + ((t1 - t0) * i) / 64);
+    length += Math.hypot(next[0] - previous[0], next[1] - previous[1]);
+    previous = next;
+  }
+
+  const nodes = Math.min(4000, Math.max(64, Math.ceil((4 * length) / sigma)));
+  let sum = 0;
+  for (let i = 0; i < nodes; i++) {
+    const [mx, my] = curve(t0 + ((t1 - t0) * (i + 0.5)) / nodes);
+    sum += gaussianDensity(x, y, mx, my, sigma);
+  }
+  return sum / nodes;
+}
+
+// Centre of class c: the original (-1,-1)/(1,1) pair for two classes,
+// otherwise evenly spaced on a circle of radius 2
+function blobCentre(c: number, k: number): [number, number] {
+  if (k === 2) return c === 0 ? [-1, -1] : [1, 1];
+  const angle = (2 * Math.PI * c) / k;
+  return [2 * Math.cos(angle), 2 * Math.sin(angle)];
+}
+
+// Isotropic Gaussian cluster per class with standard deviation sigma(c)
+function sampleBlobs(sizes: number[], sigma: (c: number) => number, rng: SeededRandom): DataPoint[] {
+  const points: DataPoint[] = [];
+  sizes.forEach((size, c) => {
+    const [mx, my] = blobCentre(c, sizes.length);
+    for (let i = 0; i < size; i++) {
+      points.push({
+        x: rng.gaussian(mx, sigma(c)),
+        y: rng.gaussian(my, sigma(c)),
+        label: c
+      });
+    }
+  });
+  return points;
+}
+
+export const GENERATORS: Record<Distribution, GeneratorDefinition> = {
+  blobs: {
+    label: 'Blobs (Gaussians)',
+    maxClasses: MAX_CLASSES,
+    params: [noiseParam(0.9, 'Sigma (σ)', 'Standard deviation of Gaussians')],
+    sample: (sizes, params, rng) => sampleBlobs(sizes, () => params.noise, rng),
+    density: (x, y, c, k, { noise }) => gaussianDensity(x, y, ...blobCentre(c, k), noise)
+  },
+
+  moons: {
+    label: 'Moons (Arcs)',
+    maxClasses: 2,
+    params: [noiseParam(0.3, 'Noise', 'Noise level for moon shapes')],
+    sample: ([n0, n1], { noise }, rng) => {
+      const points: DataPoint[] = [];
+
+      // Class 0: upper moon
+      for (let i = 0; i < n0; i++) {
+        const t = rng.uniform(0, Math.PI);
+        points.push({
+          x: Math.cos(t) + rng.gaussian(0, noise),
+          y: Math.sin(t) + rng.gaussian(0, noise),
+          label: 0
+        });
+      }
+
+      // Class 1: lower moon
+      for (let i = 0; i < n1; i++) {
+        const t = rng.uniform(0, Math.PI);
+        points.push({
+          x: 1 - Math.cos(t) + rng.gaussian(0, noise),
+          y: 0.5 - Math.sin(t) + rng.gaussian(0, noise),
+          label: 1
+        });
+      }
+
+      return points;
+    },
+    density: (x, y, c, k, { noise }) => curveDensity(
+      x,
+      y,
+      c === 0 ? t => [Math.cos(t), Math.sin(t)] : t => [1 - Math.cos(t), 0.5 - Math.sin(t)],
+      [0, Math.PI],
+      noise
+    )
+  },
+
+  spirals: {
+    label: 'Spirals (Arms)',
+    maxClasses: MAX_CLASSES,
+    params: [
+      noiseParam(0.3, 'Noise', 'Jitter around the spiral arms (σ = 0.2 × noise)'),
+      {
+        key: 'turns',
+        label: 'Turns',
+        min: 0.5,
+        max: 3,
+        step: 0.25,
+        defaultValue: 1.5,
+        tooltip: 'How many times each arm winds around the centre'
+      }
+    ],
+    sample: (sizes, { noise, turns }, rng) => {
+      // One arm per class, rotated by 2π/k from the previous one
+      const points: DataPoint[] = [];
+      sizes.forEach((size, c) => {
+        for (let i = 0; i < size; i++) {
+          const t = rng.uniform(0.1, 1);
+          const angle = (2 * Math.PI * c) / sizes.length + 2 * Math.PI * turns * t;
+          points.push({
+            x: 2 * t * Math.cos(angle) + rng.gaussian(0, noise * 0.2),
+            y: 2 * t * Math.sin(angle) + rng.gaussian(0, noise * 0.2),
+            label: c
+          });
+        }
+      });
+      return points;
+    },
+    density: (x, y, c, k, { noise, turns }) => curveDensity(
+      x,
+      y,
+      t => {
+        const angle = (2 * Math.PI * c) / k + 2 * Math.PI * turns * t;
+        return [2 * t * Math.cos(angle), 2 * t * Math.sin(angle)];
+      },
+      [0.1, 1],
+      noise * 0.2
+    )
+  },
+
+  circles: {
+    label: 'Circles (Rings)',
+    maxClasses: MAX_CLASSES,
+    params: [
+      noiseParam(0.1, 'Noise', 'Radial jitter around each ring'),
+      {
+        key: 'factor',
+        label: 'Inner Radius',
+        min: 0.1,
+        max: 0.9,
+        step: 0.05,
+        defaultValue: 0.5,
+        tooltip: 'Radius of the innermost ring relative to the outer ring (radius 1)'
+      }
+    ],
+    sample: (sizes, { noise, factor }, rng) => {
+      // Class 0 is the outer ring; the others shrink evenly down to factor
+      const points: DataPoint[] = [];
+      sizes.forEach((size, c) => {
+        const radius = 1 - ((1 - factor) * c) / (sizes.length - 1);
+        for (let i = 0; i < size; i++) {
+          const angle = rng.uniform(0, 2 * Math.PI);
+          const r = radius + rng.gaussian(0, noise);
+          points.push({ x: r * Math.cos(angle), y: r * Math.sin(angle), label: c });
+        }
+      });
+      return points;
+    },
+    density: (x, y, c, k, { noise, factor }) => {
+      // The radius r ~ N(radius, noise) can come out negative, which lands on
+      // the opposite side; the angle is uniform, so the Jacobian is 1/(2π·ρ)
+      const radius = 1 - ((1 - factor) * c) / (k - 1);
+      const rho = Math.hypot(x, y);
+      const radial = (r: number) => Math.exp(-((r - radius) ** 2) / (2 * noise * noise)) / (Math.sqrt(2 * Math.PI) * noise);
+      return (radial(rho) + radial(-rho)) / (2 * Math.PI * Math.max(rho, 1e-12));
+    }
+  },
+
+  xor: {
+    label: 'XOR (Quadrants)',
+    maxClasses: 2,
+    params: [noiseParam(0.35, 'Sigma (σ)', 'Spread of each quadrant cluster')],
+    sample: (sizes, { noise }, rng) => {
+      // Class 0 in the (+,+) and (-,-) quadrants, class 1 in (+,-) and (-,+)
+      const points: DataPoint[] = [];
+      sizes.forEach((size, c) => {
+        for (let i = 0; i < size; i++) {
+          const sx = rng.random() < 0.5 ? -1 : 1;
+          const sy = c === 0 ? sx : -sx;
+          points.push({ x: rng.gaussian(sx, noise), y: rng.gaussian(sy, noise), label: c });
+        }
+      });
+      return points;
+    },
+    density: (x, y, c, k, { noise }) => {
+      const sign = c === 0 ? 1 : -1;
+      return (gaussianDensity(x, y, 1, sign, noise) + gaussianDensity(x, y, -1, -sign, noise)) / 2;
+    }
+  },
+
+  anisotropic: {
+    label: 'Anisotropic Gaussians',
+    maxClasses: MAX_CLASSES,
+    params: [
+      {
+        key: 'sigmaMajor',
+        label: 'Major σ',
+        min: 0.1,
+        max: 2,
+        step: 0.05,
+        defaultValue: 1.2,
+        tooltip: 'Standard deviation along the long axis'
+      },
+      {
+        key: 'sigmaMinor',
+        label: 'Minor σ',
+        min: 0.05,
+        max: 1.5,
+        step: 0.05,
+        defaultValue: 0.3,
+        tooltip: 'Standard deviation along the short axis'
+      },
+      {
+        key: 'rotation',
+        label: 'Rotation (°)',
+        min: -90,
+        max: 90,
+        step: 5,
+        defaultValue: 60,
+        tooltip: 'Angle of the long axis - every class shares the same covariance'
+      },
+      {
+        key: 'separation',
+        label: 'Separation',
+        min: 0.5,
+        max: 4,
+        step: 0.1,
+        defaultValue: 2,
+        tooltip: 'Distance between neighbouring class means (two classes) or diameter of the circle of means'
+      }
+    ],
+    sample: (sizes, { sigmaMajor, sigmaMinor, rotation, separation }, rng) => {
+      // Shared covariance R·diag(σ₁², σ₂²)·Rᵀ; means on a circle of diameter separation
+      const theta = (rotation * Math.PI) / 180;
+      const cos = Math.cos(theta);
+      const sin = Math.sin(theta);
+      const points: DataPoint[] = [];
+      sizes.forEach((size, c) => {
+        const angle = (2 * Math.PI * c) / sizes.length;
+        const mx = (separation / 2) * Math.cos(angle);
+        const my = (separation / 2) * Math.sin(angle);
+        for (let i = 0; i < size; i++) {
+          const u = rng.gaussian(0, sigmaMajor);
+          const v = rng.gaussian(0, sigmaMinor);
+          points.push({ x: mx + cos * u - sin * v, y: my + sin * u + cos * v, label: c });
+        }
+      });
+      return points;
+    },
+    density: (x, y, c, k, { sigmaMajor, sigmaMinor, rotation, separation }) => {
+      // Coordinates along the long and short axes, relative to the class mean
+      const theta = (rotation * Math.PI) / 180;
+      const angle = (2 * Math.PI * c) / k;
+      const dx = x - (separation / 2) * Math.cos(angle);
+      const dy = y - (separation / 2) * Math.sin(angle);
+      const u = Math.cos(theta) * dx + Math.sin(theta) * dy;
+      const v = -Math.sin(theta) * dx + Math.cos(theta) * dy;
+      return Math.exp(-(u * u) / (2 * sigmaMajor * sigmaMajor) - (v * v) / (2 * sigmaMinor * sigmaMinor)) / (2 * Math.PI * sigmaMajor * sigmaMinor);
+    }
+  },
+
+  heteroscedastic: {
+    label: 'Class-dependent Noise',
+    maxClasses: MAX_CLASSES,
+    params: [
+      {
+        key: 'noise',
+        label: 'Class 0 σ',
+        min: 0.05,
+        max: 1.5,
+        step: 0.05,
+        defaultValue: 0.3,
+        tooltip: 'Standard deviation of the first class'
+      },
+      {
+        key: 'noiseLast',
+        label: 'Last Class σ',
+        min: 0.05,
+        max: 1.5,
+        step: 0.05,
+        defaultValue: 1.2,
+        tooltip: 'Standard deviation of the last class; classes in between are interpolated'
+      }
+    ],
+    sample: (sizes, { noise, noiseLast }, rng) =>
+      sampleBlobs(sizes, c => noise + ((noiseLast - noise) * c) / (sizes.length - 1), rng),
+    density: (x, y, c, k, { noise, noiseLast }) =>
+      gaussianDensity(x, y, ...blobCentre(c, k), noise + ((noiseLast - noise) * c) / (k - 1))
+  }
+};
+
+// Parameter values for a generator, with defaults for anything not set
+export function resolveGeneratorParams(distribution: Distribution, params: GeneratorParams): GeneratorParams {
+  const resolved: GeneratorParams = {};
+  GENERATORS[distribution].params.forEach(spec => {
+    resolved[spec.key] = params[spec.key] ?? spec.defaultValue;
+  });
+  return resolved;
+}
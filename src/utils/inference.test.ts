@@ -0,0 +1,72 @@
+import { expect, test } from '@jest/globals';
+import { DataPoint } from './dataGenerator';
+import { DEFAULT_FEATURE_CONFIG, fitFeatureMap } from './features';
+import { coefficientInference, oddsRatio, twoSidedPValue } from './inference';
+import { calculateCovariance, pointsToArrays, pointsToModelArrays, standardizeFeatures } from './logisticRegression';
+import { SeededRandom } from './random';
+
+// A 2 × 2 design: x₁ = -1 has 40 points (10 positive), x₁ = +1 has 80 (40
+// positive), each split evenly over x₂ = ±1. x₂ has no effect, so the MLE is
+// the saturated fit of x₁ alone: w₀ ± w₁ are the log odds log(1/3) and 0.
+// With ±1 coding w₀ and w₁ are half the sum and difference of the two log
+// odds, so both have variance (1/10 + 1/30 + 1/40 + 1/40) / 4; w₂'s Fisher
+// information is Σ p(1 - p) = 40·3/16 + 80·1/4.
+const points: DataPoint[] = [];
+[[-1, 40, 10], [1, 80, 40]].forEach(([x, count, positives]) => {
+  for (let i = 0; i < count; i++) {
+    points.push({ x, y: i % 2 === 0 ? -1 : 1, label: i < positives ? 1 : 0 });
+  }
+});
+const mle = [-Math.log(3) / 2, Math.log(3) / 2, 0];
+const halfVariance = (1 / 10 + 1 / 30 + 1 / 40 + 1 / 40) / 4;
+const se = [Math.sqrt(halfVariance), Math.sqrt(halfVariance), 1 / Math.sqrt(40 * 3 / 16 + 80 / 4)];
+
+test('the covariance is the inverse Fisher information of the fit', () => {
+  const covariance = calculateCovariance(new Float32Array(mle), pointsToArrays(points), 0)!;
+
+  [0, 1, 2].forEach(j => expect(Math.sqrt(covariance[j * 3 + j])).toBeCloseTo(se[j], 6));
+  // Cov(w₀, w₁) = (Var l₊ - Var l₋) / 4 from the two log odds
+  expect(covariance[1]).toBeCloseTo((1 / 40 + 1 / 40 - 1 / 10 - 1 / 30) / 4, 6);
+  expect(covariance[5]).toBeCloseTo(0, 6);
+});
+
+test('Wald inference in original units matches the known fit', () => {
+  // The model works on standardized inputs; its weights are the MLE in those units
+  const { standardized, meanX, stdX } = standardizeFeatures(points);
+  const featureMap = fitFeatureMap(DEFAULT_FEATURE_CONFIG, standardized, new SeededRandom(1));
+  const weights = new Float32Array([
+    mle[0] + mle[1] * meanX[0] + mle[2] * meanX[1],
+    mle[1] * stdX[0],
+    mle[2] * stdX[1]
+  ]);
+  const data = pointsToModelArrays(points, { meanX, stdX, featureMap, numClasses: 2 });
+  const covariance = Array.from(calculateCovariance(weights, data, 0)!);
+
+  const inference = coefficientInference({ weights, covariance, meanX, stdX, featureMap }, 0.95)!;
+  expect(inference.standardized.map(coefficient => coefficient.name)).toEqual(['bias', 'x₁', 'x₂']);
+
+  const original = inference.original!;
+  original.forEach((coefficient, j) => {
+    expect(coefficient.estimate).toBeCloseTo(mle[j], 6);
+    expect(coefficient.se).toBeCloseTo(se[j], 6);
+  });
+
+  const slope = original[1];
+  expect(slope.z).toBeCloseTo(mle[1] / se[1], 5);
+  expect(slope.pValue).toBeCloseTo(twoSidedPValue(mle[1] / se[1]), 6);
+  expect(slope.lower).toBeCloseTo(mle[1] - 1.959964 * se[1], 5);
+  expect(slope.upper).toBeCloseTo(mle[1] + 1.959964 * se[1], 5);
+  expect(oddsRatio(slope).value).toBeCloseTo(Math.sqrt(3), 6);
+});
+
+test('two-sided p-values', () => {
+  expect(twoSidedPValue(0)).toBeCloseTo(1, 8);
+  expect(twoSidedPValue(1.959964)).toBeCloseTo(0.05, 6);
+  expect(twoSidedPValue(-2.575829)).toBeCloseTo(0.01, 6);
+});
+
+test('no inference without a covariance', () => {
+  const { standardized, meanX, stdX } = standardizeFeatures(points);
+  const featureMap = fitFeatureMap(DEFAULT_FEATURE_CONFIG, standardized, new SeededRandom(1));
+  expect(coefficientInference({ weights: new Float32Array(3), covariance: null, meanX, stdX, featureMap })).toBeNull();
+});
@@ -0,0 +1,102 @@
+// Coefficient inference for binary logistic models: standard errors from the
+// inverse Fisher information (ModelState.covariance), Wald z-tests and
+// confidence intervals, and the same in the original units of the inputs
+import { ModelState } from './logisticRegression';
+import { featureNames } from './features';
+import { erfc, normalQuantile } from './normal';
+
+export interface CoefficientEstimate {
+  name: string;
+  estimate: number;
+  se: number; // Standard error √Cov_jj
+  z: number; // Wald statistic estimate / se
+  pValue: number; // Two-sided, against a coefficient of 0
+  lower: number; // Wald confidence interval estimate ± z*·se at the requested level
+  upper: number;
+}
+
+export interface CoefficientInference {
+  standardized: CoefficientEstimate[]; // Bias and weights of the model features
+  original: CoefficientEstimate[] | null; // Bias and weights per unit of x₁, x₂ (linear features only)
+}
+
+// Two-sided p-value of a standard normal statistic: P(|Z| ≥ |z|)
+export function twoSidedPValue(z: number): number {
+  return erfc(Math.abs(z) / Math.SQRT2);
+}
+
+function estimates(names: string[], weights: ArrayLike<number>, covariance: ArrayLike<number>, level: number): CoefficientEstimate[] {
+  const size = names.length;
+  const critical = normalQuantile(1 - (1 - level) / 2);
+  return names.map((name, j) => {
+    const estimate = weights[j];
+    const se = Math.sqrt(Math.max(covariance[j * size + j], 0));
+    const z = estimate / se;
+    return {
+      name,
+      estimate,
+      se,
+      z,
+      pValue: twoSidedPValue(z),
+      lower: estimate - critical * se,
+      upper: estimate + critical * se
+    };
+  });
+}
+
+// The model sees zⱼ = (xⱼ - meanⱼ) / stdⱼ, so in original units the weights are
+// wⱼ / stdⱼ and the bias is w₀ - Σ wⱼ·meanⱼ / stdⱼ. This is a linear map A of
+// the weights, and their covariance becomes A·Cov·Aᵀ.
+function toOriginalUnits(
+  weights: ArrayLike<number>,
+  covariance: ArrayLike<number>,
+  meanX: ArrayLike<number>,
+  stdX: ArrayLike<number>
+): { weights: number[]; covariance: number[] } {
+  const size = 3;
+  const A = [
+    [1, -meanX[0] / stdX[0], -meanX[1] / stdX[1]],
+    [0, 1 / stdX[0], 0],
+    [0, 0, 1 / stdX[1]]
+  ];
+
+  const mapped = A.map(row => row.reduce((sum, a, j) => sum + a * weights[j], 0));
+  const mappedCovariance = new Array<number>(size * size).fill(0);
+  for (let r = 0; r < size; r++) {
+    for (let c = 0; c < size; c++) {
+      for (let u = 0; u < size; u++) {
+        for (let v = 0; v < size; v++) {
+          mappedCovariance[r * size + c] += A[r][u] * covariance[u * size + v] * A[c][v];
+        }
+      }
+    }
+  }
+
+  return { weights: mapped, covariance: mappedCovariance };
+}
+
+// Odds ratio e^w of a weight: the factor the odds of class 1 are multiplied by
+// per unit step in its feature, with the Wald interval mapped through exp
+export function oddsRatio(coefficient: CoefficientEstimate): { value: number; lower: number; upper: number } {
+  return {
+    value: Math.exp(coefficient.estimate),
+    lower: Math.exp(coefficient.lower),
+    upper: Math.exp(coefficient.upper)
+  };
+}
+
+// Wald inference for every coefficient of a binary model (null for softmax)
+export function coefficientInference(
+  model: Pick<ModelState, 'weights' | 'covariance' | 'meanX' | 'stdX' | 'featureMap'>,
+  level: number = 0.95
+): CoefficientInference | null {
+  const { weights, covariance, meanX, stdX, featureMap } = model;
+  if (!covariance) return null;
+
+  const names = ['bias', ...featureNames(featureMap)];
+  const standardized = estimates(names, weights, covariance, level);
+  if (featureMap.config.type !== 'linear') return { standardized, original: null };
+
+  const original = toOriginalUnits(weights, covariance, meanX, stdX);
+  return { standardized, original: estimates(names, original.weights, original.covariance, level) };
+}
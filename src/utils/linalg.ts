@@ -0,0 +1,91 @@
+// Small dense linear algebra helpers (row-major matrices stored in Float64Array)
+
+// Solve A x = b for a square (size x size) system by Gaussian elimination with
+// partial pivoting. A and b are left untouched. Near-singular pivots are
+// replaced by a tiny value so a solution is always returned.
+export function solveLinearSystem(A: Float64Array, b: Float64Array, size: number): Float64Array {
+  const M = Float64Array.from(A);
+  const x = Float64Array.from(b);
+
+  for (let col = 0; col < size; col++) {
+    // Pick the largest pivot in this column
+    let pivot = col;
+    for (let row = col + 1; row < size; row++) {
+      if (Math.abs(M[row * size + col]) > Math.abs(M[pivot * size + col])) pivot = row;
+    }
+
+    if (pivot !== col) {
+      for (let k = 0; k < size; k++) {
+        const tmp = M[col * size + k];
+        M[col * size + k] = M[pivot * size + k];
+        M[pivot * size + k] = tmp;
+      }
+      const tmp = x[col];
+      x[col] = x[pivot];
+      x[pivot] = tmp;
+    }
+
+    if (Math.abs(M[col * size + col]) < 1e-12) M[col * size + col] = 1e-12;
+
+    // Eliminate below the pivot
+    for (let row = col + 1; row < size; row++) {
+      const factor = M[row * size + col] / M[col * size + col];
+      if (factor === 0) continue;
+      for (let k = col; k < size; k++) {
+        M[row * size + k] -= factor * M[col * size + k];
+      }
+      x[row] -= factor * x[col];
+    }
+  }
+
+  // Back substitution
+  for (let row = size - 1; row >= 0; row--) {
+    let sum = x[row];
+    for (let k = row + 1; k < size; k++) {
+      sum -= M[row * size + k] * x[k];
+    }
+    x[row] = sum / M[row * size + row];
+  }
+
+  return x;
+}
+
+// Inverse of a square (size x size) matrix, one column per solve
+export function invertMatrix(A: Float64Array, size: number): Float64Array {
+  const inverse = new Float64Array(size * size);
+  const unit = new Float64Array(size);
+
+  for (let col = 0; col < size; col++) {
+    unit.fill(0);
+    unit[col] = 1;
+    const column = solveLinearSystem(A, unit, size);
+    for (let row = 0; row < size; row++) {
+      inverse[row * size + col] = column[row];
+    }
+  }
+
+  return inverse;
+}
+
+// Lower-triangular L with L·Lᵀ = A for a symmetric positive definite A.
+// Pivots that are not positive (rounding on a near-singular A) are clamped
+// to a tiny value, as in solveLinearSystem.
+export function choleskyDecomposition(A: Float64Array, size: number): Float64Array {
+  const L = new Float64Array(size * size);
+
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col <= row; col++) {
+      let sum = A[row * size + col];
+      for (let k = 0; k < col; k++) {
+        sum -= L[row * size + k] * L[col * size + k];
+      }
+      if (row === col) {
+        L[row * size + col] = Math.sqrt(Math.max(sum, 1e-12));
+      } else {
+        L[row * size + col] = sum / L[col * size + col];
+      }
+    }
+  }
+
+  return L;
+}
@@ -1,24 +1,53 @@
 import { DataPoint } from './dataGenerator';
+import { SeededRandom } from './random';
+import { FeatureMap, FeatureMapConfig, applyFeatureMap, fitFeatureMap } from './features';
+import { OptimizerConfig, OptimizerState, applyGradientUpdate, createOptimizerState } from './optimizers';
+import { invertMatrix, solveLinearSystem } from './linalg';
+import { PenaltyConfig, penaltyStrengths, penaltyValue, softThreshold } from './regularization';
+import { EarlyStoppingConfig, ScheduleConfig, scheduledLearningRate } from './schedules';
+import { DEFAULT_SPLIT_CONFIG, SplitConfig, SplitIndices, SplitRole, SplitSource, assignSplit } from './splits';
+import { ClassWeighting, ClassificationMetrics, SplitMetrics, classWeights, computeMetrics } from './metrics';
 
 export interface ModelConfig {
-  lambda: number; // L2 regularization parameter
+  lambda: number; // Regularization strength
+  penalty: PenaltyConfig; // How λ is applied: none, L2, L1 or elastic-net
   learningRate: number;
+  schedule: ScheduleConfig; // Learning-rate schedule (with optional warmup) applied to learningRate
   epochs: number;
+  earlyStopping: EarlyStoppingConfig; // Stop on validation loss and restore the best checkpoint
+  seed: number; // Model seed: split shuffling, weight init and resampling (separate from the data seed)
+  features: FeatureMapConfig; // Feature expansion applied after standardization
+  optimizer: OptimizerConfig;
+  split: SplitConfig; // Train/val/test ratios, stratification and cross-validation folds
+  classWeighting: ClassWeighting; // Per-class weights on the training loss
 }
 
 export interface TrainingData {
-  X: Float32Array; // Features (n x 2)
-  y: Float32Array; // Labels (n)
+  X: Float32Array; // Features (n x d)
+  y: Float32Array; // Labels (n), 0..k-1
   n: number;
+  d: number; // Number of features per point
+  k: number; // Number of classes: 2 = binary sigmoid model, more = softmax
 }
 
 export interface ModelState {
-  weights: Float32Array; // [bias, w1, w2]
+  weights: Float32Array; // [bias, w1, ..., wd], or one such block per class for softmax
+  numClasses: number;
   trainAccuracy: number;
   valAccuracy: number;
-  losses: number[];
+  testAccuracy: number | null; // Accuracy on the held-out test split (null without one)
+  classAccuracies: { train: number[]; val: number[] }; // Per-class accuracy (recall)
+  metrics: SplitMetrics; // Confusion matrices and scores of each split
+  covariance: number[] | null; // Inverse Fisher information of the weights ((d + 1)², row-major); binary models only
+  losses: number[]; // Training loss after every epoch
+  valLosses: number[]; // Validation log loss after every epoch
+  bestEpoch: number | null; // Epoch of the restored best checkpoint (early stopping only)
+  stoppedEpoch: number | null; // Epoch at which early stopping ended training
   meanX: Float32Array;
   stdX: Float32Array;
+  featureMap: FeatureMap; // Maps standardized (x, y) to the d model features
+  split: SplitSource | null; // What its split was drawn from (null for repeat runs, which split mid-stream)
+  config: ModelConfig; // Settings it was trained with, which the current ones may no longer match
 }
 
 // Numerically stable sigmoid function
@@ -72,45 +101,161 @@ export function standardizeFeatures(points: DataPoint[]): {
   return { standardized, meanX, stdX };
 }
 
-// Split data into train/validation
-export function trainValSplit(points: DataPoint[], trainRatio: number = 0.8): {
-  train: DataPoint[];
-  val: DataPoint[];
-} {
-  const n = points.length;
-  const nTrain = Math.floor(n * trainRatio);
-  
-  return {
-    train: points.slice(0, nTrain),
-    val: points.slice(nTrain)
-  };
+// Number of classes in a dataset (labels are 0..k-1; at least 2)
+export function countClasses(points: DataPoint[]): number {
+  let k = 2;
+  for (const point of points) {
+    k = Math.max(k, point.label + 1);
+  }
+  return k;
 }
 
-// Convert points to arrays
-export function pointsToArrays(points: DataPoint[]): TrainingData {
+// Weight blocks of d + 1 (bias first): one for the binary model, one per class for softmax
+export function weightBlocks(k: number): number {
+  return k > 2 ? k : 1;
+}
+
+// Convert (standardized) points to arrays, expanding them with a feature map if given
+export function pointsToArrays(points: DataPoint[], featureMap?: FeatureMap, k: number = 2): TrainingData {
   const n = points.length;
-  const X = new Float32Array(n * 2);
+  const d = featureMap ? featureMap.dim : 2;
+  const X = new Float32Array(n * d);
   const y = new Float32Array(n);
   
   for (let i = 0; i < n; i++) {
-    X[i * 2] = points[i].x;
-    X[i * 2 + 1] = points[i].y;
+    if (featureMap) {
+      applyFeatureMap(featureMap, points[i].x, points[i].y, X, i * d);
+    } else {
+      X[i * 2] = points[i].x;
+      X[i * 2 + 1] = points[i].y;
+    }
     y[i] = points[i].label;
   }
   
-  return { X, y, n };
+  return { X, y, n, d, k };
+}
+
+// Standardize raw points with a trained model's mean/std and expand them with its feature map
+export function pointsToModelArrays(
+  points: DataPoint[],
+  model: Pick<ModelState, 'meanX' | 'stdX' | 'featureMap' | 'numClasses'>
+): TrainingData {
+  const { meanX, stdX, featureMap, numClasses } = model;
+  const standardized = points.map(point => ({
+    x: (point.x - meanX[0]) / stdX[0],
+    y: (point.y - meanX[1]) / stdX[1],
+    label: point.label
+  }));
+  
+  return pointsToArrays(standardized, featureMap, numClasses);
+}
+
+export interface PreparedData {
+  trainData: TrainingData;
+  valData: TrainingData;
+  testData: TrainingData;
+  meanX: Float32Array;
+  stdX: Float32Array;
+  featureMap: FeatureMap;
+}
+
+// Standardize, fit the feature map (random features draw from rng) and convert
+// the rows of each split into arrays
+export function prepareSplitData(
+  points: DataPoint[],
+  indices: SplitIndices,
+  rng: SeededRandom,
+  features: FeatureMapConfig
+): PreparedData {
+  const { standardized, meanX, stdX } = standardizeFeatures(points);
+  const featureMap = fitFeatureMap(features, standardized, rng);
+  const k = countClasses(points);
+  const rows = (subset: number[]) => pointsToArrays(subset.map(i => standardized[i]), featureMap, k);
+  
+  return {
+    trainData: rows(indices.train),
+    valData: rows(indices.val),
+    testData: rows(indices.test),
+    meanX,
+    stdX,
+    featureMap
+  };
+}
+
+// Split (shuffled with rng) and prepare the points for training
+export function prepareTrainingData(
+  points: DataPoint[],
+  rng: SeededRandom,
+  features: FeatureMapConfig,
+  split: SplitConfig = DEFAULT_SPLIT_CONFIG
+): PreparedData {
+  const indices = assignSplit(points.map(point => point.label), split, rng);
+  return prepareSplitData(points, indices, rng, features);
+}
+
+// Logit of row i for weight block b: w0 + sum_j w_j * x_ij
+function linearPredictor(weights: Float32Array, X: Float32Array, i: number, d: number, block: number = 0): number {
+  const base = block * (d + 1);
+  const offset = i * d;
+  let logit = weights[base];
+  
+  for (let j = 0; j < d; j++) {
+    logit += weights[base + j + 1] * X[offset + j];
+  }
+  
+  return logit;
+}
+
+// Softmax probabilities of the k classes for row i, written into probs
+function softmaxProbabilities(
+  weights: Float32Array,
+  X: Float32Array,
+  i: number,
+  d: number,
+  k: number,
+  probs: Float64Array
+): void {
+  // Subtract the largest logit so exp never overflows
+  let maxLogit = -Infinity;
+  for (let c = 0; c < k; c++) {
+    probs[c] = linearPredictor(weights, X, i, d, c);
+    maxLogit = Math.max(maxLogit, probs[c]);
+  }
+  
+  let sum = 0;
+  for (let c = 0; c < k; c++) {
+    probs[c] = Math.exp(probs[c] - maxLogit);
+    sum += probs[c];
+  }
+  for (let c = 0; c < k; c++) {
+    probs[c] /= sum;
+  }
+}
+
+// Predicted class of row i: p ≥ 0.5 for the binary model, the most probable class for softmax
+function predictClass(weights: Float32Array, data: TrainingData, i: number, probs: Float64Array): number {
+  const { X, d, k } = data;
+  
+  if (k === 2) {
+    return sigmoid(linearPredictor(weights, X, i, d)) >= 0.5 ? 1 : 0;
+  }
+  
+  softmaxProbabilities(weights, X, i, d, k, probs);
+  let best = 0;
+  for (let c = 1; c < k; c++) {
+    if (probs[c] > probs[best]) best = c;
+  }
+  return best;
 }
 
 // Calculate accuracy
-export function calculateAccuracy(weights: Float32Array, X: Float32Array, y: Float32Array, n: number): number {
+export function calculateAccuracy(weights: Float32Array, data: TrainingData): number {
+  const { y, n, k } = data;
+  const probs = new Float64Array(k);
   let correct = 0;
   
   for (let i = 0; i < n; i++) {
-    const logit = weights[0] + weights[1] * X[i * 2] + weights[2] * X[i * 2 + 1];
-    const prob = sigmoid(logit);
-    const predicted = prob >= 0.5 ? 1 : 0;
-    
-    if (predicted === y[i]) {
+    if (predictClass(weights, data, i, probs) === y[i]) {
       correct++;
     }
   }
@@ -118,12 +263,90 @@ export function calculateAccuracy(weights: Float32Array, X: Float32Array, y: Flo
   return correct / n;
 }
 
-// Calculate loss with L2 regularization
-export function calculateLoss(weights: Float32Array, X: Float32Array, y: Float32Array, n: number, lambda: number): number {
+// Accuracy within each class (recall); NaN for classes without rows
+export function calculateClassAccuracies(weights: Float32Array, data: TrainingData): number[] {
+  const { y, n, k } = data;
+  const probs = new Float64Array(k);
+  const correct = new Array<number>(k).fill(0);
+  const counts = new Array<number>(k).fill(0);
+  
+  for (let i = 0; i < n; i++) {
+    counts[y[i]]++;
+    if (predictClass(weights, data, i, probs) === y[i]) {
+      correct[y[i]]++;
+    }
+  }
+  
+  return correct.map((hits, c) => hits / counts[c]);
+}
+
+// Predicted class of every row
+export function calculatePredictions(weights: Float32Array, data: TrainingData): Int32Array {
+  const { n, k } = data;
+  const probs = new Float64Array(k);
+  const predictions = new Int32Array(n);
+  
+  for (let i = 0; i < n; i++) {
+    predictions[i] = predictClass(weights, data, i, probs);
+  }
+  
+  return predictions;
+}
+
+// Class probabilities of every row (n × k, row-major)
+export function calculateProbabilities(weights: Float32Array, data: TrainingData): Float64Array {
+  const { X, n, d, k } = data;
+  const probs = new Float64Array(n * k);
+  
+  for (let i = 0; i < n; i++) {
+    if (k > 2) {
+      softmaxProbabilities(weights, X, i, d, k, probs.subarray(i * k, (i + 1) * k));
+    } else {
+      probs[i * 2 + 1] = sigmoid(linearPredictor(weights, X, i, d));
+      probs[i * 2] = 1 - probs[i * 2 + 1];
+    }
+  }
+  
+  return probs;
+}
+
+// Confusion matrix and scores of the model on one split
+export function calculateMetrics(weights: Float32Array, data: TrainingData): ClassificationMetrics {
+  return computeMetrics(calculateProbabilities(weights, data), data.y, data.k);
+}
+
+// Class probabilities (n × k) and labels of a trained model on the points of
+// each split role, e.g. to rescore a split at another threshold
+export function splitProbabilities(
+  points: DataPoint[],
+  roles: SplitRole[],
+  model: Pick<ModelState, 'weights' | 'meanX' | 'stdX' | 'featureMap' | 'numClasses'>
+): Record<SplitRole, { probs: Float64Array; labels: Float32Array }> {
+  const scoreRole = (role: SplitRole) => {
+    const data = pointsToModelArrays(points.filter((_, i) => roles[i] === role), model);
+    return { probs: calculateProbabilities(model.weights, data), labels: data.y };
+  };
+  
+  return { train: scoreRole('train'), val: scoreRole('val'), test: scoreRole('test') };
+}
+
+// Average cross-entropy (log loss) without any penalty; with class weights,
+// each row's loss is scaled by the weight of its class
+export function calculateLogLoss(weights: Float32Array, data: TrainingData, rowClassWeights: ArrayLike<number> | null = null): number {
+  const { X, y, n, d, k } = data;
   let loss = 0;
   
+  if (k > 2) {
+    const probs = new Float64Array(k);
+    for (let i = 0; i < n; i++) {
+      softmaxProbabilities(weights, X, i, d, k, probs);
+      loss -= Math.log(Math.max(1e-15, probs[y[i]])) * (rowClassWeights ? rowClassWeights[y[i]] : 1);
+    }
+    return loss / n;
+  }
+  
   for (let i = 0; i < n; i++) {
-    const logit = weights[0] + weights[1] * X[i * 2] + weights[2] * X[i * 2 + 1];
+    const logit = linearPredictor(weights, X, i, d);
     // Clamp logit to avoid numerical issues
     const clampedLogit = Math.max(-500, Math.min(500, logit));
     const prob = sigmoid(clampedLogit);
@@ -131,98 +354,436 @@ export function calculateLoss(weights: Float32Array, X: Float32Array, y: Float32
     // Clamp prob to avoid log(0)
     const clampedProb = Math.max(1e-15, Math.min(1 - 1e-15, prob));
     
+    const classWeight = rowClassWeights ? rowClassWeights[y[i]] : 1;
     if (y[i] === 1) {
-      loss -= Math.log(clampedProb);
+      loss -= classWeight * Math.log(clampedProb);
     } else {
-      loss -= Math.log(1 - clampedProb);
+      loss -= classWeight * Math.log(1 - clampedProb);
+    }
+  }
+  
+  return loss / n;
+}
+
+// Calculate loss with the configured penalty (and class weights, if any)
+export function calculateLoss(
+  weights: Float32Array,
+  data: TrainingData,
+  lambda: number,
+  penalty: PenaltyConfig,
+  rowClassWeights: ArrayLike<number> | null = null
+): number {
+  // Add regularization (don't regularize biases)
+  return calculateLogLoss(weights, data, rowClassWeights) + penaltyValue(weights, penalty, lambda, data.d + 1);
+}
+
+// Average gradient over the given rows of the (class-weighted) loss plus its
+// smooth L2 term (l2 = coefficient of |w|²; any L1 term is handled by proximal steps)
+export function calculateGradient(
+  weights: Float32Array,
+  data: TrainingData,
+  rows: ArrayLike<number>,
+  l2: number,
+  rowClassWeights: ArrayLike<number> | null = null
+): Float32Array {
+  const { X, y, d, k } = data;
+  const blockSize = d + 1;
+  const count = rows.length;
+  const gradients = new Float32Array(weights.length);
+  const probs = new Float64Array(k);
+  
+  for (let r = 0; r < count; r++) {
+    const i = rows[r];
+    const classWeight = rowClassWeights ? rowClassWeights[y[i]] : 1;
+    
+    if (k > 2) {
+      // Softmax: block c gets (p_c - [y = c]) · [1, x]
+      softmaxProbabilities(weights, X, i, d, k, probs);
+      for (let c = 0; c < k; c++) {
+        const error = classWeight * (probs[c] - (y[i] === c ? 1 : 0));
+        const base = c * blockSize;
+        gradients[base] += error;
+        for (let j = 0; j < d; j++) {
+          gradients[base + j + 1] += error * X[i * d + j];
+        }
+      }
+      continue;
+    }
+    
+    const logit = linearPredictor(weights, X, i, d);
+    const prob = sigmoid(logit);
+    const error = classWeight * (prob - y[i]);
+    
+    gradients[0] += error; // bias gradient
+    for (let j = 0; j < d; j++) {
+      gradients[j + 1] += error * X[i * d + j]; // feature weight gradients
     }
   }
   
-  loss /= n;
+  // Average gradients and add regularization (don't regularize biases)
+  for (let j = 0; j < weights.length; j++) {
+    gradients[j] = j % blockSize === 0 ? gradients[j] / count : gradients[j] / count + 2 * l2 * weights[j];
+  }
   
-  // Add L2 regularization (don't regularize bias)
-  const l2 = lambda * (weights[1] * weights[1] + weights[2] * weights[2]);
-  return loss + l2;
+  return gradients;
 }
 
-// Train logistic regression with gradient descent
-export function trainLogisticRegression(
+// Softmax is unchanged by adding the same vector to every class block, so its
+// Hessian is singular; this ridge keeps the Newton system solvable
+const SOFTMAX_HESSIAN_RIDGE = 1e-6;
+
+// Hessian of the loss plus its L2 term (weights.length square, blocks of d + 1
+// with the bias first). Binary: Xᵀ diag(p(1 - p)) X / n; softmax: the block
+// (c, c') is Xᵀ diag(p_c(δ_cc' - p_c')) X / n. Class weights scale each row's
+// diagonal entry; 2·l2 is added on the feature diagonal.
+export function calculateHessian(
+  weights: Float32Array,
+  data: TrainingData,
+  l2: number,
+  rowClassWeights: ArrayLike<number> | null = null
+): Float64Array {
+  const { X, y, n, d, k } = data;
+  const size = weights.length;
+  const blockSize = d + 1;
+  const H = new Float64Array(size * size);
+  const row = new Float64Array(blockSize);
+  const probs = new Float64Array(k);
+  
+  for (let i = 0; i < n; i++) {
+    row[0] = 1;
+    for (let j = 0; j < d; j++) {
+      row[j + 1] = X[i * d + j];
+    }
+    
+    const classWeight = rowClassWeights ? rowClassWeights[y[i]] : 1;
+    let curvature = 0; // p(1 - p) of the binary model
+    if (k > 2) {
+      softmaxProbabilities(weights, X, i, d, k, probs);
+    } else {
+      const prob = sigmoid(linearPredictor(weights, X, i, d));
+      curvature = classWeight * prob * (1 - prob);
+    }
+    
+    // Accumulate the upper triangle
+    for (let u = 0; u < size; u++) {
+      const c = Math.floor(u / blockSize);
+      for (let v = u; v < size; v++) {
+        const c2 = Math.floor(v / blockSize);
+        const w = k > 2 ? classWeight * probs[c] * ((c === c2 ? 1 : 0) - probs[c2]) : curvature;
+        H[u * size + v] += w * row[u % blockSize] * row[v % blockSize];
+      }
+    }
+  }
+  
+  for (let a = 0; a < size; a++) {
+    for (let b = a; b < size; b++) {
+      H[a * size + b] /= n;
+      H[b * size + a] = H[a * size + b];
+    }
+    if (a % blockSize !== 0) H[a * size + a] += 2 * l2;
+    if (k > 2) H[a * size + a] += SOFTMAX_HESSIAN_RIDGE;
+  }
+  
+  return H;
+}
+
+// Approximate covariance of the fitted weights: the inverse of the Fisher
+// information n·H, with H the Hessian of the (penalized, class-weighted) mean
+// loss at the weights. Softmax weights are only identified up to a shared
+// shift, so there is no covariance for them.
+export function calculateCovariance(
+  weights: Float32Array,
+  data: TrainingData,
+  l2: number,
+  rowClassWeights: ArrayLike<number> | null = null
+): Float64Array | null {
+  if (data.k > 2 || data.n === 0) return null;
+  
+  const size = weights.length;
+  const fisher = calculateHessian(weights, data, l2, rowClassWeights).map(value => value * data.n);
+  return invertMatrix(fisher, size);
+}
+
+// Resumable training state: everything needed to continue from a given epoch
+export interface TrainingCheckpoint {
+  weights: Float32Array; // [bias, w1, ..., wd] per weight block
+  epoch: number; // Number of epochs completed
+  losses: number[]; // Training loss after every epoch
+  valLosses: number[]; // Validation log loss after every epoch
+  best: { weights: Float32Array; epoch: number; valLoss: number } | null; // Lowest validation loss so far (early stopping)
+  stoppedEpoch: number | null; // Set when early stopping ends training
+  restoredEpoch: number | null; // Epoch of the best checkpoint once it has been restored
+  optimizerState: OptimizerState;
+  batchRng: SeededRandom; // Shuffles minibatches each epoch
+}
+
+// Fresh checkpoint for d features and k classes with small random initial
+// feature weights drawn from rng (biases start at zero)
+export function createCheckpoint(rng: SeededRandom, d: number = 2, k: number = 2): TrainingCheckpoint {
+  const weights = new Float32Array(weightBlocks(k) * (d + 1));
+  for (let j = 0; j < weights.length; j++) {
+    if (j % (d + 1) !== 0) weights[j] = rng.uniform(-0.05, 0.05);
+  }
+  
+  return {
+    weights,
+    epoch: 0,
+    losses: [],
+    valLosses: [],
+    best: null,
+    stoppedEpoch: null,
+    restoredEpoch: null,
+    optimizerState: createOptimizerState(weights.length),
+    batchRng: new SeededRandom(rng.nextSeed())
+  };
+}
+
+// Row order for one epoch: in order for full batch, shuffled for minibatches
+function epochRows(n: number, batchSize: number, rng: SeededRandom): Int32Array {
+  const rows = new Int32Array(n);
+  for (let i = 0; i < n; i++) rows[i] = i;
+  
+  if (batchSize > 0 && batchSize < n) {
+    for (let i = n - 1; i > 0; i--) {
+      const j = Math.floor(rng.random() * (i + 1));
+      const tmp = rows[i];
+      rows[i] = rows[j];
+      rows[j] = tmp;
+    }
+  }
+  
+  return rows;
+}
+
+// Run a single training epoch with the configured optimizer, advancing the checkpoint in place
+export function trainEpoch(
+  checkpoint: TrainingCheckpoint,
   trainData: TrainingData,
   valData: TrainingData,
   config: ModelConfig,
   onProgress?: (epoch: number, loss: number, trainAcc: number, valAcc: number) => void
-): ModelState {
-  const { lambda, learningRate, epochs } = config;
-  const { X: trainX, y: trainY, n: trainN } = trainData;
-  const { X: valX, y: valY, n: valN } = valData;
-  
-  // Initialize weights randomly
-  const weights = new Float32Array([0, Math.random() * 0.1 - 0.05, Math.random() * 0.1 - 0.05]);
-  const losses: number[] = [];
-  
-  for (let epoch = 0; epoch < epochs; epoch++) {
-    // Calculate gradients
-    const gradients = new Float32Array(3);
-    
-    for (let i = 0; i < trainN; i++) {
-      const logit = weights[0] + weights[1] * trainX[i * 2] + weights[2] * trainX[i * 2 + 1];
-      const prob = sigmoid(logit);
-      const error = prob - trainY[i];
-      
-      gradients[0] += error; // bias gradient
-      gradients[1] += error * trainX[i * 2]; // w1 gradient
-      gradients[2] += error * trainX[i * 2 + 1]; // w2 gradient
+): void {
+  const { lambda, penalty, schedule, epochs, earlyStopping, optimizer } = config;
+  const { n: trainN, d } = trainData;
+  const { n: valN } = valData;
+  const { weights, epoch } = checkpoint;
+  const size = weights.length;
+  const { l1, l2 } = penaltyStrengths(penalty, lambda);
+  const learningRate = scheduledLearningRate(schedule, config.learningRate, epoch, epochs);
+  const rowClassWeights = classWeights(trainData.y, trainData.k, config.classWeighting);
+  
+  if (optimizer.type === 'newton') {
+    // Newton-Raphson / IRLS: w ← w - H⁻¹∇L on the full batch
+    const gradients = calculateGradient(weights, trainData, epochRows(trainN, 0, checkpoint.batchRng), l2, rowClassWeights);
+    const hessian = calculateHessian(weights, trainData, l2, rowClassWeights);
+    const step = solveLinearSystem(hessian, Float64Array.from(gradients), size);
+    for (let j = 0; j < size; j++) {
+      weights[j] -= step[j];
     }
     
-    // Average gradients and add regularization
-    gradients[0] /= trainN;
-    gradients[1] = gradients[1] / trainN + 2 * lambda * weights[1];
-    gradients[2] = gradients[2] / trainN + 2 * lambda * weights[2];
+    // L1: proximal step scaled by the Hessian diagonal (a diagonal proximal-Newton approximation)
+    if (l1 > 0) {
+      for (let j = 0; j < size; j++) {
+        if (j % (d + 1) !== 0) weights[j] = softThreshold(weights[j], l1 / hessian[j * size + j]);
+      }
+    }
+  } else {
+    // One optimizer update per minibatch (a single update for full batch)
+    const rows = epochRows(trainN, optimizer.batchSize, checkpoint.batchRng);
+    const batchSize = optimizer.batchSize > 0 ? optimizer.batchSize : trainN;
     
-    // Update weights
-    weights[0] -= learningRate * gradients[0];
-    weights[1] -= learningRate * gradients[1];
-    weights[2] -= learningRate * gradients[2];
+    for (let start = 0; start < trainN; start += batchSize) {
+      const gradients = calculateGradient(weights, trainData, rows.subarray(start, start + batchSize), l2, rowClassWeights);
+      applyGradientUpdate(optimizer, checkpoint.optimizerState, weights, gradients, learningRate, l1, d + 1);
+    }
+  }
+  
+  // Record the losses every epoch so optimizers can be compared curve by curve
+  // (the training loss is the weighted objective; validation loss is unweighted)
+  const loss = calculateLoss(weights, trainData, lambda, penalty, rowClassWeights);
+  checkpoint.losses.push(loss);
+  const valLoss = valN > 0 ? calculateLogLoss(weights, valData) : NaN;
+  checkpoint.valLosses.push(valLoss);
+  
+  // Report accuracies every 10 epochs
+  if (onProgress && (epoch % 10 === 0 || epoch === epochs - 1)) {
+    const trainAcc = calculateAccuracy(weights, trainData);
+    const valAcc = calculateAccuracy(weights, valData);
+    onProgress(epoch, loss, trainAcc, valAcc);
+  }
+  
+  checkpoint.epoch = epoch + 1;
+  
+  if (earlyStopping.enabled && valN > 0) {
+    if (!checkpoint.best || valLoss < checkpoint.best.valLoss) {
+      checkpoint.best = { weights: new Float32Array(weights), epoch: checkpoint.epoch, valLoss };
+    } else if (checkpoint.epoch - checkpoint.best.epoch >= earlyStopping.patience) {
+      checkpoint.stoppedEpoch = checkpoint.epoch;
+    }
     
-    // Calculate loss and accuracies
-    if (epoch % 10 === 0 || epoch === epochs - 1) {
-      const loss = calculateLoss(weights, trainX, trainY, trainN, lambda);
-      const trainAcc = calculateAccuracy(weights, trainX, trainY, trainN);
-      const valAcc = calculateAccuracy(weights, valX, valY, valN);
-      
-      losses.push(loss);
-      
-      if (onProgress) {
-        onProgress(epoch, loss, trainAcc, valAcc);
-      }
+    // Training is over: restore the weights with the lowest validation loss
+    if (isTrainingFinished(checkpoint, config)) {
+      weights.set(checkpoint.best.weights);
+      checkpoint.restoredEpoch = checkpoint.best.epoch;
     }
   }
+}
+
+// True once all epochs have run or early stopping has triggered
+export function isTrainingFinished(checkpoint: TrainingCheckpoint, config: ModelConfig): boolean {
+  return checkpoint.stoppedEpoch !== null || checkpoint.epoch >= config.epochs;
+}
+
+// Build a model from a checkpoint (final or intermediate). Standardization,
+// the feature map and the split source are attached by the caller.
+export function checkpointToModel(
+  checkpoint: TrainingCheckpoint,
+  config: ModelConfig,
+  trainData: TrainingData,
+  valData: TrainingData,
+  testData?: TrainingData
+): Omit<ModelState, 'meanX' | 'stdX' | 'featureMap' | 'split'> {
+  const { weights, losses, valLosses, stoppedEpoch, restoredEpoch } = checkpoint;
+  const { l2 } = penaltyStrengths(config.penalty, config.lambda);
+  const covariance = calculateCovariance(weights, trainData, l2, classWeights(trainData.y, trainData.k, config.classWeighting));
   
-  const finalTrainAcc = calculateAccuracy(weights, trainX, trainY, trainN);
-  const finalValAcc = calculateAccuracy(weights, valX, valY, valN);
+  return {
+    weights: new Float32Array(weights),
+    numClasses: trainData.k,
+    trainAccuracy: calculateAccuracy(weights, trainData),
+    valAccuracy: calculateAccuracy(weights, valData),
+    testAccuracy: testData && testData.n > 0 ? calculateAccuracy(weights, testData) : null,
+    classAccuracies: {
+      train: calculateClassAccuracies(weights, trainData),
+      val: calculateClassAccuracies(weights, valData)
+    },
+    metrics: {
+      train: calculateMetrics(weights, trainData),
+      val: calculateMetrics(weights, valData),
+      test: testData && testData.n > 0 ? calculateMetrics(weights, testData) : null
+    },
+    covariance: covariance ? Array.from(covariance) : null,
+    losses: [...losses],
+    valLosses: [...valLosses],
+    bestEpoch: restoredEpoch,
+    stoppedEpoch,
+    config
+  };
+}
+
+// Train logistic regression with gradient descent, optionally resuming from a checkpoint
+export function trainLogisticRegression(
+  trainData: TrainingData,
+  valData: TrainingData,
+  config: ModelConfig,
+  onProgress?: (epoch: number, loss: number, trainAcc: number, valAcc: number) => void,
+  checkpoint: TrainingCheckpoint = createCheckpoint(new SeededRandom(config.seed), trainData.d, trainData.k)
+): Omit<ModelState, 'meanX' | 'stdX' | 'featureMap' | 'split'> {
+  while (!isTrainingFinished(checkpoint, config)) {
+    trainEpoch(checkpoint, trainData, valData, config, onProgress);
+  }
   
+  return checkpointToModel(checkpoint, config, trainData, valData);
+}
+
+// A training job's run: the split, then the feature map and initial weights,
+// all drawn from one model-seed stream. trainEpoch advances the checkpoint.
+export interface TrainingRun extends PreparedData {
+  checkpoint: TrainingCheckpoint;
+}
+
+export function startTrainingRun(points: DataPoint[], config: ModelConfig): TrainingRun {
+  const rng = new SeededRandom(config.seed);
+  const prepared = prepareTrainingData(points, rng, config.features, config.split);
+  return { ...prepared, checkpoint: createCheckpoint(rng, prepared.trainData.d, prepared.trainData.k) };
+}
+
+// The model at the run's current checkpoint, with the split it was drawn from
+export function trainingRunModel(run: TrainingRun, config: ModelConfig): ModelState {
+  const { checkpoint, trainData, valData, testData, meanX, stdX, featureMap } = run;
   return {
-    weights,
-    trainAccuracy: finalTrainAcc,
-    valAccuracy: finalValAcc,
-    losses,
-    meanX: new Float32Array([0, 0]), // Will be set by caller
-    stdX: new Float32Array([1, 1])   // Will be set by caller
+    ...checkpointToModel(checkpoint, config, trainData, valData, testData),
+    meanX,
+    stdX,
+    featureMap,
+    split: { seed: config.seed, config: config.split }
+  };
+}
+
+// Train to the end in one go (the train job does the same one epoch per step)
+export function fitModel(points: DataPoint[], config: ModelConfig): ModelState {
+  const run = startTrainingRun(points, config);
+  while (!isTrainingFinished(run.checkpoint, config)) {
+    trainEpoch(run.checkpoint, run.trainData, run.valData, config);
+  }
+  return trainingRunModel(run, config);
+}
+
+// Field-by-field equality of plain config values (nested objects and arrays included)
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length &&
+    keys.every(key => sameValue((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
+
+// Whether the current settings still match the ones a model was trained with
+export function sameModelConfig(a: ModelConfig, b: ModelConfig): boolean {
+  return sameValue(a, b);
+}
+
+// Build a class-probability function for points in original units. It returns
+// one buffer of numClasses probabilities that is overwritten on every call.
+export function createClassPredictor(
+  model: Pick<ModelState, 'weights' | 'meanX' | 'stdX' | 'featureMap' | 'numClasses'>
+): (x: number, y: number) => Float64Array {
+  const { weights, meanX, stdX, featureMap, numClasses } = model;
+  const features = new Float32Array(featureMap.dim);
+  const probs = new Float64Array(numClasses);
+  
+  return (x, y) => {
+    // Standardize input, then expand into model features
+    const x_std = (x - meanX[0]) / stdX[0];
+    const y_std = (y - meanX[1]) / stdX[1];
+    applyFeatureMap(featureMap, x_std, y_std, features);
+    
+    if (numClasses > 2) {
+      softmaxProbabilities(weights, features, 0, featureMap.dim, numClasses, probs);
+    } else {
+      probs[1] = sigmoid(linearPredictor(weights, features, 0, featureMap.dim));
+      probs[0] = 1 - probs[1];
+    }
+    return probs;
   };
 }
 
+// Class predicted from class probabilities: p ≥ 0.5 for two classes, otherwise the most probable class
+export function classFromProbabilities(probs: ArrayLike<number>): number {
+  if (probs.length === 2) return probs[1] >= 0.5 ? 1 : 0;
+  
+  let best = 0;
+  for (let c = 1; c < probs.length; c++) {
+    if (probs[c] > probs[best]) best = c;
+  }
+  return best;
+}
+
+// Build a function giving the probability of class 1 (the positive class of a
+// binary model) for points in original units. The feature buffer is reused
+// between calls, so prefer this over predictProba in loops.
+export function createPredictor(
+  model: Pick<ModelState, 'weights' | 'meanX' | 'stdX' | 'featureMap' | 'numClasses'>
+): (x: number, y: number) => number {
+  const predictClasses = createClassPredictor(model);
+  return (x, y) => predictClasses(x, y)[1];
+}
+
 // Predict probability for a point
 export function predictProba(
   x: number,
   y: number,
-  weights: Float32Array,
-  meanX: Float32Array,
-  stdX: Float32Array
+  model: Pick<ModelState, 'weights' | 'meanX' | 'stdX' | 'featureMap' | 'numClasses'>
 ): number {
-  // Standardize input
-  const x_std = (x - meanX[0]) / stdX[0];
-  const y_std = (y - meanX[1]) / stdX[1];
-  
-  const logit = weights[0] + weights[1] * x_std + weights[2] * y_std;
-  return sigmoid(logit);
+  return createPredictor(model)(x, y);
 }
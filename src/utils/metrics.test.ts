@@ -0,0 +1,84 @@
+import { expect, test } from '@jest/globals';
+import { classWeights, computeMetrics, thresholdCurves } from './metrics';
+
+// Binary probabilities (p₀, p₁) of five rows, the first three of class 1
+const p1 = [0.9, 0.6, 0.4, 0.2, 0.7];
+const probs = p1.flatMap(p => [1 - p, p]);
+const labels = [1, 1, 1, 0, 0];
+
+test('confusion matrix and per-class scores of a binary model', () => {
+  const metrics = computeMetrics(probs, labels, 2);
+
+  expect(metrics.n).toBe(5);
+  expect(metrics.confusion).toEqual([[1, 1], [1, 2]]);
+  expect(metrics.precision[0]).toBeCloseTo(1 / 2, 12);
+  expect(metrics.precision[1]).toBeCloseTo(2 / 3, 12);
+  expect(metrics.recall[1]).toBeCloseTo(2 / 3, 12);
+  expect(metrics.f1[1]).toBeCloseTo(2 / 3, 12);
+  expect(metrics.accuracy).toBeCloseTo(3 / 5, 12);
+  expect(metrics.balancedAccuracy).toBeCloseTo((1 / 2 + 2 / 3) / 2, 12);
+  expect(metrics.macroF1).toBeCloseTo((1 / 2 + 2 / 3) / 2, 12);
+  expect(metrics.logLoss).toBeCloseTo(-(Math.log(0.9) + Math.log(0.6) + Math.log(0.4) + Math.log(0.8) + Math.log(0.3)) / 5, 12);
+  expect(metrics.brier).toBeCloseTo((0.01 + 0.16 + 0.36 + 0.04 + 0.49) / 5, 12);
+});
+
+test('the threshold moves predictions but not the probability scores', () => {
+  const metrics = computeMetrics(probs, labels, 2, 0.3);
+  const standard = computeMetrics(probs, labels, 2);
+
+  expect(metrics.confusion).toEqual([[1, 1], [0, 3]]);
+  expect(metrics.logLoss).toBe(standard.logLoss);
+  expect(metrics.brier).toBe(standard.brier);
+});
+
+test('undefined scores are NaN and left out of the averages', () => {
+  // Three classes; class 2 has rows but is never predicted, class 0 is predicted but has no rows
+  const softmax = [
+    0.6, 0.3, 0.1,
+    0.1, 0.8, 0.1,
+    0.2, 0.5, 0.3
+  ];
+  const metrics = computeMetrics(softmax, [1, 1, 2], 3);
+
+  expect(metrics.confusion).toEqual([[0, 0, 0], [1, 1, 0], [0, 1, 0]]);
+  expect(metrics.recall[0]).toBeNaN();
+  expect(metrics.precision[2]).toBeNaN();
+  expect(metrics.f1[0]).toBeNaN();
+  expect(metrics.balancedAccuracy).toBeCloseTo((1 / 2 + 0) / 2, 12);
+  expect(metrics.macroF1).toBeCloseTo(1 / 2, 12);
+  expect(metrics.brier).toBeCloseTo((0.36 + 0.49 + 0.01 + 0.01 + 0.04 + 0.01 + 0.04 + 0.25 + 0.49) / 3, 12);
+});
+
+test('balanced class weights', () => {
+  expect(classWeights(labels, 2, 'none')).toBeNull();
+
+  const weights = Array.from(classWeights([0, 0, 0, 1], 2, 'balanced')!);
+  expect(weights[0]).toBeCloseTo(4 / 6, 12);
+  expect(weights[1]).toBeCloseTo(2, 12);
+
+  // A class without rows gets no weight and doesn't count towards k
+  expect(Array.from(classWeights([0, 2, 2, 2], 3, 'balanced')!)).toEqual([2, 0, 4 / 6]);
+});
+
+test('ROC and precision-recall curves', () => {
+  // Ranked by score: 0.9 (+), 0.7 (-), 0.6 (+), 0.4 (+), 0.2 (-)
+  const curves = thresholdCurves(p1, labels);
+
+  expect([curves.positives, curves.negatives]).toEqual([3, 2]);
+  expect(curves.roc.map(point => [point.fpr, point.tpr])).toEqual([[0, 0], [0, 1 / 3], [0.5, 1 / 3], [0.5, 2 / 3], [0.5, 1], [1, 1]]);
+  expect(curves.roc[2].threshold).toBe(0.7);
+  // 4 of the 6 positive-negative pairs are ranked correctly
+  expect(curves.auc).toBeCloseTo(4 / 6, 12);
+  expect(curves.pr[0]).toEqual({ threshold: Infinity, recall: 0, precision: 1 });
+  expect(curves.pr[4].precision).toBeCloseTo(3 / 4, 12);
+  expect(curves.averagePrecision).toBeCloseTo(1 / 3 + (1 / 3) * (2 / 3) + (1 / 3) * (3 / 4), 12);
+});
+
+test('tied scores move together along the curves', () => {
+  const curves = thresholdCurves([0.5, 0.5, 0.5, 0.5], [1, 0, 1, 0]);
+
+  expect(curves.roc).toHaveLength(2);
+  expect(curves.roc[1]).toEqual({ threshold: 0.5, fpr: 1, tpr: 1 });
+  expect(curves.auc).toBeCloseTo(0.5, 12);
+  expect(curves.averagePrecision).toBeCloseTo(0.5, 12);
+});
@@ -0,0 +1,182 @@
+// Classification metrics and class weights
+//
+// Metrics are computed from a model's class probabilities (n × k, row-major),
+// so the same code scores every split of every model.
+
+export type ClassWeighting = 'none' | 'balanced';
+
+export const CLASS_WEIGHTING_LABELS: Record<ClassWeighting, string> = {
+  none: 'None',
+  balanced: 'Balanced (n / k·n_c)'
+};
+
+export interface ClassificationMetrics {
+  n: number;
+  confusion: number[][]; // confusion[true][predicted] = number of rows
+  precision: number[]; // Per class; NaN when the class is never predicted
+  recall: number[]; // Per class; NaN when the class has no rows
+  f1: number[]; // Per class; NaN when precision or recall is
+  accuracy: number;
+  balancedAccuracy: number; // Mean recall over the classes that have rows
+  macroF1: number; // Mean F1 over the classes where it is defined
+  logLoss: number;
+  brier: number; // Binary: mean (p - y)²; softmax: mean Σ_c (p_c - [y = c])²
+}
+
+// Metrics of every split a model was trained and scored on
+export interface SplitMetrics {
+  train: ClassificationMetrics;
+  val: ClassificationMetrics;
+  test: ClassificationMetrics | null; // null without a test split
+}
+
+// Per-class loss weights for the training labels (null = unweighted). Balanced
+// weights n / (k·n_c) make every class contribute equally and still average to 1.
+export function classWeights(labels: ArrayLike<number>, k: number, weighting: ClassWeighting): Float64Array | null {
+  if (weighting === 'none') return null;
+
+  const counts = new Float64Array(k);
+  for (let i = 0; i < labels.length; i++) counts[labels[i]]++;
+  const present = counts.filter(count => count > 0).length;
+  return counts.map(count => (count > 0 ? labels.length / (present * count) : 0));
+}
+
+// Predicted class of row i: p₁ ≥ threshold for two classes, the most probable class otherwise
+function predictedClass(probs: ArrayLike<number>, i: number, k: number, threshold: number): number {
+  const offset = i * k;
+  if (k === 2) return probs[offset + 1] >= threshold ? 1 : 0;
+
+  let best = 0;
+  for (let c = 1; c < k; c++) {
+    if (probs[offset + c] > probs[offset + best]) best = c;
+  }
+  return best;
+}
+
+// Mean of the values that are not NaN (NaN if there are none)
+function meanDefined(values: number[]): number {
+  const defined = values.filter(value => !Number.isNaN(value));
+  return defined.length > 0 ? defined.reduce((sum, value) => sum + value, 0) / defined.length : NaN;
+}
+
+// Confusion matrix, per-class precision/recall/F1 and the summary scores of
+// probabilities probs (n × k) against labels. The threshold on p₁ only applies
+// to two classes; log loss and Brier score don't depend on it.
+export function computeMetrics(
+  probs: ArrayLike<number>,
+  labels: ArrayLike<number>,
+  k: number,
+  threshold: number = 0.5
+): ClassificationMetrics {
+  const n = labels.length;
+  const confusion = Array.from({ length: k }, () => new Array<number>(k).fill(0));
+  let logLoss = 0;
+  let brier = 0;
+
+  for (let i = 0; i < n; i++) {
+    const label = labels[i];
+    confusion[label][predictedClass(probs, i, k, threshold)]++;
+    logLoss -= Math.log(Math.max(1e-15, probs[i * k + label]));
+
+    if (k === 2) {
+      brier += (probs[i * k + 1] - label) ** 2;
+    } else {
+      for (let c = 0; c < k; c++) {
+        brier += (probs[i * k + c] - (c === label ? 1 : 0)) ** 2;
+      }
+    }
+  }
+
+  const precision: number[] = [];
+  const recall: number[] = [];
+  const f1: number[] = [];
+  let correct = 0;
+  for (let c = 0; c < k; c++) {
+    const truePositives = confusion[c][c];
+    const actual = confusion[c].reduce((sum, count) => sum + count, 0);
+    const predicted = confusion.reduce((sum, row) => sum + row[c], 0);
+    correct += truePositives;
+    precision.push(truePositives / predicted);
+    recall.push(truePositives / actual);
+    f1.push((2 * precision[c] * recall[c]) / (precision[c] + recall[c]));
+    // Both defined but zero: F1 is 0, not 0/0
+    if (precision[c] === 0 && recall[c] === 0) f1[c] = 0;
+  }
+
+  return {
+    n,
+    confusion,
+    precision,
+    recall,
+    f1,
+    accuracy: correct / n,
+    balancedAccuracy: meanDefined(recall),
+    macroF1: meanDefined(f1),
+    logLoss: logLoss / n,
+    brier: brier / n
+  };
+}
+
+export interface RocPoint {
+  threshold: number; // Points with p₁ ≥ threshold are predicted positive
+  fpr: number;
+  tpr: number;
+}
+
+export interface PrPoint {
+  threshold: number;
+  recall: number;
+  precision: number;
+}
+
+// Threshold-free evaluation of a binary model: every distinct score is a threshold
+export interface ThresholdCurves {
+  roc: RocPoint[]; // From (0, 0) at threshold ∞ to (1, 1)
+  pr: PrPoint[]; // From recall 0 (precision 1) to recall 1
+  auc: number; // Area under the ROC curve (trapezoids)
+  averagePrecision: number; // Σ (Rᵢ - Rᵢ₋₁)·Pᵢ over the PR points (step interpolation)
+  positives: number;
+  negatives: number;
+}
+
+// ROC and precision-recall curves of scores (p₁) against binary labels. Tied
+// scores move together, so each distinct score adds one point.
+export function thresholdCurves(scores: ArrayLike<number>, labels: ArrayLike<number>): ThresholdCurves {
+  const n = labels.length;
+  const order = Array.from({ length: n }, (_, i) => i).sort((a, b) => scores[b] - scores[a]);
+  let positives = 0;
+  for (let i = 0; i < n; i++) positives += labels[i] === 1 ? 1 : 0;
+  const negatives = n - positives;
+
+  const roc: RocPoint[] = [{ threshold: Infinity, fpr: 0, tpr: 0 }];
+  const pr: PrPoint[] = [{ threshold: Infinity, recall: 0, precision: 1 }];
+  let truePositives = 0;
+  let falsePositives = 0;
+  let auc = 0;
+  let averagePrecision = 0;
+
+  let r = 0;
+  while (r < n) {
+    const threshold = scores[order[r]];
+    while (r < n && scores[order[r]] === threshold) {
+      if (labels[order[r]] === 1) truePositives++; else falsePositives++;
+      r++;
+    }
+
+    const previous = roc[roc.length - 1];
+    const point = {
+      threshold,
+      fpr: negatives > 0 ? falsePositives / negatives : 0,
+      tpr: positives > 0 ? truePositives / positives : 0
+    };
+    auc += (point.fpr - previous.fpr) * (point.tpr + previous.tpr) / 2;
+    roc.push(point);
+
+    const recall = point.tpr;
+    const precision = truePositives / (truePositives + falsePositives);
+    averagePrecision += (recall - pr[pr.length - 1].recall) * precision;
+    pr.push({ threshold, recall, precision });
+  }
+
+  return { roc, pr, auc, averagePrecision, positives, negatives };
+}
@@ -0,0 +1,111 @@
+// Optimizers for logistic regression training
+//
+// First-order optimizers (SGD, momentum, Nesterov, Adam) update the weights
+// from a (minibatch) gradient, followed by a proximal step for any L1 penalty. Newton/IRLS uses the full-batch Hessian instead
+// and is handled in trainEpoch; it ignores the learning rate and batch size.
+
+import { softThreshold } from './regularization';
+
+export type OptimizerType = 'sgd' | 'momentum' | 'nesterov' | 'adam' | 'newton';
+
+export interface OptimizerConfig {
+  type: OptimizerType;
+  batchSize: number; // Minibatch size for first-order optimizers (0 = full batch)
+  momentum: number; // Momentum coefficient μ for momentum/Nesterov
+}
+
+export const DEFAULT_OPTIMIZER_CONFIG: OptimizerConfig = {
+  type: 'sgd',
+  batchSize: 0,
+  momentum: 0.9
+};
+
+export const OPTIMIZER_LABELS: Record<OptimizerType, string> = {
+  sgd: 'SGD',
+  momentum: 'Momentum',
+  nesterov: 'Nesterov',
+  adam: 'Adam',
+  newton: 'Newton/IRLS'
+};
+
+// Per-epoch training loss of one optimizer, for convergence comparisons
+export interface OptimizerCurve {
+  optimizer: OptimizerType;
+  losses: number[];
+}
+
+// Adam hyperparameters (standard defaults)
+const ADAM_BETA1 = 0.9;
+const ADAM_BETA2 = 0.999;
+const ADAM_EPSILON = 1e-8;
+
+// Per-weight optimizer memory, kept in the training checkpoint so paused
+// training resumes with the same velocity/moment estimates
+export interface OptimizerState {
+  velocity: Float32Array; // Momentum/Nesterov velocity
+  m: Float32Array; // Adam first moment
+  v: Float32Array; // Adam second moment
+  t: number; // Number of updates applied (Adam bias correction)
+}
+
+export function createOptimizerState(size: number): OptimizerState {
+  return {
+    velocity: new Float32Array(size),
+    m: new Float32Array(size),
+    v: new Float32Array(size),
+    t: 0
+  };
+}
+
+// Apply one first-order update to weights in place. A non-zero l1 soft-
+// thresholds each feature weight by l1 times that weight's effective step size;
+// biases start every block of blockSize weights (one block per softmax class).
+export function applyGradientUpdate(
+  config: OptimizerConfig,
+  state: OptimizerState,
+  weights: Float32Array,
+  gradients: Float32Array,
+  learningRate: number,
+  l1: number = 0,
+  blockSize: number = weights.length
+): void {
+  const { type, momentum } = config;
+  const { velocity, m, v } = state;
+  state.t++;
+
+  for (let j = 0; j < weights.length; j++) {
+    const g = gradients[j];
+    let stepSize = learningRate;
+
+    switch (type) {
+      case 'momentum':
+        velocity[j] = momentum * velocity[j] + g;
+        weights[j] -= learningRate * velocity[j];
+        break;
+
+      case 'nesterov':
+        // Look-ahead form: step along the gradient plus the updated velocity
+        velocity[j] = momentum * velocity[j] + g;
+        weights[j] -= learningRate * (g + momentum * velocity[j]);
+        break;
+
+      case 'adam': {
+        m[j] = ADAM_BETA1 * m[j] + (1 - ADAM_BETA1) * g;
+        v[j] = ADAM_BETA2 * v[j] + (1 - ADAM_BETA2) * g * g;
+        const mHat = m[j] / (1 - Math.pow(ADAM_BETA1, state.t));
+        const vHat = v[j] / (1 - Math.pow(ADAM_BETA2, state.t));
+        stepSize = learningRate / (Math.sqrt(vHat) + ADAM_EPSILON);
+        weights[j] -= stepSize * mHat;
+        break;
+      }
+
+      default:
+        weights[j] -= learningRate * g;
+    }
+
+    // Proximal step for the L1 penalty (biases are not penalized)
+    if (l1 > 0 && j % blockSize !== 0) {
+      weights[j] = softThreshold(weights[j], stepSize * l1);
+    }
+  }
+}
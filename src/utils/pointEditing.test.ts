@@ -0,0 +1,12 @@
+import { expect, test } from '@jest/globals';
+import { brushStroke } from './pointEditing';
+import { SeededRandom } from './random';
+
+test('brush strokes are reproducible from the seed and stay in the disk', () => {
+  const stroke = brushStroke(100, 50, 20, 40, new SeededRandom(1));
+  expect(brushStroke(100, 50, 20, 40, new SeededRandom(1))).toEqual(stroke);
+  expect(brushStroke(100, 50, 20, 40, new SeededRandom(2))).not.toEqual(stroke);
+  stroke.forEach(([x, y]) => {
+    expect(Math.hypot(x - 100, y - 50)).toBeLessThanOrEqual(20);
+  });
+});
@@ -0,0 +1,81 @@
+// Editing points directly on the plot
+
+import { DataPoint } from './dataGenerator';
+import { SeededRandom } from './random';
+
+export type EditTool = 'point' | 'brush';
+
+export interface EditConfig {
+  enabled: boolean;
+  tool: EditTool;
+  label: number; // Class given to added points
+  brushRadius: number; // Pixels
+  liveRetrain: boolean; // Retrain after each edit, keeping the old boundary on screen meanwhile
+  brushSeed: number; // Seeds the brush scatter, so the same strokes paint the same points
+}
+
+export const DEFAULT_EDIT_CONFIG: EditConfig = {
+  enabled: false,
+  tool: 'point',
+  label: 0,
+  brushRadius: 20,
+  liveRetrain: false,
+  brushSeed: 1
+};
+
+export const EDIT_TOOL_LABELS: Record<EditTool, string> = {
+  point: 'Point (click / drag)',
+  brush: 'Brush (paint)'
+};
+
+// Undo steps kept in memory
+export const MAX_EDIT_HISTORY = 50;
+
+// Pixel distance within which a click picks an existing point
+export const PICK_RADIUS = 7;
+
+// Index of the point closest to (px, py) in pixels, or -1 if none is within radius
+export function nearestPointIndex(
+  points: DataPoint[],
+  toPixel: (point: DataPoint) => [number, number],
+  px: number,
+  py: number,
+  radius: number
+): number {
+  let best = -1;
+  let bestDistance = radius * radius;
+  points.forEach((point, i) => {
+    const [x, y] = toPixel(point);
+    const distance = (x - px) * (x - px) + (y - py) * (y - py);
+    if (distance <= bestDistance) {
+      best = i;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+// Points outside the pixel disk of the given radius around (px, py)
+export function erasePoints(
+  points: DataPoint[],
+  toPixel: (point: DataPoint) => [number, number],
+  px: number,
+  py: number,
+  radius: number
+): DataPoint[] {
+  return points.filter(point => {
+    const [x, y] = toPixel(point);
+    return (x - px) * (x - px) + (y - py) * (y - py) > radius * radius;
+  });
+}
+
+// Pixel positions of count points scattered uniformly over the brush disk
+export function brushStroke(px: number, py: number, radius: number, count: number, rng: SeededRandom): [number, number][] {
+  const stroke: [number, number][] = [];
+  for (let i = 0; i < count; i++) {
+    const r = radius * Math.sqrt(rng.random());
+    const angle = 2 * Math.PI * rng.random();
+    stroke.push([px + r * Math.cos(angle), py + r * Math.sin(angle)]);
+  }
+  return stroke;
+}
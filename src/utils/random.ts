@@ -26,12 +26,18 @@ export class SeededRandom {
       return this.spare * std + mean;
     }
 
+    // Box-Muller gives two standard normals; the second is kept unscaled for the next call
     this.hasSpare = true;
     const u = this.random();
     const v = this.random();
-    const mag = std * Math.sqrt(-2 * Math.log(u));
+    const mag = Math.sqrt(-2 * Math.log(u));
     this.spare = mag * Math.cos(2 * Math.PI * v);
-    return mag * Math.sin(2 * Math.PI * v) + mean;
+    return mag * Math.sin(2 * Math.PI * v) * std + mean;
+  }
+
+  // Draw an integer seed for an independent child generator
+  nextSeed(): number {
+    return Math.floor(this.random() * 4294967296);
   }
 
   private hasSpare: boolean = false;
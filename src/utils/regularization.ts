@@ -0,0 +1,92 @@
+// Penalties on the feature weights (the bias is never penalized)
+//
+// The penalty is λ·[α·|w|₁ + (1 - α)·|w|²]: L2 is α = 0, L1 is α = 1 and
+// elastic-net mixes the two. The smooth L2 part goes into the gradient; the L1
+// part is applied by a proximal (soft-thresholding) step after each update, so
+// weights can become exactly zero.
+
+export type PenaltyType = 'none' | 'l2' | 'l1' | 'elasticnet';
+
+export interface PenaltyConfig {
+  type: PenaltyType;
+  alpha: number; // Elastic-net mixing: share of λ given to the L1 term
+}
+
+export const DEFAULT_PENALTY_CONFIG: PenaltyConfig = {
+  type: 'l2',
+  alpha: 0.5
+};
+
+export const PENALTY_LABELS: Record<PenaltyType, string> = {
+  none: 'None',
+  l2: 'L2 (Ridge)',
+  l1: 'L1 (Lasso)',
+  elasticnet: 'Elastic-net'
+};
+
+// λ range of the regularization slider and path (log10 units)
+export const LOG_LAMBDA_RANGE: [number, number] = [-4, 1];
+
+// Split λ into the coefficients of the L1 and L2 terms
+export function penaltyStrengths(penalty: PenaltyConfig, lambda: number): { l1: number; l2: number } {
+  switch (penalty.type) {
+    case 'none':
+      return { l1: 0, l2: 0 };
+    case 'l1':
+      return { l1: lambda, l2: 0 };
+    case 'elasticnet':
+      return { l1: lambda * penalty.alpha, l2: lambda * (1 - penalty.alpha) };
+    default:
+      return { l1: 0, l2: lambda };
+  }
+}
+
+// Penalty value for the loss (biases, the first weight of every block of
+// blockSize, are excluded)
+export function penaltyValue(
+  weights: Float32Array,
+  penalty: PenaltyConfig,
+  lambda: number,
+  blockSize: number = weights.length
+): number {
+  const { l1, l2 } = penaltyStrengths(penalty, lambda);
+  let abs = 0;
+  let squares = 0;
+
+  for (let j = 0; j < weights.length; j++) {
+    if (j % blockSize === 0) continue;
+    abs += Math.abs(weights[j]);
+    squares += weights[j] * weights[j];
+  }
+
+  return l1 * abs + l2 * squares;
+}
+
+// Proximal operator of t·|w|: shrink towards zero, snapping to exactly zero
+export function softThreshold(w: number, t: number): number {
+  if (w > t) return w - t;
+  if (w < -t) return w + t;
+  return 0;
+}
+
+// Number of feature weights (biases excluded) that are exactly zero
+export function countZeroWeights(weights: ArrayLike<number>, blockSize: number = weights.length): number {
+  let zeros = 0;
+  for (let j = 0; j < weights.length; j++) {
+    if (j % blockSize !== 0 && weights[j] === 0) zeros++;
+  }
+  return zeros;
+}
+
+// Evenly spaced λ values (in log10) across the slider range
+export function lambdaGrid(steps: number = 21): number[] {
+  const [lo, hi] = LOG_LAMBDA_RANGE;
+  return Array.from({ length: steps }, (_, i) => Math.pow(10, lo + ((hi - lo) * i) / (steps - 1)));
+}
+
+// One fitted model on the regularization path
+export interface RegularizationPathPoint {
+  lambda: number;
+  weights: number[]; // [bias, w1, ..., wd], one block per class for softmax
+  valAccuracy: number;
+}
@@ -0,0 +1,63 @@
+// Learning-rate schedules and early stopping settings
+
+export type ScheduleType = 'constant' | 'step' | 'exponential' | 'cosine';
+
+export interface ScheduleConfig {
+  type: ScheduleType;
+  warmupEpochs: number; // Linear warmup from η/warmup to η before the schedule starts (0 = none)
+  stepSize: number; // Epochs per decay step (step and exponential)
+  decay: number; // Factor applied every stepSize epochs (step and exponential)
+}
+
+export interface EarlyStoppingConfig {
+  enabled: boolean;
+  patience: number; // Epochs without a new best validation loss before stopping
+}
+
+export const DEFAULT_SCHEDULE_CONFIG: ScheduleConfig = {
+  type: 'constant',
+  warmupEpochs: 0,
+  stepSize: 30,
+  decay: 0.5
+};
+
+export const DEFAULT_EARLY_STOPPING_CONFIG: EarlyStoppingConfig = {
+  enabled: false,
+  patience: 10
+};
+
+export const SCHEDULE_LABELS: Record<ScheduleType, string> = {
+  constant: 'Constant',
+  step: 'Step decay',
+  exponential: 'Exponential',
+  cosine: 'Cosine'
+};
+
+// Learning rate for a (0-based) epoch out of totalEpochs
+export function scheduledLearningRate(
+  schedule: ScheduleConfig,
+  baseRate: number,
+  epoch: number,
+  totalEpochs: number
+): number {
+  const { type, warmupEpochs, stepSize, decay } = schedule;
+
+  if (epoch < warmupEpochs) {
+    return (baseRate * (epoch + 1)) / warmupEpochs;
+  }
+
+  // The schedule itself starts once warmup is over
+  const t = epoch - warmupEpochs;
+  const span = Math.max(1, totalEpochs - warmupEpochs);
+
+  switch (type) {
+    case 'step':
+      return baseRate * Math.pow(decay, Math.floor(t / stepSize));
+    case 'exponential':
+      return baseRate * Math.pow(decay, t / stepSize);
+    case 'cosine':
+      return baseRate * 0.5 * (1 + Math.cos((Math.PI * t) / span));
+    default:
+      return baseRate;
+  }
+}
@@ -0,0 +1,57 @@
+import { expect, test } from '@jest/globals';
+import { SeededRandom } from './random';
+import { DEFAULT_SPLIT_CONFIG, assignSplit, crossValidationFolds, formatSplitRatios, shuffledIndices, splitRoles, summarizeFolds } from './splits';
+
+// 90 points of class 0 and 10 of class 1
+const labels = Array.from({ length: 100 }, (_, i) => (i < 90 ? 0 : 1));
+const config = { ...DEFAULT_SPLIT_CONFIG, valRatio: 0.2, testRatio: 0.1 };
+
+const count = (rows: number[], c: number) => rows.filter(i => labels[i] === c).length;
+
+test('a split partitions the rows in the configured ratios', () => {
+  const split = assignSplit(labels, config, new SeededRandom(3));
+
+  expect([split.train.length, split.val.length, split.test.length]).toEqual([70, 20, 10]);
+  expect([...split.train, ...split.val, ...split.test].sort((a, b) => a - b)).toEqual(labels.map((_, i) => i));
+  expect(assignSplit(labels, config, new SeededRandom(3))).toEqual(split);
+});
+
+test('a stratified split keeps each class share in every part', () => {
+  const split = assignSplit(labels, { ...config, stratified: true }, new SeededRandom(3));
+
+  expect([count(split.train, 0), count(split.val, 0), count(split.test, 0)]).toEqual([63, 18, 9]);
+  expect([count(split.train, 1), count(split.val, 1), count(split.test, 1)]).toEqual([7, 2, 1]);
+});
+
+test('split roles match the split drawn from the same seed', () => {
+  const roles = splitRoles(labels, 7, config);
+  const split = assignSplit(labels, config, new SeededRandom(7));
+
+  split.train.forEach(i => expect(roles[i]).toBe('train'));
+  split.val.forEach(i => expect(roles[i]).toBe('val'));
+  split.test.forEach(i => expect(roles[i]).toBe('test'));
+});
+
+test('folds partition the pool, and stratified folds share out every class', () => {
+  const pool = shuffledIndices(100, new SeededRandom(5));
+
+  const folds = crossValidationFolds(pool, labels, 3, false);
+  expect(folds.map(fold => fold.length)).toEqual([33, 33, 34]);
+  expect(folds.flat()).toEqual(pool);
+
+  const stratified = crossValidationFolds(pool, labels, 3, true);
+  expect(stratified.flat().sort((a, b) => a - b)).toEqual(pool.slice().sort((a, b) => a - b));
+  expect(stratified.map(fold => count(fold, 0))).toEqual([30, 30, 30]);
+  expect(stratified.map(fold => count(fold, 1))).toEqual([4, 3, 3]);
+});
+
+test('fold summaries and ratio labels', () => {
+  const fold = (valAccuracy: number) => ({ trainAccuracy: 1, valAccuracy, valLoss: 0 });
+  const summary = summarizeFolds([fold(0.8), fold(0.9), fold(1)]);
+
+  expect(summary.mean).toBeCloseTo(0.9, 12);
+  expect(summary.std).toBeCloseTo(0.1, 12);
+  expect(summarizeFolds([fold(0.7)])).toEqual({ mean: 0.7, std: 0 });
+  expect(formatSplitRatios(DEFAULT_SPLIT_CONFIG)).toBe('80/20');
+  expect(formatSplitRatios(config)).toBe('70/20/10');
+});
@@ -0,0 +1,147 @@
+// Train/validation/test splits and k-fold cross-validation folds
+//
+// Everything is derived from one shuffled order of the points, so a split is
+// fully determined by the model seed and the split settings.
+
+import { SeededRandom } from './random';
+
+export type SplitRole = 'train' | 'val' | 'test';
+
+export interface SplitConfig {
+  valRatio: number; // Fraction of points used for validation (early stopping, val metrics)
+  testRatio: number; // Fraction held out for a final test score (0 = no test set)
+  stratified: boolean; // Keep every class's share the same in each split and fold
+  folds: number; // k for cross-validation
+}
+
+// Row indices of each split, in shuffled order
+export interface SplitIndices {
+  train: number[];
+  val: number[];
+  test: number[];
+}
+
+// Model seed and split settings a training job drew its split with. A model
+// keeps them, so later jobs can use its own rows whatever the current settings
+export interface SplitSource {
+  seed: number;
+  config: SplitConfig;
+}
+
+// Scores of the model trained with one fold held out
+export interface CrossValidationFold {
+  trainAccuracy: number;
+  valAccuracy: number;
+  valLoss: number;
+}
+
+export const DEFAULT_SPLIT_CONFIG: SplitConfig = {
+  valRatio: 0.2,
+  testRatio: 0,
+  stratified: false,
+  folds: 5
+};
+
+// Shuffled order of 0..n-1 (Fisher-Yates)
+export function shuffledIndices(n: number, rng: SeededRandom): number[] {
+  const order = Array.from({ length: n }, (_, i) => i);
+  for (let i = n - 1; i > 0; i--) {
+    const j = Math.floor(rng.random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+}
+
+// Split rows into train/val/test. Without stratification the shuffled order is
+// cut once (train first, test last); with it, each class is cut in the same
+// proportions. The default config reproduces the original 80/20 split.
+export function assignSplit(labels: ArrayLike<number>, config: SplitConfig, rng: SeededRandom): SplitIndices {
+  const n = labels.length;
+  const order = shuffledIndices(n, rng);
+  const trainRatio = 1 - config.valRatio - config.testRatio;
+
+  if (!config.stratified) {
+    const nTrain = Math.floor(n * trainRatio);
+    const nTest = Math.round(n * config.testRatio);
+    return {
+      train: order.slice(0, nTrain),
+      val: order.slice(nTrain, n - nTest),
+      test: order.slice(n - nTest)
+    };
+  }
+
+  const classCounts: number[] = [];
+  for (let i = 0; i < n; i++) {
+    classCounts[labels[i]] = (classCounts[labels[i]] ?? 0) + 1;
+  }
+
+  const split: SplitIndices = { train: [], val: [], test: [] };
+  const seen: number[] = [];
+  order.forEach(i => {
+    const c = labels[i];
+    const rank = seen[c] ?? 0;
+    seen[c] = rank + 1;
+    if (rank < Math.floor(classCounts[c] * trainRatio)) {
+      split.train.push(i);
+    } else if (rank < classCounts[c] - Math.round(classCounts[c] * config.testRatio)) {
+      split.val.push(i);
+    } else {
+      split.test.push(i);
+    }
+  });
+  return split;
+}
+
+// Role of every point under the split a training job makes with this seed
+// (the split is the first thing drawn from the model seed's stream)
+export function splitRoles(labels: ArrayLike<number>, seed: number, config: SplitConfig): SplitRole[] {
+  const roles = new Array<SplitRole>(labels.length);
+  const { train, val, test } = assignSplit(labels, config, new SeededRandom(seed));
+  train.forEach(i => { roles[i] = 'train'; });
+  val.forEach(i => { roles[i] = 'val'; });
+  test.forEach(i => { roles[i] = 'test'; });
+  return roles;
+}
+
+// Partition pool (already shuffled) into k folds: contiguous chunks, or dealt
+// round-robin within each class when stratified
+export function crossValidationFolds(
+  pool: number[],
+  labels: ArrayLike<number>,
+  folds: number,
+  stratified: boolean
+): number[][] {
+  const result: number[][] = Array.from({ length: folds }, () => []);
+
+  if (stratified) {
+    const seen: number[] = [];
+    pool.forEach(i => {
+      const c = labels[i];
+      const rank = seen[c] ?? 0;
+      seen[c] = rank + 1;
+      result[rank % folds].push(i);
+    });
+    return result;
+  }
+
+  for (let f = 0; f < folds; f++) {
+    result[f] = pool.slice(Math.floor((f * pool.length) / folds), Math.floor(((f + 1) * pool.length) / folds));
+  }
+  return result;
+}
+
+// Mean and sample standard deviation of the fold validation accuracies
+export function summarizeFolds(folds: CrossValidationFold[]): { mean: number; std: number } {
+  const k = folds.length;
+  const mean = folds.reduce((sum, fold) => sum + fold.valAccuracy, 0) / k;
+  const variance = k > 1 ? folds.reduce((sum, fold) => sum + (fold.valAccuracy - mean) ** 2, 0) / (k - 1) : 0;
+  return { mean, std: Math.sqrt(variance) };
+}
+
+// Split shares as percentages, e.g. "70/15/15" (or "80/20" without a test set)
+export function formatSplitRatios(config: SplitConfig): string {
+  const percent = (ratio: number) => Math.round(ratio * 100);
+  const shares = [1 - config.valRatio - config.testRatio, config.valRatio];
+  if (config.testRatio > 0) shares.push(config.testRatio);
+  return shares.map(percent).join('/');
+}
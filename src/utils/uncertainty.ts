@@ -0,0 +1,17 @@
+// Settings of the uncertainty experiments: repeat runs, the bootstrap, the
+// Bayesian posterior and the bias-variance sweep
+
+import { BootstrapMode } from './bootstrap';
+import { PosteriorMethod } from './bayesian';
+import { BiasVarianceSweep } from './biasVariance';
+
+export interface UncertaintyConfig {
+  repeatRuns: number;
+  bootstrapSamples: number;
+  bootstrapMode: BootstrapMode;
+  confidenceLevel: number; // Coverage of every confidence interval, e.g. 0.95
+  posteriorMethod: PosteriorMethod; // Bayesian mode: how posterior draws are made
+  posteriorSamples: number;
+  biasVarianceSweep: BiasVarianceSweep; // Bias-variance experiment: the setting varied
+  biasVarianceDatasets: number; // Fresh training sets per value
+}
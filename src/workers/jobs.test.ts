@@ -0,0 +1,54 @@
+import { expect, test } from '@jest/globals';
+import { createBootstrapJob } from './jobs';
+import { WorkerResponse } from './messages';
+import { DEMO_CONFIG } from '../utils/demo';
+import { generateData } from '../utils/dataGenerator';
+import { fitModel } from '../utils/logisticRegression';
+
+// Overlapping classes, so no model is perfect and every interval has width
+const { points } = generateData({ ...DEMO_CONFIG.dataConfig, n: 200, params: { noise: 2 } });
+
+// Step a bootstrap job to the end and return its result
+function runBootstrap(data: Parameters<typeof createBootstrapJob>[1]) {
+  const messages: WorkerResponse[] = [];
+  const job = createBootstrapJob(1, data, message => messages.push(message));
+  while (!job.step()) { /* keep stepping */ }
+  const complete = messages[messages.length - 1];
+  if (complete.job !== 'bootstrap' || complete.type !== 'complete') throw new Error('The bootstrap job did not complete');
+  return complete;
+}
+
+test('refits use the training settings and bracket the trained weights', () => {
+  // Refits are fitted with the model's own settings (strong shrinkage here), so they centre on its weights
+  const model = fitModel(points, { ...DEMO_CONFIG.modelConfig, lambda: 0.3, epochs: 60 });
+  const { refits, intervals } = runBootstrap({ points, model, mode: 'refit', numSamples: 40, level: 0.95, seed: 5 });
+
+  expect(refits!.weights).toHaveLength(40);
+  expect(refits!.intervals).toHaveLength(model.weights.length);
+  refits!.intervals.forEach((methods, j) => {
+    const [lower, upper] = methods.percentile!;
+    expect(lower).toBeLessThanOrEqual(model.weights[j]);
+    expect(upper).toBeGreaterThanOrEqual(model.weights[j]);
+    expect(methods.studentized).not.toBeNull();
+    expect(methods.bca).not.toBeNull();
+  });
+
+  // The validation accuracy has no per-refit standard error
+  expect(intervals.studentized).toBeNull();
+
+  const outOfBag = refits!.outOfBag!;
+  expect(outOfBag.estimate632).toBeLessThanOrEqual(Math.max(outOfBag.apparent, outOfBag.outOfBag));
+  expect(outOfBag.estimate632).toBeGreaterThanOrEqual(Math.min(outOfBag.apparent, outOfBag.outOfBag));
+}, 60000);
+
+test('the accuracy bootstrap has every interval and no refits', () => {
+  const model = fitModel(points, DEMO_CONFIG.modelConfig);
+  const result = runBootstrap({ points, model, mode: 'accuracy', numSamples: 200, level: 0.9, seed: 5 });
+
+  expect(result.accuracies).toHaveLength(200);
+  expect(result.refits).toBeNull();
+  Object.values(result.intervals).forEach(interval => {
+    expect(interval![0]).toBeLessThan(interval![1]);
+  });
+  expect(result.confidenceInterval).toEqual(result.intervals.percentile);
+});
@@ -0,0 +1,528 @@
+// Worker jobs
+//
+// Jobs are small state machines exposing a step() function that does one unit
+// of work (one epoch, one repeat run, one bootstrap sample, a chunk of sampler
+// steps) and returns true once the job has finished. Results are reported through the post callback
+// using the shared message types. The training and resampling steps themselves
+// live in src/utils, so the demo snapshot can reproduce them without the worker.
+
+import { SeededRandom } from '../utils/random';
+import { DataPoint, generateData, generatedClasses, trueClassProbabilities } from '../utils/dataGenerator';
+import { DEFAULT_CORRUPTION_CONFIG } from '../utils/corruption';
+import {
+  BootstrapRefits,
+  MethodIntervals,
+  accuracyIntervals,
+  bootstrapIntervals,
+  outOfBagEstimates,
+  percentileInterval,
+  repeatTrainingRun,
+  resampleIndices,
+  resampledAccuracy,
+  selectRows,
+  withoutRows
+} from '../utils/bootstrap';
+import {
+  ModelState,
+  TrainingCheckpoint,
+  TrainingData,
+  calculateAccuracy,
+  calculateLogLoss,
+  calculatePredictions,
+  classFromProbabilities,
+  createCheckpoint,
+  createClassPredictor,
+  isTrainingFinished,
+  pointsToModelArrays,
+  prepareSplitData,
+  prepareTrainingData,
+  startTrainingRun,
+  trainEpoch,
+  trainLogisticRegression,
+  trainingRunModel
+} from '../utils/logisticRegression';
+import { MetropolisChain, createChain, metropolisStep, posteriorModeConfig, priorPrecision, sampleGaussian } from '../utils/bayesian';
+import { choleskyDecomposition } from '../utils/linalg';
+import { BIAS_VARIANCE_TEST_SIZE, BiasVariancePoint, addPredictions, createPredictionTotals, decompose } from '../utils/biasVariance';
+import { featureNames } from '../utils/features';
+import { OptimizerCurve } from '../utils/optimizers';
+import { RegularizationPathPoint } from '../utils/regularization';
+import { CrossValidationFold, assignSplit, crossValidationFolds } from '../utils/splits';
+import {
+  BiasVarianceJobData,
+  BootstrapJobData,
+  CompareOptimizersJobData,
+  CrossValidationJobData,
+  JobRequest,
+  PosteriorJobData,
+  RegularizationPathJobData,
+  RepeatTrainingJobData,
+  TrainJobData,
+  TrainSnapshot,
+  WorkerResponse
+} from './messages';
+
+export type PostMessage = (message: WorkerResponse) => void;
+
+export interface Job {
+  step: () => boolean;
+  snapshot?: () => TrainSnapshot;
+}
+
+export function createTrainJob(jobId: number, data: TrainJobData, post: PostMessage): Job {
+  const { points, modelConfig } = data;
+  const run = startTrainingRun(points, modelConfig);
+  const { checkpoint, trainData, valData } = run;
+  const toModel = () => trainingRunModel(run, modelConfig);
+
+  return {
+    step() {
+      trainEpoch(checkpoint, trainData, valData, modelConfig, (epoch, loss, trainAccuracy, valAccuracy) => {
+        post({ jobId, job: 'train', type: 'progress', epoch, loss, trainAccuracy, valAccuracy });
+      });
+
+      if (!isTrainingFinished(checkpoint, modelConfig)) return false;
+
+      post({ jobId, job: 'train', type: 'complete', result: toModel() });
+      return true;
+    },
+
+    // Snapshot sent to the UI whenever the job is paused or single-stepped
+    snapshot() {
+      return { epoch: checkpoint.epoch, result: toModel() };
+    }
+  };
+}
+
+export function createRepeatTrainingJob(jobId: number, data: RepeatTrainingJobData, post: PostMessage): Job {
+  const { points, modelConfig, numRuns } = data;
+  const rng = new SeededRandom(modelConfig.seed);
+  const results: ModelState[] = [];
+
+  return {
+    step() {
+      // Create slightly different datasets by resampling
+      results.push(repeatTrainingRun(points, modelConfig, rng));
+
+      post({ jobId, job: 'repeatTraining', type: 'progress', completed: results.length, total: numRuns });
+
+      if (results.length < numRuns) return false;
+
+      post({ jobId, job: 'repeatTraining', type: 'complete', results });
+      return true;
+    }
+  };
+}
+
+// The model's own train/val rows (the split its training job drew, not the one
+// the current settings would draw), in its standardization and feature map
+function modelSplitData(points: DataPoint[], model: ModelState): { trainData: TrainingData; valData: TrainingData } {
+  if (!model.split) throw new Error('The model has no recorded training split');
+  const { seed, config } = model.split;
+  const indices = assignSplit(points.map(point => point.label), config, new SeededRandom(seed));
+  const rows = (subset: number[]) => pointsToModelArrays(subset.map(i => points[i]), model);
+  return { trainData: rows(indices.train), valData: rows(indices.val) };
+}
+
+// Jackknife refits for the BCa acceleration leave out one of at most this many
+// groups of training rows (a grouped jackknife keeps refit mode affordable)
+const JACKKNIFE_GROUPS = 100;
+
+export function createBootstrapJob(jobId: number, data: BootstrapJobData, post: PostMessage): Job {
+  const { points, model, mode, numSamples, level, seed } = data;
+  // Refits use the settings the model was trained with, so θ̂ is their estimate too
+  const modelConfig = model.config;
+  const rng = new SeededRandom(seed);
+  const size = model.weights.length;
+  const accuracies: number[] = [];
+  const accuracySEs: number[] = [];
+  const weights: number[][] = [];
+  const weightSEs: (number[] | null)[] = [];
+  const jackknife: { accuracy: number; weights: number[] }[] = [];
+  // Refit mode: per training row, how many refits left it out and got it wrong
+  let outOfBagCounts = new Uint32Array(0);
+  let outOfBagErrors = new Uint32Array(0);
+
+  // Standard error of every weight from a model's covariance (null for softmax)
+  const standardErrors = (covariance: number[] | null) => (
+    covariance ? Array.from({ length: size }, (_, j) => Math.sqrt(Math.max(covariance[j * size + j], 0))) : null
+  );
+
+  // Refit mode: the model's train/val rows, so every refit's weights are on the
+  // same scale as the model's. The jackknife refits all start from the same
+  // initial weights, so they differ only by the rows left out.
+  let refitData: { trainData: TrainingData; valData: TrainingData; numGroups: number; jackknifeSeed: number } | null = null;
+  if (mode === 'refit') {
+    const { trainData, valData } = modelSplitData(points, model);
+    refitData = {
+      trainData,
+      valData,
+      numGroups: Math.min(JACKKNIFE_GROUPS, trainData.n),
+      jackknifeSeed: rng.nextSeed()
+    };
+    outOfBagCounts = new Uint32Array(trainData.n);
+    outOfBagErrors = new Uint32Array(trainData.n);
+  }
+
+  // Accuracy of the model on the data it is judged on: the validation split
+  // when refitting, all points otherwise
+  const evaluationData = refitData ? refitData.valData : pointsToModelArrays(points, model);
+  const accuracy = calculateAccuracy(model.weights, evaluationData);
+  const total = numSamples + (refitData ? refitData.numGroups : 0);
+  const progressInterval = refitData ? 10 : 50;
+
+  return {
+    step() {
+      if (accuracies.length < numSamples) {
+        if (refitData) {
+          // Refit from fresh weights on resampled training rows; score on the validation split
+          const { trainData, valData } = refitData;
+          const drawn = resampleIndices(trainData.n, rng);
+          const sample = selectRows(trainData, drawn);
+          const result = trainLogisticRegression(sample, valData, modelConfig, undefined, createCheckpoint(rng, sample.d, sample.k));
+          weights.push(Array.from(result.weights));
+          weightSEs.push(standardErrors(result.covariance));
+          accuracies.push(result.valAccuracy);
+
+          // Score the training rows this refit never drew
+          const inBag = new Uint8Array(trainData.n);
+          drawn.forEach(i => { inBag[i] = 1; });
+          const predictions = calculatePredictions(result.weights, trainData);
+          for (let i = 0; i < trainData.n; i++) {
+            if (inBag[i]) continue;
+            outOfBagCounts[i]++;
+            if (predictions[i] !== trainData.y[i]) outOfBagErrors[i]++;
+          }
+        } else {
+          const { accuracy: sampleAccuracy, standardError } = resampledAccuracy(points, model, rng);
+          accuracies.push(sampleAccuracy);
+          accuracySEs.push(standardError);
+        }
+      } else if (refitData) {
+        // Jackknife: refit without one group of training rows
+        const { trainData, valData, numGroups, jackknifeSeed } = refitData;
+        const group = jackknife.length;
+        const start = Math.floor((group * trainData.n) / numGroups);
+        const end = Math.floor(((group + 1) * trainData.n) / numGroups);
+        const result = trainLogisticRegression(
+          withoutRows(trainData, start, end),
+          valData,
+          modelConfig,
+          undefined,
+          createCheckpoint(new SeededRandom(jackknifeSeed), trainData.d, trainData.k)
+        );
+        jackknife.push({ accuracy: result.valAccuracy, weights: Array.from(result.weights) });
+      }
+
+      const completed = accuracies.length + jackknife.length;
+      if (completed % progressInterval === 1 || completed === total) {
+        post({ jobId, job: 'bootstrap', type: 'progress', completed, total });
+      }
+
+      if (completed < total) return false;
+
+      let intervals: MethodIntervals;
+      let refits: BootstrapRefits | null = null;
+      if (refitData) {
+        // The validation accuracy has no per-refit standard error for the
+        // variation that comes from refitting, so it isn't studentized
+        intervals = bootstrapIntervals({
+          estimate: accuracy,
+          replicates: accuracies,
+          estimateSE: null,
+          replicateSEs: null,
+          jackknife: jackknife.map(leftOut => leftOut.accuracy)
+        }, level);
+
+        // Leave-one-out bootstrap error: each row's error rate over the refits
+        // that left it out, averaged over rows that were left out at least once
+        const { trainData } = refitData;
+        const trainPredictions = calculatePredictions(model.weights, trainData);
+        let apparentErrors = 0;
+        let outOfBagRate = 0;
+        let outOfBagRows = 0;
+        for (let i = 0; i < trainData.n; i++) {
+          if (trainPredictions[i] !== trainData.y[i]) apparentErrors++;
+          if (outOfBagCounts[i] > 0) {
+            outOfBagRate += outOfBagErrors[i] / outOfBagCounts[i];
+            outOfBagRows++;
+          }
+        }
+        const outOfBag = outOfBagRows > 0
+          ? outOfBagEstimates(apparentErrors / trainData.n, outOfBagRate / outOfBagRows, trainData.y, trainPredictions, trainData.k)
+          : null;
+
+        const modelSEs = standardErrors(model.covariance);
+        const refitSEs = weightSEs.every(ses => ses !== null) ? (weightSEs as number[][]) : null;
+        refits = {
+          weights,
+          intervals: Array.from({ length: size }, (_, j) => bootstrapIntervals({
+            estimate: model.weights[j],
+            replicates: weights.map(w => w[j]),
+            estimateSE: modelSEs ? modelSEs[j] : null,
+            replicateSEs: refitSEs ? refitSEs.map(ses => ses[j]) : null,
+            jackknife: jackknife.map(leftOut => leftOut.weights[j])
+          }, level)),
+          outOfBag
+        };
+      } else {
+        intervals = accuracyIntervals(model.weights, evaluationData, accuracies, accuracySEs, level);
+      }
+
+      const confidenceInterval = percentileInterval([...accuracies], level);
+      post({ jobId, job: 'bootstrap', type: 'complete', accuracies, confidenceInterval, intervals, refits });
+      return true;
+    }
+  };
+}
+
+export function createCompareOptimizersJob(jobId: number, data: CompareOptimizersJobData, post: PostMessage): Job {
+  const { points, modelConfig, optimizers } = data;
+  const curves: OptimizerCurve[] = [];
+  let current: { trainData: TrainingData; valData: TrainingData; checkpoint: TrainingCheckpoint } | null = null;
+
+  return {
+    step() {
+      const optimizer = optimizers[curves.length];
+      const config = { ...modelConfig, optimizer: { ...modelConfig.optimizer, type: optimizer } };
+
+      // Same seed as a train job, so every optimizer sees the same split and initial weights
+      if (!current) {
+        const rng = new SeededRandom(modelConfig.seed);
+        const { trainData, valData } = prepareTrainingData(points, rng, modelConfig.features, modelConfig.split);
+        current = { trainData, valData, checkpoint: createCheckpoint(rng, trainData.d, trainData.k) };
+      }
+
+      // One epoch per step
+      trainEpoch(current.checkpoint, current.trainData, current.valData, config);
+      if (!isTrainingFinished(current.checkpoint, modelConfig)) return false;
+
+      curves.push({ optimizer, losses: current.checkpoint.losses });
+      current = null;
+      post({ jobId, job: 'compareOptimizers', type: 'progress', completed: curves.length, total: optimizers.length });
+
+      if (curves.length < optimizers.length) return false;
+
+      post({ jobId, job: 'compareOptimizers', type: 'complete', curves });
+      return true;
+    }
+  };
+}
+
+export function createRegularizationPathJob(jobId: number, data: RegularizationPathJobData, post: PostMessage): Job {
+  const { points, modelConfig, lambdas } = data;
+  const path: RegularizationPathPoint[] = [];
+  let names: string[] = [];
+
+  return {
+    step() {
+      // One full fit per step, from the same seed as a train job so only λ differs
+      const lambda = lambdas[path.length];
+      const rng = new SeededRandom(modelConfig.seed);
+      const { trainData, valData, featureMap } = prepareTrainingData(points, rng, modelConfig.features, modelConfig.split);
+      const result = trainLogisticRegression(trainData, valData, { ...modelConfig, lambda }, undefined, createCheckpoint(rng, trainData.d, trainData.k));
+      names = featureNames(featureMap);
+      path.push({ lambda, weights: Array.from(result.weights), valAccuracy: result.valAccuracy });
+
+      post({ jobId, job: 'regularizationPath', type: 'progress', completed: path.length, total: lambdas.length });
+
+      if (path.length < lambdas.length) return false;
+
+      post({ jobId, job: 'regularizationPath', type: 'complete', path, featureNames: names });
+      return true;
+    }
+  };
+}
+
+export function createCrossValidationJob(jobId: number, data: CrossValidationJobData, post: PostMessage): Job {
+  const { points, modelConfig } = data;
+  const { split } = modelConfig;
+  // One stream: the split (as in a train job), then feature map and weights of each fold in turn
+  const rng = new SeededRandom(modelConfig.seed);
+  const labels = points.map(point => point.label);
+  const { train, val } = assignSplit(labels, split, rng);
+  const folds = crossValidationFolds([...train, ...val], labels, split.folds, split.stratified);
+  const results: CrossValidationFold[] = [];
+
+  return {
+    step() {
+      // One full fit per step, validated on the held-out fold
+      const heldOut = folds[results.length];
+      const rest = folds.filter(fold => fold !== heldOut).flat();
+      const { trainData, valData } = prepareSplitData(points, { train: rest, val: heldOut, test: [] }, rng, modelConfig.features);
+      const result = trainLogisticRegression(trainData, valData, modelConfig, undefined, createCheckpoint(rng, trainData.d, trainData.k));
+      results.push({
+        trainAccuracy: result.trainAccuracy,
+        valAccuracy: result.valAccuracy,
+        valLoss: calculateLogLoss(result.weights, valData)
+      });
+
+      post({ jobId, job: 'crossValidation', type: 'progress', completed: results.length, total: folds.length });
+
+      if (results.length < folds.length) return false;
+
+      post({ jobId, job: 'crossValidation', type: 'complete', folds: results });
+      return true;
+    }
+  };
+}
+
+// Metropolis iterations discarded while the chain settles, iterations between
+// kept draws, and iterations per job step
+const METROPOLIS_BURN_IN = 500;
+const METROPOLIS_THIN = 5;
+const METROPOLIS_CHUNK = 100;
+
+export function createPosteriorJob(jobId: number, data: PosteriorJobData, post: PostMessage): Job {
+  const { points, model, method, numSamples, seed } = data;
+  // The prior is the penalty the model was fitted with, not the current λ
+  const modelConfig = model.config;
+  const { lambda } = modelConfig;
+  const rng = new SeededRandom(seed);
+  const samples: number[][] = [];
+  const total = method === 'metropolis' ? METROPOLIS_BURN_IN + numSamples * METROPOLIS_THIN : numSamples;
+  let laplace: { trainData: TrainingData; mode: Float32Array; covariance: number[]; cholesky: Float64Array } | null = null;
+  let chain: MetropolisChain | null = null;
+
+  return {
+    step() {
+      if (!laplace) {
+        if (model.numClasses !== 2) throw new Error('The Bayesian posterior needs a two-class model');
+
+        // The model's training rows (as in bootstrap refits), then the MAP fit
+        // and its Laplace covariance
+        const { trainData, valData } = modelSplitData(points, model);
+        const result = trainLogisticRegression(
+          trainData,
+          valData,
+          posteriorModeConfig(modelConfig),
+          undefined,
+          createCheckpoint(rng, trainData.d, trainData.k)
+        );
+        if (!result.covariance) throw new Error('The posterior covariance could not be computed');
+
+        const size = result.weights.length;
+        laplace = {
+          trainData,
+          mode: result.weights,
+          covariance: result.covariance,
+          cholesky: choleskyDecomposition(Float64Array.from(result.covariance), size)
+        };
+        chain = createChain(result.weights, trainData, lambda);
+        return false;
+      }
+
+      let completed: number;
+      if (method === 'metropolis' && chain) {
+        for (let i = 0; i < METROPOLIS_CHUNK && chain.proposed < total; i++) {
+          metropolisStep(chain, laplace.trainData, lambda, laplace.cholesky, rng);
+          const kept = chain.proposed - METROPOLIS_BURN_IN;
+          if (kept > 0 && kept % METROPOLIS_THIN === 0) samples.push(Array.from(chain.weights));
+        }
+        completed = chain.proposed;
+      } else {
+        while (samples.length < numSamples) {
+          samples.push(sampleGaussian(laplace.mode, laplace.cholesky, rng));
+        }
+        completed = samples.length;
+      }
+
+      post({ jobId, job: 'posterior', type: 'progress', completed, total });
+
+      if (completed < total) return false;
+
+      post({
+        jobId,
+        job: 'posterior',
+        type: 'complete',
+        posterior: {
+          method,
+          mode: Array.from(laplace.mode),
+          covariance: laplace.covariance,
+          samples,
+          acceptanceRate: method === 'metropolis' && chain ? chain.accepted / chain.proposed : null,
+          priorPrecision: priorPrecision(lambda, laplace.trainData.n)
+        }
+      });
+      return true;
+    }
+  };
+}
+
+export function createBiasVarianceJob(jobId: number, data: BiasVarianceJobData, post: PostMessage): Job {
+  const { dataConfig, modelConfig, sweep, values, numDatasets, seed } = data;
+  const rng = new SeededRandom(seed);
+  // The same training set seeds at every value, so the curves differ only by the setting
+  const datasetSeeds = Array.from({ length: numDatasets }, () => rng.nextSeed());
+  // The test set comes from the clean generator, where the true class probabilities are known
+  const testConfig = { ...dataConfig, n: BIAS_VARIANCE_TEST_SIZE, corruption: DEFAULT_CORRUPTION_CONFIG, seed: rng.nextSeed() };
+  const testPoints = generateData(testConfig).points;
+  const trueProbs = trueClassProbabilities(testConfig, testPoints);
+  const numClasses = generatedClasses(dataConfig);
+  const results: BiasVariancePoint[] = [];
+  let totals = createPredictionTotals(testPoints.length, numClasses);
+
+  return {
+    step() {
+      // One fit per step, on a fresh draw of the dataset
+      const value = values[results.length];
+      const points = generateData({
+        ...dataConfig,
+        n: sweep === 'n' ? value : dataConfig.n,
+        seed: datasetSeeds[totals.numModels]
+      }).points;
+      const config = sweep === 'lambda' ? { ...modelConfig, lambda: value } : modelConfig;
+      const modelRng = new SeededRandom(modelConfig.seed);
+      const { trainData, valData, meanX, stdX, featureMap } = prepareTrainingData(points, modelRng, config.features, config.split);
+      const result = trainLogisticRegression(trainData, valData, config, undefined, createCheckpoint(modelRng, trainData.d, trainData.k));
+
+      const predictClasses = createClassPredictor({ ...result, meanX, stdX, featureMap });
+      const probs = new Float64Array(testPoints.length * numClasses);
+      const predictions = new Int32Array(testPoints.length);
+      testPoints.forEach((point, i) => {
+        const pointProbs = predictClasses(point.x, point.y);
+        probs.set(pointProbs, i * numClasses);
+        predictions[i] = classFromProbabilities(pointProbs);
+      });
+      addPredictions(totals, probs, predictions);
+
+      post({
+        jobId,
+        job: 'biasVariance',
+        type: 'progress',
+        completed: results.length * numDatasets + totals.numModels,
+        total: values.length * numDatasets
+      });
+
+      if (totals.numModels < numDatasets) return false;
+
+      results.push(decompose(totals, trueProbs, value));
+      totals = createPredictionTotals(testPoints.length, numClasses);
+      if (results.length < values.length) return false;
+
+      post({ jobId, job: 'biasVariance', type: 'complete', results });
+      return true;
+    }
+  };
+}
+
+export function createJob(request: JobRequest, post: PostMessage): Job {
+  switch (request.type) {
+    case 'train':
+      return createTrainJob(request.jobId, request.data, post);
+    case 'repeatTraining':
+      return createRepeatTrainingJob(request.jobId, request.data, post);
+    case 'bootstrap':
+      return createBootstrapJob(request.jobId, request.data, post);
+    case 'compareOptimizers':
+      return createCompareOptimizersJob(request.jobId, request.data, post);
+    case 'regularizationPath':
+      return createRegularizationPathJob(request.jobId, request.data, post);
+    case 'crossValidation':
+      return createCrossValidationJob(request.jobId, request.data, post);
+    case 'posterior':
+      return createPosteriorJob(request.jobId, request.data, post);
+    case 'biasVariance':
+      return createBiasVarianceJob(request.jobId, request.data, post);
+  }
+}
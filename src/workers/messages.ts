@@ -0,0 +1,131 @@
+import { DataPoint, GeneratorConfig } from '../utils/dataGenerator';
+import { ModelConfig, ModelState } from '../utils/logisticRegression';
+import { OptimizerCurve, OptimizerType } from '../utils/optimizers';
+import { RegularizationPathPoint } from '../utils/regularization';
+import { CrossValidationFold } from '../utils/splits';
+import { BootstrapMode, BootstrapRefits, MethodIntervals } from '../utils/bootstrap';
+import { Posterior, PosteriorMethod } from '../utils/bayesian';
+import { BiasVariancePoint, BiasVarianceSweep } from '../utils/biasVariance';
+
+// Message definitions shared by useTrainingWorker and the training worker.
+// Every job request carries a jobId; every response echoes the jobId and the
+// job type so it can be routed back to the right callbacks.
+
+export type JobType = 'train' | 'repeatTraining' | 'bootstrap' | 'compareOptimizers' | 'regularizationPath' | 'crossValidation' | 'posterior' | 'biasVariance';
+export type JobControl = 'cancel' | 'pause' | 'resume' | 'step';
+
+export interface TrainJobData {
+  points: DataPoint[];
+  modelConfig: ModelConfig; // modelConfig.seed drives split shuffling and weight init
+  startPaused?: boolean; // Start at epoch 0 waiting for resume/step
+}
+
+export interface RepeatTrainingJobData {
+  points: DataPoint[];
+  modelConfig: ModelConfig; // modelConfig.seed drives resampling, splits and weight init of every run
+  numRuns: number;
+}
+
+export interface BootstrapJobData {
+  points: DataPoint[];
+  model: ModelState; // Trained model whose accuracy (or weights, when refitting) is resampled; refits use its split and settings
+  mode: BootstrapMode;
+  numSamples: number;
+  level: number; // Confidence level of the intervals
+  seed: number;
+}
+
+export interface CompareOptimizersJobData {
+  points: DataPoint[];
+  modelConfig: ModelConfig; // Every optimizer starts from the same split and initial weights
+  optimizers: OptimizerType[];
+}
+
+export interface RegularizationPathJobData {
+  points: DataPoint[];
+  modelConfig: ModelConfig; // Refit from the same seed with modelConfig.lambda replaced by each value
+  lambdas: number[];
+}
+
+export interface CrossValidationJobData {
+  points: DataPoint[];
+  modelConfig: ModelConfig; // modelConfig.split sets the folds; the test split stays held out
+}
+
+export interface PosteriorJobData {
+  points: DataPoint[];
+  model: ModelState; // Binary model whose split, standardization and features the posterior uses; its λ sets the prior
+  method: PosteriorMethod;
+  numSamples: number;
+  seed: number;
+}
+
+export interface BiasVarianceJobData {
+  dataConfig: GeneratorConfig; // Every training set is a fresh draw of this config, with its own seed
+  modelConfig: ModelConfig; // Settings of every fit; the seed drives each dataset's split and weight init
+  sweep: BiasVarianceSweep; // Whether the values replace modelConfig.lambda or dataConfig.n
+  values: number[];
+  numDatasets: number; // Training sets per value
+  seed: number; // Seeds of the training sets and the test set
+}
+
+export type JobRequest =
+  | { type: 'train'; jobId: number; data: TrainJobData }
+  | { type: 'repeatTraining'; jobId: number; data: RepeatTrainingJobData }
+  | { type: 'bootstrap'; jobId: number; data: BootstrapJobData }
+  | { type: 'compareOptimizers'; jobId: number; data: CompareOptimizersJobData }
+  | { type: 'regularizationPath'; jobId: number; data: RegularizationPathJobData }
+  | { type: 'crossValidation'; jobId: number; data: CrossValidationJobData }
+  | { type: 'posterior'; jobId: number; data: PosteriorJobData }
+  | { type: 'biasVariance'; jobId: number; data: BiasVarianceJobData };
+
+export interface ControlRequest {
+  type: JobControl;
+  jobId: number;
+}
+
+export type WorkerRequest = JobRequest | ControlRequest;
+
+export function isControlRequest(request: WorkerRequest): request is ControlRequest {
+  return !('data' in request);
+}
+
+export interface TrainProgress {
+  epoch: number;
+  loss: number;
+  trainAccuracy: number;
+  valAccuracy: number;
+}
+
+// Model at the current checkpoint of a paused training job
+export interface TrainSnapshot {
+  epoch: number;
+  result: ModelState;
+}
+
+export interface CountProgress {
+  completed: number;
+  total: number;
+}
+
+type JobEvent<J extends JobType, T extends string, P> = { jobId: number; job: J; type: T } & P;
+
+export type WorkerResponse =
+  | JobEvent<'train', 'progress', TrainProgress>
+  | JobEvent<'train', 'paused', TrainSnapshot>
+  | JobEvent<'train', 'complete', { result: ModelState }>
+  | JobEvent<'repeatTraining', 'progress', CountProgress>
+  | JobEvent<'repeatTraining', 'complete', { results: ModelState[] }>
+  | JobEvent<'bootstrap', 'progress', CountProgress>
+  | JobEvent<'bootstrap', 'complete', { accuracies: number[]; confidenceInterval: [number, number]; intervals: MethodIntervals; refits: BootstrapRefits | null }>
+  | JobEvent<'compareOptimizers', 'progress', CountProgress>
+  | JobEvent<'compareOptimizers', 'complete', { curves: OptimizerCurve[] }>
+  | JobEvent<'regularizationPath', 'progress', CountProgress>
+  | JobEvent<'regularizationPath', 'complete', { path: RegularizationPathPoint[]; featureNames: string[] }>
+  | JobEvent<'crossValidation', 'progress', CountProgress>
+  | JobEvent<'crossValidation', 'complete', { folds: CrossValidationFold[] }>
+  | JobEvent<'posterior', 'progress', CountProgress>
+  | JobEvent<'posterior', 'complete', { posterior: Posterior }>
+  | JobEvent<'biasVariance', 'progress', CountProgress>
+  | JobEvent<'biasVariance', 'complete', { results: BiasVariancePoint[] }>
+  | JobEvent<JobType, 'error', { error: string }>;
@@ -0,0 +1,146 @@
+// Training Web Worker
+// This worker handles model training to keep the UI responsive. It is bundled
+// as a module worker, so it shares the algorithm code in src/utils with the app.
+
+import { Job, createJob } from './jobs';
+import {
+  JobControl,
+  JobType,
+  WorkerRequest,
+  WorkerResponse,
+  isControlRequest
+} from './messages';
+
+// eslint-disable-next-line no-restricted-globals
+const ctx = self as unknown as Worker;
+
+// Scheduler
+//
+// Jobs (see ./jobs) do one unit of work per step(). The scheduler below
+// round-robins between active jobs so several can be in flight at once, and
+// yields to the event loop between slices so cancel/pause/resume/step messages
+// get through. Paused jobs keep their state (the training job keeps its
+// checkpoint) and simply drop out of the run queue until resumed.
+
+function post(message: WorkerResponse) {
+  ctx.postMessage(message);
+}
+
+// Time budget for one scheduler slice before yielding to the message queue
+const SLICE_MS = 15;
+
+interface JobEntry {
+  type: JobType;
+  job: Job;
+  paused: boolean;
+}
+
+const jobs = new Map<number, JobEntry>();
+let runQueue: number[] = [];
+let sliceScheduled = false;
+
+function scheduleSlice() {
+  if (sliceScheduled) return;
+  sliceScheduled = true;
+  setTimeout(runSlice, 0);
+}
+
+function postError(jobId: number, type: JobType, error: unknown) {
+  post({ jobId, job: type, type: 'error', error: error instanceof Error ? error.message : String(error) });
+}
+
+// Advance a job by one unit of work; returns true if it is finished
+function stepJob(jobId: number, entry: JobEntry): boolean {
+  let done: boolean;
+  try {
+    done = entry.job.step();
+  } catch (error) {
+    postError(jobId, entry.type, error);
+    done = true;
+  }
+
+  if (done) jobs.delete(jobId);
+  return done;
+}
+
+function postPaused(jobId: number, entry: JobEntry) {
+  if (entry.type === 'train' && entry.job.snapshot) {
+    post({ jobId, job: 'train', type: 'paused', ...entry.job.snapshot() });
+  }
+}
+
+function runSlice() {
+  sliceScheduled = false;
+  const deadline = performance.now() + SLICE_MS;
+
+  while (runQueue.length > 0 && performance.now() < deadline) {
+    const jobId = runQueue.shift()!;
+    const entry = jobs.get(jobId);
+    if (!entry || entry.paused) continue; // Cancelled or paused while queued
+
+    if (!stepJob(jobId, entry)) {
+      runQueue.push(jobId);
+    }
+  }
+
+  if (runQueue.length > 0) scheduleSlice();
+}
+
+function removeFromQueue(jobId: number) {
+  runQueue = runQueue.filter(id => id !== jobId);
+}
+
+const CONTROL_HANDLERS: Record<JobControl, (jobId: number, entry: JobEntry) => void> = {
+  cancel(jobId) {
+    jobs.delete(jobId);
+    removeFromQueue(jobId);
+  },
+
+  pause(jobId, entry) {
+    if (entry.paused) return;
+    entry.paused = true;
+    removeFromQueue(jobId);
+    postPaused(jobId, entry);
+  },
+
+  resume(jobId, entry) {
+    if (!entry.paused) return;
+    entry.paused = false;
+    runQueue.push(jobId);
+    scheduleSlice();
+  },
+
+  // Single-step a paused job by one unit of work
+  step(jobId, entry) {
+    if (!entry.paused) return;
+    if (!stepJob(jobId, entry)) {
+      postPaused(jobId, entry);
+    }
+  }
+};
+
+ctx.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const request = e.data;
+  const { jobId } = request;
+
+  if (isControlRequest(request)) {
+    const entry = jobs.get(jobId);
+    if (entry) CONTROL_HANDLERS[request.type](jobId, entry);
+    return;
+  }
+
+  try {
+    const startPaused = request.type === 'train' && Boolean(request.data.startPaused);
+    const entry: JobEntry = { type: request.type, job: createJob(request, post), paused: startPaused };
+    jobs.set(jobId, entry);
+
+    if (entry.paused) {
+      postPaused(jobId, entry);
+    } else {
+      runQueue.push(jobId);
+      scheduleSlice();
+    }
+  } catch (error) {
+    postError(jobId, request.type, error);
+  }
+};